@@ -0,0 +1,148 @@
+import { ipcMain } from "electron"
+import type { AdsSettings, AdsStatus } from "@/types/ads"
+import { hasX11Display } from "./x11-client"
+import { X11InputHook, type InputEvent } from "./x11-input-hook"
+
+// Switches the overlay to the ADS crosshair while the binding is held.
+// globalShortcut only reports presses of keys it grabs away from the game,
+// so holding needs an input hook; only X11 has one we can use without a
+// native module (XWayland sees input while an XWayland window has focus).
+
+const mouseButtons: Record<string, number> = {
+  MouseMiddle: 2,
+  MouseRight: 3,
+  Mouse4: 8,
+  Mouse5: 9
+}
+
+// X11 keysyms per key binding, left and right variants where there are two
+const keysyms: Record<string, number[]> = {
+  Shift: [0xffe1, 0xffe2],
+  Control: [0xffe3, 0xffe4],
+  Alt: [0xffe9, 0xffea],
+  CapsLock: [0xffe5],
+  Space: [0x20],
+  Tab: [0xff09]
+}
+
+function keysymsFor(binding: string): number[] {
+  if (keysyms[binding]) return keysyms[binding]
+  // letters: lowercase and uppercase keysyms match their ASCII codes
+  if (/^[A-Z]$/.test(binding)) return [binding.toLowerCase().charCodeAt(0), binding.charCodeAt(0)]
+  return []
+}
+
+type AdsServiceOptions = {
+  onActive: (active: boolean) => void
+  onStatus: (status: AdsStatus) => void
+}
+
+export class AdsService {
+  private hook: X11InputHook | null = null
+  private starting: Promise<void> | null = null
+  private match: ((event: InputEvent) => boolean) | null = null
+  private settings: AdsSettings | null = null
+  private active = false
+  private status: AdsStatus
+  private opts: AdsServiceOptions
+
+  constructor(opts: AdsServiceOptions) {
+    this.opts = opts
+    this.status = { supported: AdsService.isSupported(), running: false, error: null }
+  }
+
+  static isSupported(): boolean {
+    return process.platform === "linux" && hasX11Display()
+  }
+
+  getStatus(): AdsStatus {
+    return this.status
+  }
+
+  isActive(): boolean {
+    return this.active
+  }
+
+  configure(settings: AdsSettings): void {
+    const prev = this.settings
+    this.settings = settings
+    if (prev && prev.enabled === settings.enabled && prev.binding === settings.binding) return
+    this.setActive(false)
+    if (!settings.enabled || !this.status.supported) {
+      this.stop()
+      return
+    }
+    void this.start(settings.binding)
+  }
+
+  dispose(): void {
+    this.settings = null
+    this.stop()
+  }
+
+  private setStatus(patch: Partial<AdsStatus>): void {
+    this.status = { ...this.status, ...patch }
+    this.opts.onStatus(this.status)
+  }
+
+  private setActive(active: boolean): void {
+    if (active === this.active) return
+    this.active = active
+    this.opts.onActive(active)
+  }
+
+  private async start(binding: string): Promise<void> {
+    // wait for a previous start so two hooks never run at once
+    await this.starting
+    this.stop()
+    this.starting = (async () => {
+      try {
+        const hook = await X11InputHook.start(
+          (event) => this.onInput(event),
+          (err) => {
+            if (this.hook !== hook) return
+            console.warn("ADS input hook stopped:", err)
+            this.hook = null
+            this.setActive(false)
+            this.setStatus({ running: false, error: err.message })
+          }
+        )
+        // settings may have changed while connecting
+        if (!this.settings?.enabled || this.settings.binding !== binding) {
+          hook.close()
+          return
+        }
+        this.hook = hook
+        const button = mouseButtons[binding]
+        if (button) {
+          this.match = (e) => e.kind === "button" && e.code === button
+        } else {
+          const codes = await hook.keycodesFor(keysymsFor(binding))
+          this.match = (e) => e.kind === "key" && codes.has(e.code)
+        }
+        this.setStatus({ running: true, error: null })
+      } catch (err) {
+        console.warn("Could not start the ADS input hook:", err)
+        this.setStatus({ running: false, error: err instanceof Error ? err.message : String(err) })
+      }
+    })()
+    await this.starting
+  }
+
+  private stop(): void {
+    this.hook?.close()
+    this.hook = null
+    this.match = null
+    this.setActive(false)
+    if (this.status.running || this.status.error) this.setStatus({ running: false, error: null })
+  }
+
+  private onInput(event: InputEvent): void {
+    if (event.kind !== "motion" && this.match?.(event)) this.setActive(event.pressed)
+  }
+}
+
+export function registerAdsIPC(service: AdsService): void {
+  ipcMain.handle("ads:status", () => service.getStatus())
+  ipcMain.handle("ads:active", () => service.isActive())
+}
@@ -0,0 +1,161 @@
+import { promises as fs } from "fs"
+import { isAbsolute, resolve } from "path"
+import type { ControlResult } from "@/types/control"
+import { ruleMatches } from "@/types/profiles"
+import { describeFieldErrors, type ConfigValidationResult } from "@/types/crosshairSchema"
+import { decodeCode, parseConfigFile } from "./codes"
+import type { ControlActions } from "./control"
+import type { AppStore } from "./store"
+import type { WindowAttachService } from "./windowAttach"
+
+// Command-line flags, e.g. for window manager keybindings:
+//
+//   dotline --toggle | --show | --hide
+//   dotline --apply <file.json|file.cfg|share code>
+//   dotline --profile <name>
+//   dotline --display <id>
+//   dotline --attach-class <wmClass>
+//
+// A second launch forwards its argv to the running instance, which runs the
+// commands and exits the new process. Values may also be given as
+// --flag=value, except --display: Chromium reads --display=<x> on Linux as the
+// X server to connect to.
+
+export type CliCommand =
+  | { kind: "toggle" | "show" | "hide" }
+  | { kind: "apply"; source: string }
+  | { kind: "profile"; name: string }
+  | { kind: "display"; id: number }
+  | { kind: "attach-class"; wmClass: string }
+
+const switches = ["toggle", "show", "hide"] as const
+const valueFlags = ["apply", "profile", "display", "attach-class"] as const
+type ValueFlag = (typeof valueFlags)[number]
+
+export type CliParseResult = { commands: CliCommand[]; errors: string[] }
+
+// Unknown arguments are ignored: argv also holds the executable, the app path
+// in development and switches added by Chromium.
+export function parseCliArgs(argv: string[]): CliParseResult {
+  const commands: CliCommand[] = []
+  const errors: string[] = []
+
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--([a-z-]+)(?:=(.*))?$/s.exec(argv[i])
+    if (!match) continue
+    const [, name, inline] = match
+
+    if ((switches as readonly string[]).includes(name)) {
+      commands.push({ kind: name as (typeof switches)[number] })
+      continue
+    }
+    if (!(valueFlags as readonly string[]).includes(name)) continue
+
+    let value = inline
+    if (value === undefined && i + 1 < argv.length && !argv[i + 1].startsWith("--")) {
+      value = argv[++i]
+    }
+    value = value?.trim()
+    if (!value) {
+      errors.push(`--${name} needs a value`)
+      continue
+    }
+
+    switch (name as ValueFlag) {
+      case "apply":
+        commands.push({ kind: "apply", source: value })
+        break
+      case "profile":
+        commands.push({ kind: "profile", name: value })
+        break
+      case "display": {
+        const id = Number(value)
+        if (Number.isInteger(id)) commands.push({ kind: "display", id })
+        else errors.push(`--display needs a numeric display id, got "${value}"`)
+        break
+      }
+      case "attach-class":
+        commands.push({ kind: "attach-class", wmClass: value })
+        break
+    }
+  }
+  return { commands, errors }
+}
+
+type CliServiceOptions = {
+  actions: ControlActions
+  store: AppStore
+  windowAttach: WindowAttachService
+  onError: (message: string) => void
+}
+
+export class CliService {
+  private opts: CliServiceOptions
+
+  constructor(opts: CliServiceOptions) {
+    this.opts = opts
+  }
+
+  // Returns whether argv held any Dotline flags, so a plain second launch
+  // can still bring up the settings window
+  async handleArgv(argv: string[], workingDirectory: string): Promise<boolean> {
+    const { commands, errors } = parseCliArgs(argv)
+    for (const error of errors) this.opts.onError(error)
+    // commands run in order, so `--profile x --display 2` applies both
+    for (const command of commands) {
+      const error = await this.run(command, workingDirectory)
+      if (error) this.opts.onError(error)
+    }
+    return commands.length > 0 || errors.length > 0
+  }
+
+  // Returns an error message, or null on success
+  private async run(command: CliCommand, workingDirectory: string): Promise<string | null> {
+    const { actions, store, windowAttach } = this.opts
+    const result = (res: ControlResult): string | null => (res.ok ? null : res.error)
+
+    switch (command.kind) {
+      case "toggle":
+      case "show":
+      case "hide":
+        return result(await actions.run({ command: command.kind }))
+      case "display":
+        return result(await actions.run({ command: "display", id: command.id }))
+      case "apply": {
+        const parsed = await this.readConfig(command.source, workingDirectory)
+        if (!parsed.ok) return `--apply: ${describeFieldErrors(parsed.errors)}`
+        await store.applyLibraryConfig(null, parsed.config)
+        return null
+      }
+      case "profile":
+        return result(await actions.run({ command: "profile", name: command.name }))
+      case "attach-class": {
+        if (!windowAttach.isEnabled()) return "Window attachment is not supported on this desktop."
+        // matched like a profile rule: the whole WM_CLASS or either part, any case
+        const rule = { wmClass: command.wmClass.toLowerCase() }
+        const target = (await windowAttach.listWindows()).find((w) =>
+          ruleMatches(rule, { ...w, wmClass: w.wmClass.toLowerCase() })
+        )
+        if (!target) return `No open window with class "${command.wmClass}"`
+        return result(await actions.run({ command: "attach", windowId: target.id }))
+      }
+    }
+  }
+
+  // The source is a file if one exists at that path, otherwise a code
+  private async readConfig(
+    source: string,
+    workingDirectory: string
+  ): Promise<ConfigValidationResult> {
+    const path = isAbsolute(source) ? source : resolve(workingDirectory, source)
+    let text: string
+    try {
+      text = await fs.readFile(path, "utf-8")
+    } catch {
+      const decoded = decodeCode(source)
+      if (decoded.ok) return { ok: true, config: decoded.config }
+      return { ok: false, errors: decoded.errors ?? [{ field: "config", message: decoded.error }] }
+    }
+    return parseConfigFile(text)
+  }
+}
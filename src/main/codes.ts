@@ -0,0 +1,98 @@
+import { ipcMain } from "electron"
+import type { CrosshairConfig } from "@/types/crosshair"
+import type { CodeDecodeResult, CodeEncodeResult, CodeFormat } from "@/types/codes"
+import {
+  describeFieldErrors,
+  validateConfig,
+  type ConfigValidationResult
+} from "@/types/crosshairSchema"
+import { decodeDotlineCode, encodeDotlineCode, isDotlineCode } from "./dotline-code"
+import { decodeValorantCode, encodeValorantCode, isValorantCode } from "./valorant-code"
+import {
+  decodeCs2Commands,
+  decodeCs2ShareCode,
+  encodeCs2Commands,
+  encodeCs2ShareCode,
+  isCs2Commands,
+  isCs2ShareCode
+} from "./cs2-code"
+
+type Codec = {
+  detect(text: string): boolean
+  decode(text: string): CodeDecodeResult
+  encode(config: CrosshairConfig, name?: string): CodeEncodeResult
+}
+
+const codecs: Record<CodeFormat, Codec> = {
+  dotline: { detect: isDotlineCode, decode: decodeDotlineCode, encode: encodeDotlineCode },
+  valorant: { detect: isValorantCode, decode: decodeValorantCode, encode: encodeValorantCode },
+  cs2: { detect: isCs2ShareCode, decode: decodeCs2ShareCode, encode: encodeCs2ShareCode },
+  "cs2-commands": { detect: isCs2Commands, decode: decodeCs2Commands, encode: encodeCs2Commands }
+}
+
+export function detectCodeFormat(text: string): CodeFormat | null {
+  for (const [format, codec] of Object.entries(codecs) as [CodeFormat, Codec][]) {
+    if (codec.detect(text)) return format
+  }
+  return null
+}
+
+export function decodeCode(text: string): CodeDecodeResult {
+  const format = typeof text === "string" ? detectCodeFormat(text) : null
+  if (!format) return { ok: false, format: null, error: "Not a recognized crosshair code" }
+  try {
+    const result = codecs[format].decode(text)
+    if (!result.ok) return result
+    const checked = validateConfig(result.config)
+    if (!checked.ok) {
+      return {
+        ok: false,
+        format,
+        error: describeFieldErrors(checked.errors),
+        errors: checked.errors
+      }
+    }
+    return { ...result, config: checked.config }
+  } catch (err) {
+    return { ok: false, format, error: err instanceof Error ? err.message : String(err) }
+  }
+}
+
+// Contents of an imported file: a JSON config, or a text file holding a
+// crosshair code
+export function parseConfigFile(text: string): ConfigValidationResult {
+  const decoded = decodeCode(text)
+  if (decoded.ok) return { ok: true, config: decoded.config }
+  if (decoded.format) {
+    return {
+      ok: false,
+      errors: decoded.errors ?? [{ field: "config", message: decoded.error }]
+    }
+  }
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return { ok: false, errors: [{ field: "config", message: "File is not valid JSON" }] }
+  }
+  return validateConfig(parsed)
+}
+
+export function encodeCode(
+  config: CrosshairConfig,
+  format: CodeFormat,
+  name?: string
+): CodeEncodeResult {
+  const codec = codecs[format]
+  if (!codec) return { ok: false, format, error: `Unknown code format "${format}"` }
+  return codec.encode(config, name)
+}
+
+export function registerCodeIPC(): void {
+  ipcMain.handle("config:decode-code", (_e, text: string) => decodeCode(text))
+  ipcMain.handle(
+    "config:encode-code",
+    (_e, config: CrosshairConfig, format: CodeFormat, name?: string) =>
+      encodeCode(config, format, name)
+  )
+}
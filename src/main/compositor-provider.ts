@@ -0,0 +1,150 @@
+import { EventEmitter } from "events"
+import type { WindowRef } from "@/types/windowAttach"
+import type { ProviderGeometry } from "./window-provider"
+
+export type WindowSnapshot = { ref: WindowRef; geometry: ProviderGeometry }
+
+export type DesktopSnapshot = {
+  activeId: number | null
+  windows: Map<number, WindowSnapshot>
+}
+
+// Compositors do not report every geometry change (e.g. a tiled neighbour
+// being resized), so watchers also reconcile on a slow timer.
+const RECONCILE_MS = 1000
+
+// Shared plumbing for Wayland compositor providers: subclasses fetch a full
+// snapshot of the desktop and signal when it may have changed; watchers are
+// driven by diffing snapshots.
+export abstract class CompositorProvider {
+  private emitter = new EventEmitter()
+  private snapshot: DesktopSnapshot | null = null
+  private inflight: Promise<DesktopSnapshot> | null = null
+  private dirty = false
+  private watchers = 0
+  private reconcileTimer: NodeJS.Timeout | null = null
+
+  constructor() {
+    this.emitter.setMaxListeners(0)
+  }
+
+  protected abstract fetchSnapshot(): Promise<DesktopSnapshot>
+  protected abstract startEvents(): void
+  protected abstract stopEvents(): void
+
+  // Subclasses call this whenever the compositor reports a change
+  protected invalidate(): void {
+    if (this.watchers === 0) {
+      this.snapshot = null
+      return
+    }
+    void this.refresh()
+  }
+
+  private async refresh(): Promise<DesktopSnapshot> {
+    if (this.inflight) {
+      // refresh again once the running fetch is done, it may predate the change
+      this.dirty = true
+      return this.inflight
+    }
+    this.inflight = this.fetchSnapshot()
+      .catch(() => ({ activeId: null, windows: new Map() }) as DesktopSnapshot)
+      .then((snap) => {
+        this.inflight = null
+        this.snapshot = snap
+        this.emitter.emit("snapshot", snap)
+        if (this.dirty) {
+          this.dirty = false
+          void this.refresh()
+        }
+        return snap
+      })
+    return this.inflight
+  }
+
+  private async current(): Promise<DesktopSnapshot> {
+    if (this.watchers > 0 && this.snapshot) return this.snapshot
+    return this.refresh()
+  }
+
+  private retain(): void {
+    this.watchers++
+    if (this.watchers !== 1) return
+    this.startEvents()
+    this.reconcileTimer = setInterval(() => void this.refresh(), RECONCILE_MS)
+  }
+
+  private release(): void {
+    this.watchers = Math.max(0, this.watchers - 1)
+    if (this.watchers !== 0) return
+    this.stopEvents()
+    if (this.reconcileTimer) clearInterval(this.reconcileTimer)
+    this.reconcileTimer = null
+    this.snapshot = null
+  }
+
+  async listWindows(): Promise<WindowRef[]> {
+    const snap = await this.current()
+    return [...snap.windows.values()].map((w) => w.ref)
+  }
+
+  async getActiveWindow(): Promise<number | null> {
+    return (await this.current()).activeId
+  }
+
+  async getWindow(windowId: number): Promise<WindowRef | null> {
+    return (await this.current()).windows.get(windowId)?.ref ?? null
+  }
+
+  async getGeometry(windowId: number): Promise<ProviderGeometry | null> {
+    return (await this.current()).windows.get(windowId)?.geometry ?? null
+  }
+
+  watchGeometry(
+    windowId: number,
+    opts: { intervalMs?: number; onChange: (g: ProviderGeometry) => void; onMissing?: () => void }
+  ): () => void {
+    let last: ProviderGeometry | null = null
+    const onSnapshot = (snap: DesktopSnapshot): void => {
+      const g = snap.windows.get(windowId)?.geometry
+      if (!g) {
+        opts.onMissing?.()
+        return
+      }
+      if (
+        !last ||
+        g.x !== last.x ||
+        g.y !== last.y ||
+        g.width !== last.width ||
+        g.height !== last.height ||
+        g.mapped !== last.mapped
+      ) {
+        last = g
+        opts.onChange(g)
+      }
+    }
+    this.emitter.on("snapshot", onSnapshot)
+    this.retain()
+    void this.refresh()
+    return () => {
+      this.emitter.off("snapshot", onSnapshot)
+      this.release()
+    }
+  }
+
+  watchActiveWindow(onChange: (windowId: number | null) => void): () => void {
+    let last: number | null | undefined = undefined
+    const onSnapshot = (snap: DesktopSnapshot): void => {
+      if (snap.activeId === last) return
+      last = snap.activeId
+      onChange(snap.activeId)
+    }
+    this.emitter.on("snapshot", onSnapshot)
+    this.retain()
+    void this.refresh()
+    return () => {
+      this.emitter.off("snapshot", onSnapshot)
+      this.release()
+    }
+  }
+}
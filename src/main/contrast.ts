@@ -0,0 +1,253 @@
+import { desktopCapturer, ipcMain, screen } from "electron"
+import type { ContrastAdjustment, ContrastSettings, ContrastStatus } from "@/types/contrast"
+import { isX11Session } from "./x11-provider"
+
+// Adaptive contrast: samples the screen around the crosshair a few times a
+// second and tells the overlay which palette color stands out most there.
+//
+// desktopCapturer has no region capture, so each sample asks for a thumbnail
+// of the whole display that is just large enough for the region to keep a
+// few pixels per side (enough for an average) and crops it.
+
+type Rgb = [number, number, number]
+
+// DIPs from the top left of the display
+export type SamplePoint = { displayId: number; x: number; y: number }
+
+// pixels per side the sampled region keeps in the thumbnail
+const SAMPLE_PIXELS = 16
+// the current color is kept until another scores this much better, so
+// backgrounds near a tie do not make the crosshair flicker
+const SWITCH_MARGIN = 1.2
+// pixels this close to a crosshair color are the crosshair, not the background
+const CROSSHAIR_TOLERANCE = 24
+
+type ContrastServiceOptions = {
+  // the crosshair center, null while there is no overlay
+  getCenter: () => SamplePoint | null
+  // "#RRGGBB" colors the crosshair draws with, left out of samples
+  getCrosshairColors: () => string[]
+  onAdjust: (adjustment: ContrastAdjustment | null) => void
+  onStatus: (status: ContrastStatus) => void
+}
+
+export class ContrastService {
+  private settings: ContrastSettings | null = null
+  private timer: NodeJS.Timeout | null = null
+  private sampling = false
+  private adjustment: ContrastAdjustment | null = null
+  private picked: string | null = null
+  private status: ContrastStatus
+  private opts: ContrastServiceOptions
+
+  constructor(opts: ContrastServiceOptions) {
+    this.opts = opts
+    this.status = {
+      supported: ContrastService.isSupported(),
+      running: false,
+      paused: false,
+      error: null,
+      background: null,
+      picked: null
+    }
+  }
+
+  // Wayland only captures through a portal that asks the user each time
+  static isSupported(): boolean {
+    return process.platform !== "linux" || isX11Session()
+  }
+
+  getStatus(): ContrastStatus {
+    return this.status
+  }
+
+  getAdjustment(): ContrastAdjustment | null {
+    return this.adjustment
+  }
+
+  configure(settings: ContrastSettings): void {
+    const prev = this.settings
+    this.settings = settings
+    if (prev && JSON.stringify(prev) === JSON.stringify(settings)) return
+    this.stop()
+    if (settings.enabled && this.status.supported) this.start(settings.rate)
+  }
+
+  // Hidden overlays are not sampled
+  setPaused(paused: boolean): void {
+    if (paused !== this.status.paused) this.setStatus({ paused })
+  }
+
+  dispose(): void {
+    this.settings = null
+    this.stop()
+  }
+
+  private setStatus(patch: Partial<ContrastStatus>): void {
+    const next = { ...this.status, ...patch }
+    if (JSON.stringify(next) === JSON.stringify(this.status)) return
+    this.status = next
+    this.opts.onStatus(next)
+  }
+
+  private setAdjustment(adjustment: ContrastAdjustment | null): void {
+    if (JSON.stringify(adjustment) === JSON.stringify(this.adjustment)) return
+    this.adjustment = adjustment
+    this.opts.onAdjust(adjustment)
+  }
+
+  private start(rate: number): void {
+    this.timer = setInterval(() => void this.sample(), 1000 / rate)
+    this.setStatus({ running: true, error: null })
+  }
+
+  private stop(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+    this.picked = null
+    this.setAdjustment(null)
+    this.setStatus({ running: false, error: null, background: null, picked: null })
+  }
+
+  private async sample(): Promise<void> {
+    const settings = this.settings
+    // a slow capture skips ticks rather than queueing them
+    if (!settings || this.status.paused || this.sampling) return
+    const center = this.opts.getCenter()
+    if (!center) return
+    this.sampling = true
+    try {
+      const exclude = [...this.opts.getCrosshairColors(), this.picked ?? ""]
+        .map(parseHex)
+        .filter((c): c is Rgb => c !== null)
+      const background = await captureAverage(center, settings.regionSize, exclude)
+      // settings changed or sampling stopped during the capture
+      if (this.settings !== settings || !this.timer || !background) return
+      const picked = pickColor(background, settings.palette, this.picked)
+      this.picked = picked
+      this.setAdjustment(settings.target === "color" ? { color: picked } : { outlineColor: picked })
+      this.setStatus({ background: toHex(background), picked, error: null })
+    } catch (err) {
+      this.setStatus({ error: err instanceof Error ? err.message : String(err) })
+    } finally {
+      this.sampling = false
+    }
+  }
+}
+
+// Average color of the square of `size` DIPs around the point, skipping
+// pixels of the crosshair itself; null when nothing else is in the square
+async function captureAverage(
+  point: SamplePoint,
+  size: number,
+  exclude: Rgb[]
+): Promise<Rgb | null> {
+  const display = screen.getAllDisplays().find((d) => d.id === point.displayId)
+  if (!display) return null
+  const scale = Math.min(1, SAMPLE_PIXELS / size)
+  const sources = await desktopCapturer.getSources({
+    types: ["screen"],
+    thumbnailSize: {
+      width: Math.ceil(display.bounds.width * scale),
+      height: Math.ceil(display.bounds.height * scale)
+    }
+  })
+  // display_id is empty on some Linux setups, where there is one source per screen
+  const source =
+    sources.find((s) => s.display_id === String(display.id)) ??
+    (sources.length === 1 ? sources[0] : undefined)
+  if (!source || source.thumbnail.isEmpty()) throw new Error("The screen could not be captured")
+
+  const thumbnail = source.thumbnail
+  const { width, height } = thumbnail.getSize()
+  const k = width / display.bounds.width
+  const half = Math.max(1, (size * k) / 2)
+  const x = Math.max(0, Math.round(point.x * k - half))
+  const y = Math.max(0, Math.round(point.y * k - half))
+  if (x >= width || y >= height) return null
+  const crop = {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.round(half * 2))),
+    height: Math.max(1, Math.min(height - y, Math.round(half * 2)))
+  }
+
+  // toBitmap is BGRA
+  const bitmap = thumbnail.crop(crop).toBitmap()
+  const sum: Rgb = [0, 0, 0]
+  let count = 0
+  for (let i = 0; i + 3 < bitmap.length; i += 4) {
+    const pixel: Rgb = [bitmap[i + 2], bitmap[i + 1], bitmap[i]]
+    const crosshair = exclude.some(
+      (c) =>
+        Math.abs(c[0] - pixel[0]) + Math.abs(c[1] - pixel[1]) + Math.abs(c[2] - pixel[2]) <
+        CROSSHAIR_TOLERANCE
+    )
+    if (crosshair) continue
+    sum[0] += pixel[0]
+    sum[1] += pixel[1]
+    sum[2] += pixel[2]
+    count++
+  }
+  if (count === 0) return null
+  return sum.map((v) => Math.round(v / count)) as Rgb
+}
+
+// The palette color that stands out most: the WCAG contrast ratio of the
+// luminances, raised when the hues are far apart on a colorful background
+// (magenta on foliage beats a green of the same brightness)
+function pickColor(background: Rgb, palette: string[], current: string | null): string {
+  const score = (hex: string): number => {
+    const color = parseHex(hex)
+    if (!color) return 0
+    const [light, dark] = [luminance(color), luminance(background)].sort((a, b) => b - a)
+    return ((light + 0.05) / (dark + 0.05)) * (1 + hueDistance(color, background))
+  }
+  let best = palette[0]
+  for (const hex of palette) if (score(hex) > score(best)) best = hex
+  if (current && palette.includes(current) && score(current) * SWITCH_MARGIN >= score(best)) {
+    return current
+  }
+  return best
+}
+
+// sRGB relative luminance, 0 to 1
+function luminance([r, g, b]: Rgb): number {
+  const channel = (v: number): number => {
+    const c = v / 255
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+  }
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b)
+}
+
+// 0 for the same hue or a gray, up to 1 for opposite saturated hues
+function hueDistance(a: Rgb, b: Rgb): number {
+  const hue = ([r, g, b]: Rgb): { hue: number; saturation: number } => {
+    const max = Math.max(r, g, b)
+    const min = Math.min(r, g, b)
+    const delta = max - min
+    if (delta === 0) return { hue: 0, saturation: 0 }
+    const h =
+      max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4
+    return { hue: (h * 60 + 360) % 360, saturation: delta / max }
+  }
+  const [ha, hb] = [hue(a), hue(b)]
+  const angle = Math.abs(ha.hue - hb.hue)
+  return (Math.min(angle, 360 - angle) / 180) * Math.min(ha.saturation, hb.saturation)
+}
+
+function parseHex(hex: string): Rgb | null {
+  const match = /^#([0-9a-f]{6})$/i.exec(hex)
+  if (!match) return null
+  const value = parseInt(match[1], 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+function toHex(color: Rgb): string {
+  return `#${color.map((v) => v.toString(16).padStart(2, "0")).join("")}`.toUpperCase()
+}
+
+export function registerContrastIPC(service: ContrastService): void {
+  ipcMain.handle("contrast:status", () => service.getStatus())
+  ipcMain.handle("contrast:adjustment", () => service.getAdjustment())
+}
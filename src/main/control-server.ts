@@ -0,0 +1,341 @@
+import { ipcMain } from "electron"
+import http from "http"
+import type { Duplex } from "stream"
+import { createHash, randomBytes, timingSafeEqual } from "crypto"
+import type {
+  ControlResult,
+  ControlServerSettings,
+  ControlState,
+  ControlStatus
+} from "@/types/control"
+import type { ControlActions } from "./control"
+import type { AppStore } from "./store"
+
+// Opt-in control API on 127.0.0.1:
+//
+//   GET  /api/state            current state
+//   GET  /api/library          library items (id, name)
+//   GET  /api/displays         connected displays
+//   POST /api/<command>        run a command, JSON body holds its arguments
+//   GET  /api/events           WebSocket: state pushes, commands as JSON messages
+//
+// Every request needs the token, as "Authorization: Bearer <token>" or
+// ?token=<token> (browsers cannot set headers on WebSockets).
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+const MAX_BODY = 64 * 1024
+
+const Opcode = {
+  Text: 0x1,
+  Close: 0x8,
+  Ping: 0x9,
+  Pong: 0xa
+} as const
+
+export function generateControlToken(): string {
+  return randomBytes(24).toString("base64url")
+}
+
+// Minimal RFC 6455 server side connection: unfragmented text messages,
+// ping/pong and close. That is all Stream Deck plugins and scripts send.
+class WebSocketConnection {
+  private socket: Duplex
+  private buffer: Buffer = Buffer.alloc(0)
+  private closed = false
+
+  constructor(
+    socket: Duplex,
+    private onMessage: (text: string) => void,
+    private onClose: () => void
+  ) {
+    this.socket = socket
+    socket.on("data", (chunk: Buffer) => this.onData(chunk))
+    socket.on("error", () => socket.destroy())
+    socket.on("close", () => {
+      this.closed = true
+      this.onClose()
+    })
+  }
+
+  send(text: string): void {
+    this.writeFrame(Opcode.Text, Buffer.from(text, "utf8"))
+  }
+
+  close(code = 1000): void {
+    if (this.closed) return
+    const payload = Buffer.alloc(2)
+    payload.writeUInt16BE(code, 0)
+    this.writeFrame(Opcode.Close, payload)
+    this.socket.end()
+    this.closed = true
+  }
+
+  private writeFrame(opcode: number, payload: Buffer): void {
+    if (this.closed) return
+    let header: Buffer
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length])
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4)
+      header[0] = 0x80 | opcode
+      header[1] = 126
+      header.writeUInt16BE(payload.length, 2)
+    } else {
+      header = Buffer.alloc(10)
+      header[0] = 0x80 | opcode
+      header[1] = 127
+      header.writeBigUInt64BE(BigInt(payload.length), 2)
+    }
+    this.socket.write(Buffer.concat([header, payload]))
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0
+      const opcode = this.buffer[0] & 0x0f
+      const masked = (this.buffer[1] & 0x80) !== 0
+      let length = this.buffer[1] & 0x7f
+      let offset = 2
+      if (length === 126) {
+        if (this.buffer.length < 4) return
+        length = this.buffer.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return
+        const long = this.buffer.readBigUInt64BE(2)
+        length = long > BigInt(MAX_BODY) ? MAX_BODY + 1 : Number(long)
+        offset = 10
+      }
+      // clients must mask their frames
+      if (!masked) return this.close(1002)
+      if (!fin || opcode === 0) return this.close(1003)
+      if (length > MAX_BODY) return this.close(1009)
+      if (this.buffer.length < offset + 4 + length) return
+
+      const mask = this.buffer.subarray(offset, offset + 4)
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length))
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+      this.buffer = this.buffer.subarray(offset + 4 + length)
+
+      if (opcode === Opcode.Text) this.onMessage(payload.toString("utf8"))
+      else if (opcode === Opcode.Ping) this.writeFrame(Opcode.Pong, payload)
+      else if (opcode === Opcode.Close) return this.close()
+    }
+  }
+}
+
+type ControlServerOptions = {
+  actions: ControlActions
+  onStatus: (status: ControlStatus) => void
+}
+
+export class ControlServer {
+  private server: http.Server | null = null
+  private clients = new Set<WebSocketConnection>()
+  private settings: ControlServerSettings | null = null
+  private status: ControlStatus = { running: false, port: null, error: null }
+  private opts: ControlServerOptions
+
+  constructor(opts: ControlServerOptions) {
+    this.opts = opts
+  }
+
+  getStatus(): ControlStatus {
+    return this.status
+  }
+
+  // Starts, stops or restarts the server to match the settings
+  configure(settings: ControlServerSettings): void {
+    const prev = this.settings
+    this.settings = settings
+    if (
+      prev &&
+      prev.enabled === settings.enabled &&
+      prev.port === settings.port &&
+      prev.token === settings.token
+    ) {
+      return
+    }
+    this.stop()
+    if (settings.enabled && settings.token) this.start(settings.port)
+  }
+
+  broadcast(state: ControlState): void {
+    if (this.clients.size === 0) return
+    const message = JSON.stringify({ type: "state", state })
+    for (const client of this.clients) client.send(message)
+  }
+
+  dispose(): void {
+    this.settings = null
+    this.stop()
+  }
+
+  private setStatus(status: ControlStatus): void {
+    this.status = status
+    this.opts.onStatus(status)
+  }
+
+  private start(port: number): void {
+    const server = http.createServer((req, res) => void this.onRequest(req, res))
+    server.on("upgrade", (req, socket) => this.onUpgrade(req, socket))
+    server.on("error", (error: NodeJS.ErrnoException) => {
+      const message = error.code === "EADDRINUSE" ? `Port ${port} is already in use` : error.message
+      console.error("Control server error:", error)
+      this.setStatus({ running: false, port: null, error: message })
+      if (this.server === server) this.server = null
+    })
+    server.listen(port, "127.0.0.1", () => {
+      this.setStatus({ running: true, port, error: null })
+    })
+    this.server = server
+  }
+
+  private stop(): void {
+    for (const client of this.clients) client.close(1001)
+    this.clients.clear()
+    if (this.server) {
+      this.server.close()
+      this.server = null
+    }
+    if (this.status.running || this.status.error) {
+      this.setStatus({ running: false, port: null, error: null })
+    }
+  }
+
+  // Requests must carry the token and name our own address; the Host check
+  // stops web pages from reaching the server through DNS rebinding
+  private authorize(req: http.IncomingMessage, url: URL): number | null {
+    const host = (req.headers.host ?? "").replace(/:\d+$/, "")
+    if (host !== "127.0.0.1" && host !== "localhost") return 403
+    const token = this.settings?.token
+    if (!token) return 403
+    const header = req.headers.authorization ?? ""
+    const given = header.startsWith("Bearer ")
+      ? header.slice(7).trim()
+      : (url.searchParams.get("token") ?? "")
+    const a = Buffer.from(given)
+    const b = Buffer.from(token)
+    return a.length === b.length && timingSafeEqual(a, b) ? null : 401
+  }
+
+  private async onRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const reply = (status: number, body: unknown): void => {
+      res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" })
+      res.end(JSON.stringify(body))
+    }
+    const url = new URL(req.url ?? "/", "http://127.0.0.1")
+    const denied = this.authorize(req, url)
+    if (denied) return reply(denied, { ok: false, error: "Unauthorized" })
+
+    const { actions } = this.opts
+    const route = url.pathname.replace(/\/+$/, "")
+    if (req.method === "GET") {
+      if (route === "/api/state") return reply(200, { ok: true, state: actions.getState() })
+      if (route === "/api/library") return reply(200, { ok: true, items: actions.listLibrary() })
+      if (route === "/api/displays") {
+        return reply(200, { ok: true, displays: actions.listDisplays() })
+      }
+      return reply(404, { ok: false, error: "Not found" })
+    }
+    if (req.method !== "POST" || !route.startsWith("/api/")) {
+      return reply(404, { ok: false, error: "Not found" })
+    }
+
+    let body: Record<string, unknown> = {}
+    try {
+      const raw = await readBody(req)
+      if (raw.trim()) body = JSON.parse(raw)
+      if (!body || typeof body !== "object") throw new Error("Body must be a JSON object")
+    } catch (error) {
+      return reply(400, { ok: false, error: error instanceof Error ? error.message : "Bad body" })
+    }
+    let result: ControlResult
+    try {
+      result = await actions.run({ ...body, command: route.slice("/api/".length) })
+    } catch (error) {
+      return reply(500, { ok: false, error: errorMessage(error) })
+    }
+    reply(result.ok ? 200 : 400, result)
+  }
+
+  private onUpgrade(req: http.IncomingMessage, socket: Duplex): void {
+    const url = new URL(req.url ?? "/", "http://127.0.0.1")
+    const key = req.headers["sec-websocket-key"]
+    const denied = this.authorize(req, url)
+    if (denied || url.pathname !== "/api/events" || typeof key !== "string") {
+      socket.end(`HTTP/1.1 ${denied ?? 404} ${denied ? "Unauthorized" : "Not Found"}\r\n\r\n`)
+      return
+    }
+    const accept = createHash("sha1")
+      .update(key + WS_GUID)
+      .digest("base64")
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+        "Upgrade: websocket\r\n" +
+        "Connection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    )
+
+    const client = new WebSocketConnection(
+      socket,
+      (text) => void this.onSocketMessage(client, text),
+      () => this.clients.delete(client)
+    )
+    this.clients.add(client)
+    client.send(JSON.stringify({ type: "state", state: this.opts.actions.getState() }))
+  }
+
+  // Messages are commands: {"command": "apply", "item": "Dot", "id": 1}. The
+  // reply echoes the optional id so clients can match it to the request.
+  private async onSocketMessage(client: WebSocketConnection, text: string): Promise<void> {
+    let message: Record<string, unknown>
+    try {
+      message = JSON.parse(text)
+    } catch {
+      client.send(JSON.stringify({ type: "result", ok: false, error: "Invalid JSON" }))
+      return
+    }
+    let result: ControlResult
+    try {
+      result = await this.opts.actions.run(message)
+    } catch (error) {
+      result = { ok: false, error: errorMessage(error) }
+    }
+    client.send(JSON.stringify({ type: "result", id: message?.id ?? null, ...result }))
+  }
+}
+
+// Commands that throw, e.g. attaching through a provider that died
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Command failed"
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY) {
+        reject(new Error("Body too large"))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")))
+    req.on("error", reject)
+  })
+}
+
+export function registerControlIPC(server: ControlServer, store: AppStore): void {
+  ipcMain.handle("control:status", () => server.getStatus())
+
+  ipcMain.handle("control:regenerate-token", async () => {
+    const controlServer = { ...store.getSettings().controlServer, token: generateControlToken() }
+    await store.updateSettings({ controlServer })
+    return controlServer.token
+  })
+}
@@ -0,0 +1,134 @@
+import { screen } from "electron"
+import type { ControlCommand, ControlResult, ControlState } from "@/types/control"
+import type { ProfileService } from "./profiles"
+import type { AppStore } from "./store"
+import type { WindowAttachService } from "./windowAttach"
+
+type ControlActionsOptions = {
+  store: AppStore
+  windowAttach: WindowAttachService
+  profiles: ProfileService
+  moveOverlayToDisplay: (displayId: number) => boolean
+}
+
+const UNSUPPORTED = "Window attachment is not supported on this desktop."
+
+// Commands for the control server. They go through the same store and
+// service methods as the settings window's IPC calls, so a change made from a
+// script is saved, broadcast and shown in the UI exactly like one made there.
+export class ControlActions {
+  private opts: ControlActionsOptions
+
+  constructor(opts: ControlActionsOptions) {
+    this.opts = opts
+  }
+
+  getState(): ControlState {
+    const { settings, library } = this.opts.store.getSnapshot()
+    const config = settings.currentConfig
+    const item = library.find((i) => i.id === settings.currentLibraryItemId)
+    const attach = this.opts.windowAttach.getState()
+    return {
+      overlayEnabled: settings.overlayEnabled,
+      crosshairEnabled: config.enabled,
+      libraryItem: item ? { id: item.id, name: item.name } : null,
+      displayId: config.overlayDisplayId ?? null,
+      offset: { x: config.offsetX ?? 0, y: config.offsetY ?? 0 },
+      attachment: { mode: attach.mode, targetId: attach.targetId },
+      config
+    }
+  }
+
+  listLibrary(): { id: string; name: string }[] {
+    return this.opts.store.getLibrary().map(({ id, name }) => ({ id, name }))
+  }
+
+  listDisplays(): { id: number; primary: boolean; bounds: Electron.Rectangle }[] {
+    const primaryId = screen.getPrimaryDisplay().id
+    return screen
+      .getAllDisplays()
+      .map((d) => ({ id: d.id, primary: d.id === primaryId, bounds: d.bounds }))
+  }
+
+  async run(raw: unknown): Promise<ControlResult> {
+    if (!raw || typeof raw !== "object" || typeof (raw as ControlCommand).command !== "string") {
+      return { ok: false, error: "Missing command" }
+    }
+    const error = await this.execute(raw as ControlCommand)
+    return error ? { ok: false, error } : { ok: true, state: this.getState() }
+  }
+
+  // Returns an error message, or null on success
+  private async execute(cmd: ControlCommand): Promise<string | null> {
+    const { store, windowAttach } = this.opts
+    const number = (value: unknown): value is number =>
+      typeof value === "number" && Number.isFinite(value)
+
+    switch (cmd.command) {
+      case "toggle":
+        await store.toggleCrosshair()
+        return null
+      case "show":
+      case "hide":
+        await store.updateSettings({ overlayEnabled: cmd.command === "show" })
+        return null
+      case "apply": {
+        const ref = typeof cmd.item === "string" ? cmd.item.trim() : ""
+        const library = store.getLibrary()
+        const item =
+          library.find((i) => i.id === ref) ??
+          library.find((i) => i.name.toLowerCase() === ref.toLowerCase())
+        if (!item) return `No library crosshair with id or name "${ref}"`
+        await store.applyLibraryConfig(item.id, item.config)
+        return null
+      }
+      case "profile": {
+        const name = typeof cmd.name === "string" ? cmd.name.trim().toLowerCase() : ""
+        const profile = this.opts.profiles
+          .getSettings()
+          .profiles.find((p) => p.name.toLowerCase() === name)
+        if (!profile) return `No profile named "${cmd.name}"`
+        this.opts.profiles.activate(profile.id)
+        return null
+      }
+      case "offset": {
+        if (!number(cmd.x) || !number(cmd.y)) return "offset needs numeric x and y"
+        const config = store.getSettings().currentConfig
+        const x = cmd.relative ? (config.offsetX ?? 0) + cmd.x : cmd.x
+        const y = cmd.relative ? (config.offsetY ?? 0) + cmd.y : cmd.y
+        await store.updateSettings({ currentConfig: { ...config, offsetX: x, offsetY: y } })
+        return null
+      }
+      case "display": {
+        if (!number(cmd.id) || !this.opts.moveOverlayToDisplay(cmd.id)) {
+          return `No display with id ${cmd.id}`
+        }
+        const config = store.getSettings().currentConfig
+        await store.updateSettings({ currentConfig: { ...config, overlayDisplayId: cmd.id } })
+        return null
+      }
+      case "attach":
+        if (!windowAttach.isEnabled()) return UNSUPPORTED
+        if (!number(cmd.windowId)) return "attach needs a numeric windowId"
+        if (!(await windowAttach.listWindows()).some((w) => w.id === cmd.windowId)) {
+          return `No window with id ${cmd.windowId}`
+        }
+        await windowAttach.attach(cmd.windowId)
+        await store.updateSettings({
+          windowAttachment: { targetId: cmd.windowId, followFocused: false }
+        })
+        return null
+      case "follow":
+        if (!windowAttach.isEnabled()) return UNSUPPORTED
+        await windowAttach.followFocused(true)
+        await store.updateSettings({ windowAttachment: { targetId: null, followFocused: true } })
+        return null
+      case "detach":
+        await windowAttach.detach()
+        await store.updateSettings({ windowAttachment: { targetId: null, followFocused: false } })
+        return null
+      default:
+        return `Unknown command "${(cmd as { command: string }).command}"`
+    }
+  }
+}
@@ -0,0 +1,464 @@
+import {
+  armGeometry,
+  crosshairArms,
+  defaultConfig,
+  isAnimated,
+  type ArmGeometry,
+  type CrosshairConfig
+} from "@/types/crosshair"
+import type { CodeDecodeResult, CodeEncodeResult } from "@/types/codes"
+
+// CS2 crosshair settings, as set by the cl_crosshair* console variables.
+// Share codes ("CSGO-xxxxx-xxxxx-xxxxx-xxxxx-xxxxx") pack the same values.
+type Cs2Crosshair = {
+  style: number
+  size: number
+  gap: number
+  thickness: number
+  outline: boolean
+  outlineThickness: number
+  color: number
+  red: number
+  green: number
+  blue: number
+  alpha: number
+  useAlpha: boolean
+  dot: boolean
+  tStyle: boolean
+  followRecoil: boolean
+  gapUseWeaponValue: boolean
+  fixedGap: number
+  splitDistance: number
+  innerSplitAlpha: number
+  outerSplitAlpha: number
+  splitSizeRatio: number
+}
+
+const DEFAULTS: Cs2Crosshair = {
+  style: 0,
+  size: 5,
+  gap: 1,
+  thickness: 0.5,
+  outline: true,
+  outlineThickness: 1,
+  color: 1,
+  red: 50,
+  green: 250,
+  blue: 50,
+  alpha: 200,
+  useAlpha: true,
+  dot: false,
+  tStyle: false,
+  followRecoil: false,
+  gapUseWeaponValue: false,
+  fixedGap: 3,
+  splitDistance: 7,
+  innerSplitAlpha: 0,
+  outerSplitAlpha: 1,
+  splitSizeRatio: 1
+}
+
+// cl_crosshaircolor presets; 5 uses the custom r/g/b values
+const PRESET_COLORS: [number, number, number][] = [
+  [250, 50, 50],
+  [50, 250, 50],
+  [250, 250, 50],
+  [50, 50, 250],
+  [50, 250, 250]
+]
+const CUSTOM_COLOR = 5
+
+// Classic static (4) and default static (1) draw plain lines; the rest move with spread
+const STATIC_STYLES = [1, 4]
+
+// CS2 sizes are in units of 1/480 of the screen height; Dotline sizes are
+// pixels, converted at 1080p.
+const PIXELS_PER_UNIT = 1080 / 480
+// cl_crosshairgap is relative to a base distance of 4 units
+const GAP_BASE = 4
+
+type Cvar = {
+  name: string
+  read: (c: Cs2Crosshair, value: number) => void
+  write: (c: Cs2Crosshair) => number
+}
+
+const CVARS: Cvar[] = [
+  { name: "cl_crosshairstyle", read: (c, v) => (c.style = v), write: (c) => c.style },
+  { name: "cl_crosshairsize", read: (c, v) => (c.size = v), write: (c) => c.size },
+  { name: "cl_crosshairgap", read: (c, v) => (c.gap = v), write: (c) => c.gap },
+  { name: "cl_crosshairthickness", read: (c, v) => (c.thickness = v), write: (c) => c.thickness },
+  {
+    name: "cl_crosshair_drawoutline",
+    read: (c, v) => (c.outline = v !== 0),
+    write: (c) => Number(c.outline)
+  },
+  {
+    name: "cl_crosshair_outlinethickness",
+    read: (c, v) => (c.outlineThickness = v),
+    write: (c) => c.outlineThickness
+  },
+  { name: "cl_crosshaircolor", read: (c, v) => (c.color = v), write: (c) => c.color },
+  { name: "cl_crosshaircolor_r", read: (c, v) => (c.red = v), write: (c) => c.red },
+  { name: "cl_crosshaircolor_g", read: (c, v) => (c.green = v), write: (c) => c.green },
+  { name: "cl_crosshaircolor_b", read: (c, v) => (c.blue = v), write: (c) => c.blue },
+  { name: "cl_crosshairalpha", read: (c, v) => (c.alpha = v), write: (c) => c.alpha },
+  {
+    name: "cl_crosshairusealpha",
+    read: (c, v) => (c.useAlpha = v !== 0),
+    write: (c) => Number(c.useAlpha)
+  },
+  { name: "cl_crosshairdot", read: (c, v) => (c.dot = v !== 0), write: (c) => Number(c.dot) },
+  { name: "cl_crosshair_t", read: (c, v) => (c.tStyle = v !== 0), write: (c) => Number(c.tStyle) },
+  {
+    name: "cl_crosshair_recoil",
+    read: (c, v) => (c.followRecoil = v !== 0),
+    write: (c) => Number(c.followRecoil)
+  },
+  {
+    name: "cl_crosshairgap_useweaponvalue",
+    read: (c, v) => (c.gapUseWeaponValue = v !== 0),
+    write: (c) => Number(c.gapUseWeaponValue)
+  },
+  { name: "cl_fixedcrosshairgap", read: (c, v) => (c.fixedGap = v), write: (c) => c.fixedGap },
+  {
+    name: "cl_crosshair_dynamic_splitdist",
+    read: (c, v) => (c.splitDistance = v),
+    write: (c) => c.splitDistance
+  },
+  {
+    name: "cl_crosshair_dynamic_splitalpha_innermod",
+    read: (c, v) => (c.innerSplitAlpha = v),
+    write: (c) => c.innerSplitAlpha
+  },
+  {
+    name: "cl_crosshair_dynamic_splitalpha_outermod",
+    read: (c, v) => (c.outerSplitAlpha = v),
+    write: (c) => c.outerSplitAlpha
+  },
+  {
+    name: "cl_crosshair_dynamic_maxdist_splitratio",
+    read: (c, v) => (c.splitSizeRatio = v),
+    write: (c) => c.splitSizeRatio
+  }
+]
+
+// ---------------------------------------------------------------------------
+// Share codes: 18 bytes as a base-57 number, least significant digit first
+
+const SHARE_CODE_PATTERN = /^CSGO(-[A-Za-z0-9]{5}){5}$/
+const ALPHABET = "ABCDEFGHJKLMNOPQRSTUVWXYZabcdefhijkmnopqrstuvwxyz23456789"
+const CODE_BYTES = 18
+const CODE_DIGITS = 25
+
+export function isCs2ShareCode(text: string): boolean {
+  return SHARE_CODE_PATTERN.test(text.trim())
+}
+
+function shareCodeToBytes(code: string): Uint8Array | null {
+  const digits = code.trim().slice(5).replace(/-/g, "")
+  let n = 0n
+  for (const ch of [...digits].reverse()) {
+    const index = ALPHABET.indexOf(ch)
+    if (index === -1) return null
+    n = n * 57n + BigInt(index)
+  }
+  const bytes = new Uint8Array(CODE_BYTES)
+  for (let i = CODE_BYTES - 1; i >= 0; i--) {
+    bytes[i] = Number(n & 0xffn)
+    n >>= 8n
+  }
+  return n === 0n ? bytes : null
+}
+
+function bytesToShareCode(bytes: Uint8Array): string {
+  let n = 0n
+  for (const b of bytes) n = (n << 8n) | BigInt(b)
+  let digits = ""
+  for (let i = 0; i < CODE_DIGITS; i++) {
+    digits += ALPHABET[Number(n % 57n)]
+    n /= 57n
+  }
+  return `CSGO-${digits.match(/.{5}/g)!.join("-")}`
+}
+
+const toInt8 = (b: number): number => (b > 127 ? b - 256 : b)
+const toUint8 = (v: number): number => (v < 0 ? v + 256 : v) & 0xff
+const tenths = (v: number, max: number): number => Math.max(0, Math.min(max, Math.round(v * 10)))
+// gaps are signed bytes, -12.8 to 12.7
+const signedTenths = (v: number): number => Math.max(-128, Math.min(127, Math.round(v * 10)))
+
+function unpackShareCode(bytes: Uint8Array): Cs2Crosshair | null {
+  const checksum = bytes.slice(1).reduce((sum, b) => sum + b, 0) & 0xff
+  if (checksum !== bytes[0]) return null
+  const flags = bytes[13] >> 4
+  return {
+    gap: toInt8(bytes[2]) / 10,
+    outlineThickness: bytes[3] / 2,
+    red: bytes[4],
+    green: bytes[5],
+    blue: bytes[6],
+    alpha: bytes[7],
+    splitDistance: bytes[8] & 0x7f,
+    followRecoil: (bytes[8] & 0x80) !== 0,
+    fixedGap: toInt8(bytes[9]) / 10,
+    color: bytes[10] & 0x07,
+    outline: (bytes[10] & 0x08) !== 0,
+    innerSplitAlpha: (bytes[10] >> 4) / 10,
+    outerSplitAlpha: (bytes[11] & 0x0f) / 10,
+    splitSizeRatio: (bytes[11] >> 4) / 10,
+    thickness: bytes[12] / 10,
+    style: (bytes[13] & 0x0f) >> 1,
+    dot: (flags & 0x1) !== 0,
+    gapUseWeaponValue: (flags & 0x2) !== 0,
+    useAlpha: (flags & 0x4) !== 0,
+    tStyle: (flags & 0x8) !== 0,
+    size: (((bytes[15] & 0x1f) << 8) | bytes[14]) / 10
+  }
+}
+
+// Reports values the code cannot hold in `unmapped`
+function packShareCode(c: Cs2Crosshair, unmapped: string[]): Uint8Array {
+  const bytes = new Uint8Array(CODE_BYTES)
+  const size = tenths(c.size, 0x1fff)
+  const gap = signedTenths(c.gap)
+  const fixedGap = signedTenths(c.fixedGap)
+  if (gap !== Math.round(c.gap * 10) || fixedGap !== Math.round(c.fixedGap * 10)) {
+    unmapped.push("Gap beyond CS2's range (clamped to -12.8 to 12.7)")
+  }
+  bytes[1] = 1
+  bytes[2] = toUint8(gap)
+  bytes[3] = Math.max(0, Math.min(255, Math.round(c.outlineThickness * 2)))
+  bytes[4] = c.red & 0xff
+  bytes[5] = c.green & 0xff
+  bytes[6] = c.blue & 0xff
+  bytes[7] = c.alpha & 0xff
+  bytes[8] = (c.splitDistance & 0x7f) | (c.followRecoil ? 0x80 : 0)
+  bytes[9] = toUint8(fixedGap)
+  bytes[10] = (c.color & 0x07) | (c.outline ? 0x08 : 0) | (tenths(c.innerSplitAlpha, 15) << 4)
+  bytes[11] = tenths(c.outerSplitAlpha, 15) | (tenths(c.splitSizeRatio, 15) << 4)
+  bytes[12] = tenths(c.thickness, 255)
+  bytes[13] =
+    ((c.style & 0x07) << 1) |
+    ((Number(c.dot) |
+      (Number(c.gapUseWeaponValue) << 1) |
+      (Number(c.useAlpha) << 2) |
+      (Number(c.tStyle) << 3)) <<
+      4)
+  bytes[14] = size & 0xff
+  bytes[15] = size >> 8
+  bytes[0] = bytes.slice(1).reduce((sum, b) => sum + b, 0) & 0xff
+  return bytes
+}
+
+// ---------------------------------------------------------------------------
+// Console commands: `cl_crosshairsize "2"; cl_crosshairgap -3` or one per line
+
+export function isCs2Commands(text: string): boolean {
+  return /(^|[\s;])cl_(crosshair|fixedcrosshairgap)\w*\s+"?-?[\d.]/.test(text)
+}
+
+function parseCommands(text: string): Cs2Crosshair {
+  const crosshair = { ...DEFAULTS }
+  const statements = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\/\/.*$/, ""))
+    .flatMap((line) => line.split(";"))
+  for (const statement of statements) {
+    const match = /^\s*(cl_\w+)\s+"?(-?[\d.]+)"?\s*$/.exec(statement)
+    if (!match) continue
+    const [, name, raw] = match
+    const cvar = CVARS.find((c) => c.name === name.toLowerCase())
+    const value = Number(raw)
+    // other cl_ commands (binds, sniper width, ...) don't affect the crosshair shape
+    if (cvar && Number.isFinite(value)) cvar.read(crosshair, value)
+  }
+  return crosshair
+}
+
+export function formatCs2Commands(config: CrosshairConfig, separator = "; "): string {
+  const { crosshair } = fromConfig(config)
+  return CVARS.map((cvar) => `${cvar.name} ${formatNumber(cvar.write(crosshair))}`).join(separator)
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000)
+}
+
+// ---------------------------------------------------------------------------
+// Mapping onto Dotline's classic style
+
+// kept to two decimals so codes survive a round trip through Dotline
+function toPixels(units: number): number {
+  return Math.round(units * PIXELS_PER_UNIT * 100) / 100
+}
+
+function toHex(value: number): string {
+  return Math.max(0, Math.min(255, Math.round(value)))
+    .toString(16)
+    .padStart(2, "0")
+    .toUpperCase()
+}
+
+function toConfig(c: Cs2Crosshair): { config: CrosshairConfig; unmapped: string[] } {
+  const unmapped: string[] = []
+  if (!STATIC_STYLES.includes(c.style))
+    unmapped.push("Dynamic crosshair style (imported as static)")
+  if (c.followRecoil) unmapped.push("Follow recoil")
+  if (c.gapUseWeaponValue) unmapped.push("Weapon gap")
+
+  const [red, green, blue] =
+    c.color === CUSTOM_COLOR
+      ? [c.red, c.green, c.blue]
+      : (PRESET_COLORS[c.color] ?? PRESET_COLORS[1])
+  const color = `#${toHex(red)}${toHex(green)}${toHex(blue)}`
+  const opacity = c.useAlpha ? Math.max(0, Math.min(255, c.alpha)) / 255 : 1
+  const thickness = Math.max(0.5, toPixels(c.thickness))
+  const length = Math.max(0, toPixels(c.size))
+  const gap = toPixels(c.gap + GAP_BASE)
+  if (gap < 0) unmapped.push("Negative gap (lines overlap in CS2)")
+
+  const config: CrosshairConfig = {
+    ...defaultConfig,
+    style: "classic",
+    color,
+    opacity,
+    thickness,
+    length,
+    gap: Math.max(0, gap),
+    // CS2 outlines are drawn in whole pixels around each line and dot,
+    // Dotline's thickness is split across both sides
+    outline: c.outline && length > 0,
+    outlineColor: "#000000",
+    outlineThickness: c.outlineThickness * 2,
+    outlineOpacity: opacity,
+    centerDot: c.dot,
+    centerDotShape: "square",
+    centerDotSize: thickness,
+    centerDotColor: color,
+    centerDotOpacity: opacity,
+    centerDotOutline: c.outline,
+    centerDotOutlineColor: "#000000",
+    centerDotOutlineThickness: c.outlineThickness * 2,
+    centerDotOutlineOpacity: opacity
+  }
+  // T style drops the top arm
+  if (c.tStyle) config.armTopEnabled = false
+  return { config, unmapped }
+}
+
+function fromConfig(config: CrosshairConfig): { crosshair: Cs2Crosshair; unmapped: string[] } {
+  const unmapped: string[] = []
+  if (config.layers?.length) unmapped.push("Layers (only the base style is exported)")
+  if (config.style === "circle") unmapped.push("Circle style (exported as lines)")
+  if (config.style === "x") unmapped.push("X style (exported as straight lines)")
+  if (isAnimated(config)) unmapped.push("Animations (CS2 crosshairs are static)")
+
+  const dotStyle = config.style === "dot"
+  // CS2 draws every arm alike, apart from hiding the top one (T style)
+  const arms = config.style === "classic" ? crosshairArms.map((a) => armGeometry(config, a)) : []
+  const [top, ...rest] = arms
+  const tStyle = !!top && !top.enabled
+  if (rest.some((arm) => !arm.enabled)) {
+    unmapped.push("Hidden side or bottom arms (CS2 can only hide the top arm)")
+  }
+  const shown = arms.filter((arm) => arm.enabled)
+  const same = (a: ArmGeometry, b: ArmGeometry): boolean =>
+    a.length === b.length && a.thickness === b.thickness && a.gap === b.gap
+  const uniform = shown.every((arm) => same(arm, shown[0]))
+  if (!uniform) {
+    unmapped.push("Different arm lengths, thicknesses or gaps (CS2 draws all arms alike)")
+  }
+  const lines = uniform && shown.length > 0 ? shown[0] : config
+  const hex = /^#([0-9a-f]{6})$/i.exec(config.color)?.[1] ?? "32FA32"
+  const [red, green, blue] = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16))
+  const preset = PRESET_COLORS.findIndex(([r, g, b]) => r === red && g === green && b === blue)
+  const outline = dotStyle ? !!config.outline : !!config.outline || !!config.centerDotOutline
+  const outlineThickness =
+    (config.outline ? (config.outlineThickness ?? 1) : (config.centerDotOutlineThickness ?? 1)) / 2
+  if (outline && (config.outlineColor ?? "#000000").toUpperCase() !== "#000000") {
+    unmapped.push("Outline color (CS2 outlines are always black)")
+  }
+  if (outline && config.outlinePosition === "center") {
+    unmapped.push("Outline on the edge (CS2 draws it outside)")
+  }
+  if (outline && config.outlineJoin && config.outlineJoin !== "miter") {
+    unmapped.push("Outline corners (CS2 corners are sharp)")
+  }
+  if (!dotStyle && config.centerDot) {
+    if (config.centerDotShape !== "square") unmapped.push("Round center dot")
+    if (
+      config.centerDotColor &&
+      config.centerDotColor.toUpperCase() !== config.color.toUpperCase()
+    ) {
+      unmapped.push("Separate center dot color")
+    }
+    if (config.centerDotSize != null && config.centerDotSize !== lines.thickness) {
+      unmapped.push("Center dot size (CS2 uses the line thickness)")
+    }
+  }
+  if (dotStyle) unmapped.push("Round center dot")
+
+  // the dot style is a center dot without lines; thickness is its radius
+  const thickness = dotStyle ? config.thickness * 2 : lines.thickness
+  const crosshair: Cs2Crosshair = {
+    ...DEFAULTS,
+    style: 4,
+    size: dotStyle ? 0 : lines.length / PIXELS_PER_UNIT,
+    gap: lines.gap / PIXELS_PER_UNIT - GAP_BASE,
+    thickness: thickness / PIXELS_PER_UNIT,
+    outline,
+    outlineThickness: Math.max(0.5, Math.min(3, Math.round(outlineThickness * 2) / 2)),
+    color: preset !== -1 ? preset : CUSTOM_COLOR,
+    red,
+    green,
+    blue,
+    alpha: Math.round(Math.max(0, Math.min(1, config.opacity)) * 255),
+    useAlpha: true,
+    dot: dotStyle || !!config.centerDot,
+    tStyle
+  }
+  // share codes store tenths
+  for (const key of ["size", "gap", "thickness"] as const) {
+    crosshair[key] = Math.round(crosshair[key] * 10) / 10
+  }
+  return { crosshair, unmapped }
+}
+
+// ---------------------------------------------------------------------------
+
+export function decodeCs2ShareCode(text: string): CodeDecodeResult {
+  const bytes = shareCodeToBytes(text)
+  const crosshair = bytes ? unpackShareCode(bytes) : null
+  if (!crosshair) return { ok: false, format: "cs2", error: "Invalid CS2 share code" }
+  return { ok: true, format: "cs2", ...toConfig(crosshair) }
+}
+
+export function encodeCs2ShareCode(config: CrosshairConfig): CodeEncodeResult {
+  if (config.style === "image" || config.style === "path") {
+    return {
+      ok: false,
+      format: "cs2",
+      error: "Image and path crosshairs cannot be converted for CS2"
+    }
+  }
+  const { crosshair, unmapped } = fromConfig(config)
+  const code = bytesToShareCode(packShareCode(crosshair, unmapped))
+  return { ok: true, format: "cs2", code, unmapped }
+}
+
+export function decodeCs2Commands(text: string): CodeDecodeResult {
+  return { ok: true, format: "cs2-commands", ...toConfig(parseCommands(text)) }
+}
+
+export function encodeCs2Commands(config: CrosshairConfig): CodeEncodeResult {
+  if (config.style === "image" || config.style === "path") {
+    return {
+      ok: false,
+      format: "cs2-commands",
+      error: "Image and path crosshairs cannot be converted for CS2"
+    }
+  }
+  const { unmapped } = fromConfig(config)
+  return { ok: true, format: "cs2-commands", code: formatCs2Commands(config), unmapped }
+}
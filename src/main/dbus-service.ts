@@ -0,0 +1,154 @@
+import { DBusError, interface as dbusInterface, sessionBus, type MessageBus } from "dbus-next"
+import type { ControlCommand, ControlState } from "@/types/control"
+import type { ControlActions } from "./control"
+
+const BUS_NAME = "com.parcoil.Dotline"
+const OBJECT_PATH = "/com/parcoil/Dotline"
+const INTERFACE_NAME = "com.parcoil.Dotline"
+const ERROR_NAME = "com.parcoil.Dotline.Error.Failed"
+
+// DBUS_NAME_FLAG_DO_NOT_QUEUE
+const DO_NOT_QUEUE = 4
+// DBUS_REQUEST_NAME_REPLY_PRIMARY_OWNER
+const PRIMARY_OWNER = 1
+
+type Properties = { Enabled: boolean; ConfigName: string; AttachMode: string }
+
+function toProperties(state: ControlState): Properties {
+  return {
+    // what the user sees: the overlay is up and the crosshair is on
+    Enabled: state.overlayEnabled && state.crosshairEnabled,
+    ConfigName: state.libraryItem?.name ?? "",
+    AttachMode: state.attachment.mode
+  }
+}
+
+// Methods take D-Bus arguments and run them as control commands, so they
+// behave exactly like the control API and command-line flags.
+class DotlineInterface extends dbusInterface.Interface {
+  private actions: ControlActions
+  private props: Properties
+
+  constructor(actions: ControlActions) {
+    super(INTERFACE_NAME)
+    this.actions = actions
+    this.props = toProperties(actions.getState())
+  }
+
+  get Enabled(): boolean {
+    return this.props.Enabled
+  }
+
+  get ConfigName(): string {
+    return this.props.ConfigName
+  }
+
+  get AttachMode(): string {
+    return this.props.AttachMode
+  }
+
+  async Toggle(): Promise<void> {
+    await this.run({ command: "toggle" })
+  }
+
+  async Show(): Promise<void> {
+    await this.run({ command: "show" })
+  }
+
+  async Hide(): Promise<void> {
+    await this.run({ command: "hide" })
+  }
+
+  async ApplyProfile(name: string): Promise<void> {
+    await this.run({ command: "profile", name })
+  }
+
+  async SetOffset(x: number, y: number): Promise<void> {
+    await this.run({ command: "offset", x, y })
+  }
+
+  StateChanged(enabled: boolean, configName: string, attachMode: string): unknown[] {
+    return [enabled, configName, attachMode]
+  }
+
+  update(state: ControlState): void {
+    const next = toProperties(state)
+    const changed: Partial<Properties> = {}
+    for (const key of Object.keys(next) as (keyof Properties)[]) {
+      if (next[key] !== this.props[key]) Object.assign(changed, { [key]: next[key] })
+    }
+    this.props = next
+    if (Object.keys(changed).length === 0) return
+    dbusInterface.Interface.emitPropertiesChanged(this, changed, [])
+    this.StateChanged(next.Enabled, next.ConfigName, next.AttachMode)
+  }
+
+  // dbus-next sends a thrown DBusError back to the caller as the error reply
+  private async run(command: ControlCommand): Promise<void> {
+    const result = await this.actions.run(command)
+    if (!result.ok) throw new DBusError(ERROR_NAME, result.error)
+  }
+}
+
+DotlineInterface.configureMembers({
+  properties: {
+    Enabled: { signature: "b", access: dbusInterface.ACCESS_READ },
+    ConfigName: { signature: "s", access: dbusInterface.ACCESS_READ },
+    AttachMode: { signature: "s", access: dbusInterface.ACCESS_READ }
+  },
+  methods: {
+    Toggle: { inSignature: "", outSignature: "" },
+    Show: { inSignature: "", outSignature: "" },
+    Hide: { inSignature: "", outSignature: "" },
+    ApplyProfile: { inSignature: "s", outSignature: "" },
+    SetOffset: { inSignature: "ii", outSignature: "" }
+  },
+  signals: {
+    StateChanged: { signature: "bss" }
+  }
+})
+
+// Owns com.parcoil.Dotline on the session bus so desktop shortcuts can call
+// e.g. `qdbus com.parcoil.Dotline /com/parcoil/Dotline Toggle` or
+// `gdbus call --session -d com.parcoil.Dotline -o /com/parcoil/Dotline
+// -m com.parcoil.Dotline.Toggle`.
+export class DBusService {
+  private bus: MessageBus | null = null
+  private iface: DotlineInterface | null = null
+  private actions: ControlActions
+
+  constructor(actions: ControlActions) {
+    this.actions = actions
+  }
+
+  async start(): Promise<void> {
+    if (this.bus) return
+    try {
+      const bus = sessionBus()
+      bus.on("error", (err) => console.warn("Dotline D-Bus connection error:", err))
+      const iface = new DotlineInterface(this.actions)
+      bus.export(OBJECT_PATH, iface)
+      const reply = await bus.requestName(BUS_NAME, DO_NOT_QUEUE)
+      if (reply !== PRIMARY_OWNER) {
+        console.warn(`D-Bus name ${BUS_NAME} is owned by another process`)
+        bus.disconnect()
+        return
+      }
+      this.bus = bus
+      this.iface = iface
+    } catch (err) {
+      // no session bus, e.g. outside a desktop session
+      console.warn("Dotline D-Bus service unavailable:", err)
+    }
+  }
+
+  update(state: ControlState): void {
+    this.iface?.update(state)
+  }
+
+  dispose(): void {
+    this.bus?.disconnect()
+    this.bus = null
+    this.iface = null
+  }
+}
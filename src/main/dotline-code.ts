@@ -0,0 +1,410 @@
+import zlib from "zlib"
+import {
+  MAX_PATH_DATA_LENGTH,
+  defaultConfig,
+  layerPrimitives,
+  makeLayer,
+  outlineJoins,
+  outlinePositions,
+  type CrosshairConfig,
+  type CrosshairLayer,
+  type CrosshairStyle,
+  type LayerPrimitive,
+  type OutlineJoin,
+  type OutlinePosition
+} from "@/types/crosshair"
+import type { CodeDecodeResult, CodeEncodeResult } from "@/types/codes"
+
+// Dotline share codes: "DL1-" followed by base64url of
+//
+//   [flags: 1 byte] [crc32 of the field bytes: 4 bytes] [field bytes, deflated when flagged]
+//
+// Fields are tagged like protobuf: a varint key of (field id << 1 | wire type)
+// then either a varint or a length-prefixed byte string. Decoders skip ids
+// they don't know, so newer Dotline versions can add fields without breaking
+// older ones. Incompatible changes bump the version in the prefix.
+
+const PREFIX = "DL1-"
+const CODE_PATTERN = /^DL(\d+)-([A-Za-z0-9_-]+)$/
+const FLAG_DEFLATED = 0x01
+
+const WIRE_VARINT = 0
+const WIRE_BYTES = 1
+
+const STYLES: CrosshairStyle[] = ["classic", "dot", "circle", "x", "image", "path"]
+const FILL_RULES = ["nonzero", "evenodd"] as const
+const DOT_SHAPES = ["circle", "square"] as const
+const PRIMITIVES = Object.keys(layerPrimitives) as LayerPrimitive[]
+const OUTLINE_POSITIONS = Object.keys(outlinePositions) as OutlinePosition[]
+const OUTLINE_JOINS = Object.keys(outlineJoins) as OutlineJoin[]
+
+// Longest code we produce before dropping an inlined image
+const MAX_CODE_LENGTH = 4096
+// Most a code may inflate to: the longest path data plus room for layers and
+// a small inlined image, so a pasted code cannot balloon in memory
+const MAX_FIELDS_LENGTH = MAX_PATH_DATA_LENGTH + 192 * 1024
+
+type FieldKind =
+  | "bool"
+  | "number"
+  | "color"
+  | "style"
+  | "dotShape"
+  | "string"
+  | "primitive"
+  | "fillRule"
+  | "outlinePosition"
+  | "outlineJoin"
+  // repeated: one nested message of LAYER_FIELDS per layer
+  | "layers"
+
+type Field<T> = { id: number; key: keyof T; kind: FieldKind }
+
+// Field ids are part of the format: never reuse or renumber them.
+// Display and offset settings are per machine and not shared.
+const FIELDS: Field<CrosshairConfig>[] = [
+  { id: 1, key: "enabled", kind: "bool" },
+  { id: 2, key: "style", kind: "style" },
+  { id: 3, key: "color", kind: "color" },
+  { id: 4, key: "opacity", kind: "number" },
+  { id: 5, key: "thickness", kind: "number" },
+  { id: 6, key: "length", kind: "number" },
+  { id: 7, key: "gap", kind: "number" },
+  { id: 8, key: "centerDot", kind: "bool" },
+  { id: 9, key: "centerDotSize", kind: "number" },
+  { id: 10, key: "centerDotOpacity", kind: "number" },
+  { id: 11, key: "centerDotThickness", kind: "number" },
+  { id: 12, key: "centerDotColor", kind: "color" },
+  { id: 13, key: "centerDotShape", kind: "dotShape" },
+  { id: 14, key: "centerDotOutline", kind: "bool" },
+  { id: 15, key: "centerDotOutlineColor", kind: "color" },
+  { id: 16, key: "centerDotOutlineThickness", kind: "number" },
+  { id: 17, key: "centerDotOutlineOpacity", kind: "number" },
+  { id: 18, key: "outline", kind: "bool" },
+  { id: 19, key: "outlineColor", kind: "color" },
+  { id: 20, key: "outlineThickness", kind: "number" },
+  { id: 21, key: "outlineOpacity", kind: "number" },
+  { id: 22, key: "creator", kind: "string" },
+  { id: 23, key: "imageUrl", kind: "string" },
+  { id: 24, key: "imageSize", kind: "number" },
+  { id: 25, key: "armTopEnabled", kind: "bool" },
+  { id: 26, key: "armTopLength", kind: "number" },
+  { id: 27, key: "armTopThickness", kind: "number" },
+  { id: 28, key: "armTopGap", kind: "number" },
+  { id: 29, key: "armRightEnabled", kind: "bool" },
+  { id: 30, key: "armRightLength", kind: "number" },
+  { id: 31, key: "armRightThickness", kind: "number" },
+  { id: 32, key: "armRightGap", kind: "number" },
+  { id: 33, key: "armBottomEnabled", kind: "bool" },
+  { id: 34, key: "armBottomLength", kind: "number" },
+  { id: 35, key: "armBottomThickness", kind: "number" },
+  { id: 36, key: "armBottomGap", kind: "number" },
+  { id: 37, key: "armLeftEnabled", kind: "bool" },
+  { id: 38, key: "armLeftLength", kind: "number" },
+  { id: 39, key: "armLeftThickness", kind: "number" },
+  { id: 40, key: "armLeftGap", kind: "number" },
+  { id: 41, key: "layers", kind: "layers" },
+  { id: 42, key: "pathData", kind: "string" },
+  { id: 43, key: "pathViewBox", kind: "string" },
+  { id: 44, key: "pathFillRule", kind: "fillRule" },
+  { id: 45, key: "pathStroke", kind: "number" },
+  { id: 46, key: "pathScale", kind: "number" },
+  { id: 47, key: "pathRotation", kind: "number" },
+  { id: 48, key: "outlinePosition", kind: "outlinePosition" },
+  { id: 49, key: "outlineJoin", kind: "outlineJoin" },
+  { id: 50, key: "pulseRate", kind: "number" },
+  { id: 51, key: "pulseOpacity", kind: "number" },
+  { id: 52, key: "pulseScale", kind: "number" },
+  { id: 53, key: "spinSpeed", kind: "number" },
+  { id: 54, key: "hueCycleRate", kind: "number" },
+  { id: 55, key: "breatheRate", kind: "number" },
+  { id: 56, key: "breatheGap", kind: "number" },
+  { id: 57, key: "blinkRate", kind: "number" },
+  { id: 58, key: "blinkDuty", kind: "number" },
+  { id: 59, key: "animationFps", kind: "number" }
+]
+// Fields of a layer message. Layer ids are local and not shared.
+const LAYER_FIELDS: Field<CrosshairLayer>[] = [
+  { id: 1, key: "primitive", kind: "primitive" },
+  { id: 2, key: "visible", kind: "bool" },
+  { id: 3, key: "color", kind: "color" },
+  { id: 4, key: "opacity", kind: "number" },
+  { id: 5, key: "thickness", kind: "number" },
+  { id: 6, key: "length", kind: "number" },
+  { id: 7, key: "gap", kind: "number" },
+  { id: 8, key: "size", kind: "number" },
+  { id: 9, key: "outline", kind: "bool" },
+  { id: 10, key: "outlineColor", kind: "color" },
+  { id: 11, key: "outlineThickness", kind: "number" },
+  { id: 12, key: "outlineOpacity", kind: "number" },
+  { id: 13, key: "offsetX", kind: "number" },
+  { id: 14, key: "offsetY", kind: "number" },
+  { id: 15, key: "imageUrl", kind: "string" },
+  { id: 16, key: "dotShape", kind: "dotShape" },
+  { id: 17, key: "arcStart", kind: "number" },
+  { id: 18, key: "arcSweep", kind: "number" },
+  { id: 19, key: "outlinePosition", kind: "outlinePosition" },
+  { id: 20, key: "outlineJoin", kind: "outlineJoin" }
+]
+// Outside CrosshairConfig: the library item name, and a flag set when an
+// image crosshair was shared without its image
+type ItemFields = { name?: string; imageOmitted?: boolean }
+const ITEM_FIELDS: Field<ItemFields>[] = [
+  { id: 100, key: "name", kind: "string" },
+  { id: 101, key: "imageOmitted", kind: "bool" }
+]
+
+// Numbers are stored as hundredths
+const SCALE = 100
+
+export function isDotlineCode(text: string): boolean {
+  return CODE_PATTERN.test(text.trim())
+}
+
+function writeVarint(out: number[], value: number): void {
+  let v = value
+  while (v >= 0x80) {
+    out.push(v % 0x80 | 0x80)
+    v = Math.floor(v / 0x80)
+  }
+  out.push(v)
+}
+
+function readVarint(bytes: Uint8Array, pos: { offset: number }): number {
+  let value = 0
+  let factor = 1
+  for (;;) {
+    if (pos.offset >= bytes.length || factor > 2 ** 49) throw new Error("Truncated field")
+    const b = bytes[pos.offset++]
+    value += (b & 0x7f) * factor
+    if ((b & 0x80) === 0) return value
+    factor *= 0x80
+  }
+}
+
+// zigzag keeps small negative numbers (e.g. gaps) short
+const zigzag = (v: number): number => (v < 0 ? -2 * v - 1 : 2 * v)
+const unzigzag = (v: number): number => (v % 2 === 1 ? -(v + 1) / 2 : v / 2)
+
+function encodeMessage<T>(out: number[], fields: Field<T>[], values: T): void {
+  const varint = (id: number, value: number): void => {
+    writeVarint(out, id * 2 + WIRE_VARINT)
+    writeVarint(out, value)
+  }
+  const bytes = (id: number, value: string | number[]): void => {
+    const data = typeof value === "string" ? Buffer.from(value, "utf8") : value
+    writeVarint(out, id * 2 + WIRE_BYTES)
+    writeVarint(out, data.length)
+    for (const b of data) out.push(b)
+  }
+
+  for (const field of fields) {
+    const value = values[field.key]
+    if (value == null) continue
+    switch (field.kind) {
+      case "bool":
+        varint(field.id, value ? 1 : 0)
+        break
+      case "number":
+        if (typeof value === "number" && Number.isFinite(value)) {
+          varint(field.id, zigzag(Math.round(value * SCALE)))
+        }
+        break
+      case "color": {
+        const hex = /^#([0-9a-f]{6})$/i.exec(String(value))
+        if (hex) varint(field.id, parseInt(hex[1], 16))
+        else bytes(field.id, String(value))
+        break
+      }
+      case "style":
+        varint(field.id, Math.max(0, STYLES.indexOf(value as CrosshairStyle)))
+        break
+      case "dotShape":
+        varint(field.id, Math.max(0, DOT_SHAPES.indexOf(value as "circle" | "square")))
+        break
+      case "string":
+        if (value) bytes(field.id, String(value))
+        break
+      case "primitive":
+        varint(field.id, Math.max(0, PRIMITIVES.indexOf(value as LayerPrimitive)))
+        break
+      case "fillRule":
+        varint(field.id, Math.max(0, FILL_RULES.indexOf(value as "nonzero" | "evenodd")))
+        break
+      case "outlinePosition":
+        varint(field.id, Math.max(0, OUTLINE_POSITIONS.indexOf(value as OutlinePosition)))
+        break
+      case "outlineJoin":
+        varint(field.id, Math.max(0, OUTLINE_JOINS.indexOf(value as OutlineJoin)))
+        break
+      case "layers":
+        for (const layer of value as CrosshairLayer[]) {
+          const nested: number[] = []
+          encodeMessage(nested, LAYER_FIELDS, layer)
+          bytes(field.id, nested)
+        }
+        break
+    }
+  }
+}
+
+function encodeFields(config: CrosshairConfig, name?: string, imageOmitted = false): Uint8Array {
+  const out: number[] = []
+  encodeMessage(out, FIELDS, config)
+  encodeMessage(out, ITEM_FIELDS, { name, imageOmitted: imageOmitted || undefined })
+  return Uint8Array.from(out)
+}
+
+// Reads the fields listed in `fields` into `target` and skips the rest, such
+// as ids from newer versions
+function decodeMessage<T>(
+  data: Uint8Array,
+  fields: Field<T>[],
+  target: Record<string, unknown>
+): void {
+  const pos = { offset: 0 }
+  while (pos.offset < data.length) {
+    const key = readVarint(data, pos)
+    const id = Math.floor(key / 2)
+    const wire = key % 2
+    let number = 0
+    let raw: Uint8Array = new Uint8Array()
+    if (wire === WIRE_VARINT) {
+      number = readVarint(data, pos)
+    } else {
+      const length = readVarint(data, pos)
+      if (pos.offset + length > data.length) throw new Error("Truncated field")
+      raw = data.subarray(pos.offset, pos.offset + length)
+      pos.offset += length
+    }
+    const text = (): string => Buffer.from(raw).toString("utf8")
+
+    const field = fields.find((f) => f.id === id)
+    if (!field) continue
+    const prop = field.key as string
+    switch (field.kind) {
+      case "bool":
+        target[prop] = number === 1
+        break
+      case "number":
+        target[prop] = unzigzag(number) / SCALE
+        break
+      case "color":
+        target[prop] =
+          wire === WIRE_VARINT ? `#${number.toString(16).padStart(6, "0").toUpperCase()}` : text()
+        break
+      case "style":
+        target[prop] = STYLES[number] ?? defaultConfig.style
+        break
+      case "dotShape":
+        target[prop] = DOT_SHAPES[number] ?? "circle"
+        break
+      case "string":
+        target[prop] = text()
+        break
+      case "primitive":
+        target[prop] = PRIMITIVES[number] ?? "dot"
+        break
+      case "fillRule":
+        target[prop] = FILL_RULES[number] ?? "nonzero"
+        break
+      case "outlinePosition":
+        target[prop] = OUTLINE_POSITIONS[number] ?? "outside"
+        break
+      case "outlineJoin":
+        target[prop] = OUTLINE_JOINS[number] ?? "miter"
+        break
+      case "layers": {
+        const layer: Record<string, unknown> = {}
+        decodeMessage(raw, LAYER_FIELDS, layer)
+        const primitive = (layer.primitive as LayerPrimitive | undefined) ?? "dot"
+        const layers = (target[prop] as CrosshairLayer[] | undefined) ?? []
+        target[prop] = [...layers, makeLayer(primitive, layer)]
+        break
+      }
+    }
+  }
+}
+
+function decodeFields(data: Uint8Array): {
+  config: CrosshairConfig
+  name?: string
+  imageOmitted: boolean
+} {
+  const config: Record<string, unknown> = { ...defaultConfig }
+  const item: ItemFields = {}
+  decodeMessage(data, FIELDS, config)
+  decodeMessage(data, ITEM_FIELDS, item)
+  return { config: config as CrosshairConfig, name: item.name, imageOmitted: !!item.imageOmitted }
+}
+
+function pack(fields: Uint8Array): string {
+  const deflated = zlib.deflateRawSync(fields, { level: 9 })
+  const compress = deflated.length < fields.length
+  const payload = compress ? deflated : fields
+  const header = Buffer.alloc(5)
+  header[0] = compress ? FLAG_DEFLATED : 0
+  header.writeUInt32BE(zlib.crc32(fields), 1)
+  return PREFIX + Buffer.concat([header, payload]).toString("base64url")
+}
+
+export function encodeDotlineCode(config: CrosshairConfig, name?: string): CodeEncodeResult {
+  const code = pack(encodeFields(config, name))
+  const hasImage = !!config.imageUrl || !!config.layers?.some((layer) => layer.imageUrl)
+  if (code.length <= MAX_CODE_LENGTH || !hasImage) {
+    return { ok: true, format: "dotline", code, unmapped: [] }
+  }
+  // the image does not fit; share everything else and flag the missing image
+  const withoutImages: CrosshairConfig = {
+    ...config,
+    imageUrl: "",
+    layers: config.layers?.map((layer) => (layer.imageUrl ? { ...layer, imageUrl: "" } : layer))
+  }
+  return {
+    ok: true,
+    format: "dotline",
+    code: pack(encodeFields(withoutImages, name, true)),
+    unmapped: ["Image (too large for a share code, export the crosshair as JSON instead)"]
+  }
+}
+
+export function decodeDotlineCode(text: string): CodeDecodeResult {
+  const match = CODE_PATTERN.exec(text.trim())
+  if (!match) return { ok: false, format: "dotline", error: "Malformed Dotline share code" }
+  if (match[1] !== "1") {
+    return {
+      ok: false,
+      format: "dotline",
+      error: "This share code was made by a newer version of Dotline"
+    }
+  }
+
+  try {
+    const raw = Buffer.from(match[2], "base64url")
+    if (raw.length < 5) throw new Error("Truncated code")
+    const payload = raw.subarray(5)
+    let fields: Buffer = payload
+    if (raw[0] & FLAG_DEFLATED) {
+      try {
+        fields = zlib.inflateRawSync(payload, { maxOutputLength: MAX_FIELDS_LENGTH })
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "ERR_BUFFER_TOO_LARGE") throw err
+        return { ok: false, format: "dotline", error: "Share code is too large to be a crosshair" }
+      }
+    }
+    if (zlib.crc32(fields) !== raw.readUInt32BE(1)) {
+      return {
+        ok: false,
+        format: "dotline",
+        error: "Share code is damaged (checksum mismatch). Copy it again"
+      }
+    }
+    const { config, name, imageOmitted } = decodeFields(fields)
+    const unmapped = imageOmitted
+      ? ["Image (not included in the code, ask for the JSON export instead)"]
+      : []
+    return { ok: true, format: "dotline", config, unmapped, name }
+  } catch {
+    return { ok: false, format: "dotline", error: "Share code is damaged. Copy it again" }
+  }
+}
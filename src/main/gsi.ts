@@ -0,0 +1,333 @@
+import { app, dialog, ipcMain, type BrowserWindow } from "electron"
+import http from "http"
+import { promises as fs } from "fs"
+import { join } from "path"
+import { randomBytes } from "crypto"
+import type { GsiSettings, GsiStatus, WeaponClass } from "@/types/gsi"
+import type { CrosshairConfig } from "@/types/crosshair"
+import type { AppStore } from "./store"
+
+// CS2 Game State Integration receiver. CS2 POSTs the player's state to
+// 127.0.0.1:<port> as listed in the generated cfg; from it we hide the overlay
+// in menus, while dead or spectating, and swap library crosshairs per weapon.
+
+const CFG_NAME = "gamestate_integration_dotline.cfg"
+const MAX_BODY = 256 * 1024
+// the cfg asks for a heartbeat every 10s, so silence means CS2 closed
+const DISCONNECT_MS = 30_000
+
+type GsiPayload = {
+  auth?: { token?: string }
+  provider?: { steamid?: string }
+  player?: {
+    steamid?: string
+    activity?: string
+    state?: { health?: number }
+    weapons?: Record<string, { type?: string; state?: string }>
+  }
+}
+
+export type GameState = {
+  menu: boolean
+  dead: boolean
+  spectating: boolean
+  weaponClass: WeaponClass | null
+}
+
+// Weapon "type" values as sent by CS2; other types (SMGs, shotguns,
+// grenades, C4) keep the current crosshair
+const weaponTypes: Record<string, WeaponClass> = {
+  SniperRifle: "sniper",
+  Rifle: "rifle",
+  Pistol: "pistol",
+  Knife: "knife"
+}
+
+export function readGameState(payload: GsiPayload): GameState {
+  const player = payload.player
+  // the held weapon reports "reloading" instead of "active" during a reload
+  const active = Object.values(player?.weapons ?? {}).find(
+    (w) => w?.state === "active" || w?.state === "reloading"
+  )
+  return {
+    menu: !player || player.activity === "menu",
+    dead: player?.state?.health === 0,
+    // the player block describes whoever is being watched
+    spectating:
+      !!player?.steamid &&
+      !!payload.provider?.steamid &&
+      player.steamid !== payload.provider.steamid,
+    weaponClass: (active?.type && weaponTypes[active.type]) || null
+  }
+}
+
+export function buildGsiCfg(settings: GsiSettings): string {
+  return `"Dotline"
+{
+  "uri" "http://127.0.0.1:${settings.port}/"
+  "timeout" "1.1"
+  "buffer" "0.0"
+  "throttle" "0.0"
+  "heartbeat" "10.0"
+  "auth"
+  {
+    "token" "${settings.token}"
+  }
+  "data"
+  {
+    "provider" "1"
+    "player_id" "1"
+    "player_state" "1"
+    "player_weapons" "1"
+  }
+}
+`
+}
+
+type GsiServiceOptions = {
+  store: AppStore
+  // hides the overlay without touching the saved overlayEnabled setting
+  setHidden: (hidden: boolean) => void
+  // the held weapon's crosshair, or null for the user's own. Like ADS this is
+  // only drawn by the overlay and never saved, so a crash mid-match cannot
+  // leave it behind as the current crosshair.
+  onWeaponCrosshair: (config: CrosshairConfig | null) => void
+  onStatus: (status: GsiStatus) => void
+}
+
+export class GsiService {
+  private server: http.Server | null = null
+  private settings: GsiSettings | null = null
+  private status: GsiStatus = {
+    running: false,
+    error: null,
+    connected: false,
+    weaponClass: null,
+    hidden: false
+  }
+  private lastState: GameState | null = null
+  private weaponCrosshair: CrosshairConfig | null = null
+  private disconnectTimer: NodeJS.Timeout | null = null
+  private opts: GsiServiceOptions
+
+  constructor(opts: GsiServiceOptions) {
+    this.opts = opts
+  }
+
+  getStatus(): GsiStatus {
+    return this.status
+  }
+
+  getWeaponCrosshair(): CrosshairConfig | null {
+    return this.weaponCrosshair
+  }
+
+  configure(settings: GsiSettings): void {
+    if (settings.enabled && !settings.token) {
+      // the change comes back here through the store
+      void this.opts.store.updateSettings({
+        gsi: { ...settings, token: randomBytes(24).toString("hex") }
+      })
+      return
+    }
+    const prev = this.settings
+    this.settings = settings
+    if (
+      prev &&
+      prev.enabled === settings.enabled &&
+      prev.port === settings.port &&
+      prev.token === settings.token
+    ) {
+      // hide options or weapon crosshairs may have changed
+      if (this.lastState) this.apply(this.lastState)
+      return
+    }
+    this.stop()
+    if (settings.enabled) this.start(settings.port)
+  }
+
+  dispose(): void {
+    this.settings = null
+    this.stop()
+  }
+
+  private setStatus(patch: Partial<GsiStatus>): void {
+    const next = { ...this.status, ...patch }
+    const changed = (Object.keys(next) as (keyof GsiStatus)[]).some(
+      (k) => next[k] !== this.status[k]
+    )
+    this.status = next
+    if (changed) this.opts.onStatus(next)
+  }
+
+  private start(port: number): void {
+    const server = http.createServer((req, res) => this.onRequest(req, res))
+    server.on("error", (error: NodeJS.ErrnoException) => {
+      const message = error.code === "EADDRINUSE" ? `Port ${port} is already in use` : error.message
+      console.error("GSI server error:", error)
+      this.setStatus({ running: false, error: message })
+      if (this.server === server) this.server = null
+    })
+    server.listen(port, "127.0.0.1", () => this.setStatus({ running: true, error: null }))
+    this.server = server
+  }
+
+  private stop(): void {
+    if (this.server) {
+      this.server.close()
+      this.server = null
+    }
+    this.disconnect()
+    this.setStatus({ running: false, error: null })
+  }
+
+  // Back to normal when the game goes away, so the crosshair is not left
+  // hidden or swapped
+  private disconnect(): void {
+    if (this.disconnectTimer) clearTimeout(this.disconnectTimer)
+    this.disconnectTimer = null
+    this.lastState = null
+    if (this.status.hidden) this.opts.setHidden(false)
+    this.swapCrosshair(null)
+    this.setStatus({ connected: false, hidden: false, weaponClass: null })
+  }
+
+  private onRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method !== "POST") {
+      res.writeHead(405).end()
+      return
+    }
+    const chunks: Buffer[] = []
+    let size = 0
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY) {
+        res.writeHead(413).end()
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on("end", () => {
+      // CS2 only needs a 2xx; anything else makes it retry
+      res.writeHead(200).end()
+      let payload: GsiPayload
+      try {
+        payload = JSON.parse(Buffer.concat(chunks).toString("utf8"))
+      } catch {
+        return
+      }
+      if (!this.settings || payload?.auth?.token !== this.settings.token) return
+      this.onPayload(payload)
+    })
+  }
+
+  private onPayload(payload: GsiPayload): void {
+    if (this.disconnectTimer) clearTimeout(this.disconnectTimer)
+    this.disconnectTimer = setTimeout(() => this.disconnect(), DISCONNECT_MS)
+    this.lastState = readGameState(payload)
+    this.apply(this.lastState)
+  }
+
+  private apply(state: GameState): void {
+    const settings = this.settings
+    if (!settings) return
+    const { hideWhen } = settings
+    const hidden =
+      (hideWhen.menu && state.menu) ||
+      (hideWhen.dead && state.dead) ||
+      (hideWhen.spectating && state.spectating) ||
+      (hideWhen.sniper && state.weaponClass === "sniper")
+    if (hidden !== this.status.hidden) this.opts.setHidden(hidden)
+    this.setStatus({ connected: true, hidden, weaponClass: state.weaponClass })
+    this.swapCrosshair(state.weaponClass)
+  }
+
+  private swapCrosshair(weaponClass: WeaponClass | null): void {
+    const { store } = this.opts
+    const itemId = weaponClass ? this.settings?.weaponCrosshairs[weaponClass] : null
+    const item = itemId ? store.getLibrary().find((i) => i.id === itemId) : undefined
+    const config = item?.config ?? null
+    if (config === this.weaponCrosshair) return
+    this.weaponCrosshair = config
+    this.opts.onWeaponCrosshair(config)
+  }
+}
+
+// CS2 reads gamestate_integration_*.cfg from game/csgo/cfg in its install
+// folder. Looks through the default Steam locations and their library folders.
+async function findCs2CfgDir(): Promise<string | null> {
+  const home = app.getPath("home")
+  const steamRoots =
+    process.platform === "win32"
+      ? ["C:\\Program Files (x86)\\Steam", "C:\\Program Files\\Steam"]
+      : [
+          join(home, ".local/share/Steam"),
+          join(home, ".steam/steam"),
+          join(home, ".var/app/com.valvesoftware.Steam/.local/share/Steam")
+        ]
+
+  const libraries = new Set<string>()
+  for (const root of steamRoots) {
+    try {
+      const vdf = await fs.readFile(join(root, "steamapps", "libraryfolders.vdf"), "utf-8")
+      libraries.add(root)
+      for (const match of vdf.matchAll(/"path"\s+"([^"]+)"/g)) {
+        libraries.add(match[1].replace(/\\\\/g, "\\"))
+      }
+    } catch {
+      // no Steam here
+    }
+  }
+  for (const library of libraries) {
+    const dir = join(
+      library,
+      "steamapps",
+      "common",
+      "Counter-Strike Global Offensive",
+      "game",
+      "csgo",
+      "cfg"
+    )
+    try {
+      if ((await fs.stat(dir)).isDirectory()) return dir
+    } catch {
+      // not installed in this library
+    }
+  }
+  return null
+}
+
+export function registerGsiIPC(
+  service: GsiService,
+  store: AppStore,
+  getWindow: () => BrowserWindow | null
+): void {
+  ipcMain.handle("gsi:status", () => service.getStatus())
+  ipcMain.handle("gsi:weapon-crosshair", () => service.getWeaponCrosshair())
+
+  ipcMain.handle("gsi:save-cfg", async () => {
+    let settings = store.getSettings().gsi
+    if (!settings.token) {
+      settings = { ...settings, token: randomBytes(24).toString("hex") }
+      await store.updateSettings({ gsi: settings })
+    }
+    const dir = await findCs2CfgDir()
+    const options = {
+      title: "Save CS2 Game State Integration Config",
+      defaultPath: join(dir ?? app.getPath("downloads"), CFG_NAME),
+      filters: [{ name: "CS2 Config", extensions: ["cfg"] }]
+    }
+    const win = getWindow()
+    const result = win
+      ? await dialog.showSaveDialog(win, options)
+      : await dialog.showSaveDialog(options)
+    if (result.canceled || !result.filePath) return null
+    try {
+      await fs.writeFile(result.filePath, buildGsiCfg(settings), "utf-8")
+      return { ok: true, path: result.filePath }
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  })
+}
@@ -0,0 +1,260 @@
+import { globalShortcut, ipcMain } from "electron"
+import {
+  defaultHotkeyBindings,
+  hotkeyActions,
+  type HotkeyAction,
+  type HotkeyBindings,
+  type HotkeySetResult,
+  type HotkeyState
+} from "@/types/hotkeys"
+import { JsonFile } from "./store"
+
+type HotkeyHandlers = {
+  toggleOverlay: () => void
+  holdStart: () => void
+  holdEnd: () => void
+  cycleCrosshair: (direction: 1 | -1) => void
+  nudge: (dx: number, dy: number) => void
+}
+
+// globalShortcut only reports key presses, never releases. While a key is held
+// the OS repeats the press, so "released" means the repeat stream went quiet.
+// The first repeat usually arrives ~500 ms after the initial press.
+const HOLD_FIRST_RELEASE_MS = 600
+const HOLD_REPEAT_RELEASE_MS = 150
+
+const MODIFIER_ORDER = ["Command", "Ctrl", "Alt", "AltGr", "Shift", "Super"]
+
+function normalizeAccelerator(accelerator: string): string {
+  const parts = accelerator
+    .split("+")
+    .map((p) => p.trim())
+    .filter(Boolean)
+  const modifiers = new Set<string>()
+  let key = ""
+  for (const part of parts) {
+    const lower = part.toLowerCase()
+    if (lower === "commandorcontrol" || lower === "cmdorctrl") {
+      modifiers.add(process.platform === "darwin" ? "Command" : "Ctrl")
+    } else if (lower === "command" || lower === "cmd") {
+      modifiers.add("Command")
+    } else if (lower === "control" || lower === "ctrl") {
+      modifiers.add("Ctrl")
+    } else if (lower === "alt" || lower === "option") {
+      modifiers.add("Alt")
+    } else if (lower === "altgr") {
+      modifiers.add("AltGr")
+    } else if (lower === "shift") {
+      modifiers.add("Shift")
+    } else if (lower === "super" || lower === "meta") {
+      modifiers.add("Super")
+    } else {
+      key = part.length === 1 ? part.toUpperCase() : part
+    }
+  }
+  const ordered = MODIFIER_ORDER.filter((m) => modifiers.has(m))
+  return [...ordered, key].join("+")
+}
+
+// Unknown actions and malformed bindings fall back to the defaults
+function sanitizeBindings(raw: unknown): HotkeyBindings {
+  const bindings = { ...defaultHotkeyBindings }
+  if (!raw || typeof raw !== "object") return bindings
+  const r = raw as Record<string, unknown>
+  for (const { action } of hotkeyActions) {
+    const value = r[action]
+    if (typeof value === "string" || value === null) bindings[action] = value
+  }
+  return bindings
+}
+
+export class HotkeyService {
+  private file = new JsonFile("hotkeys.json", sanitizeBindings)
+  private bindings: HotkeyBindings = { ...defaultHotkeyBindings }
+  private failed = new Set<HotkeyAction>()
+  private handlers: HotkeyHandlers
+  private holdTimer: NodeJS.Timeout | null = null
+  private suspended = false
+
+  constructor(handlers: HotkeyHandlers) {
+    this.handlers = handlers
+  }
+
+  async init(): Promise<void> {
+    // null on first run: keep defaults
+    const saved = await this.file.load()
+    if (saved) this.bindings = saved
+    this.registerAll()
+  }
+
+  getState(): HotkeyState {
+    return { bindings: { ...this.bindings }, failed: [...this.failed] }
+  }
+
+  async setBinding(action: HotkeyAction, accelerator: string | null): Promise<HotkeySetResult> {
+    if (!hotkeyActions.some((a) => a.action === action)) {
+      return { ok: false, error: `Unknown hotkey action "${action}".` }
+    }
+
+    if (accelerator) {
+      const normalized = normalizeAccelerator(accelerator)
+      const conflict = hotkeyActions.find(
+        (a) =>
+          a.action !== action &&
+          this.bindings[a.action] &&
+          normalizeAccelerator(this.bindings[a.action]!) === normalized
+      )
+      if (conflict) {
+        return {
+          ok: false,
+          error: `${accelerator} is already bound to "${conflict.label}".`,
+          conflictWith: conflict.action
+        }
+      }
+    }
+
+    const previous = this.bindings[action]
+    this.unregister(action)
+    this.bindings[action] = accelerator
+    if (!this.suspended && accelerator && !this.register(action)) {
+      // Roll back so a taken accelerator never silently replaces a working one
+      this.bindings[action] = previous
+      this.register(action)
+      return {
+        ok: false,
+        error: `${accelerator} is already in use by another application or is not a valid shortcut.`
+      }
+    }
+
+    await this.save()
+    return { ok: true, state: this.getState() }
+  }
+
+  async reset(): Promise<HotkeyState> {
+    this.unregisterAll()
+    this.bindings = { ...defaultHotkeyBindings }
+    this.registerAll()
+    await this.save()
+    return this.getState()
+  }
+
+  // Temporarily release every accelerator, e.g. while the settings page records a new one
+  setSuspended(suspended: boolean): void {
+    if (this.suspended === suspended) return
+    this.suspended = suspended
+    if (suspended) this.unregisterAll()
+    else this.registerAll()
+  }
+
+  dispose(): void {
+    this.unregisterAll()
+    if (this.holdTimer) {
+      clearTimeout(this.holdTimer)
+      this.holdTimer = null
+    }
+  }
+
+  private save(): Promise<void> {
+    return this.file.save(this.bindings)
+  }
+
+  private registerAll(): void {
+    this.failed.clear()
+    if (this.suspended) return
+    for (const { action } of hotkeyActions) {
+      if (this.bindings[action]) this.register(action)
+    }
+  }
+
+  private unregisterAll(): void {
+    for (const { action } of hotkeyActions) this.unregister(action)
+  }
+
+  private register(action: HotkeyAction): boolean {
+    const accelerator = this.bindings[action]
+    if (!accelerator) return true
+    let ok = false
+    try {
+      ok = globalShortcut.register(accelerator, () => this.trigger(action))
+    } catch {
+      ok = false
+    }
+    if (ok) this.failed.delete(action)
+    else this.failed.add(action)
+    return ok
+  }
+
+  private unregister(action: HotkeyAction): void {
+    const accelerator = this.bindings[action]
+    this.failed.delete(action)
+    if (!accelerator) return
+    try {
+      if (globalShortcut.isRegistered(accelerator)) globalShortcut.unregister(accelerator)
+    } catch {
+      // invalid accelerators were never registered
+    }
+  }
+
+  private trigger(action: HotkeyAction): void {
+    switch (action) {
+      case "toggleOverlay":
+        this.handlers.toggleOverlay()
+        break
+      case "hideWhileHeld":
+        this.onHoldRepeat()
+        break
+      case "nextCrosshair":
+        this.handlers.cycleCrosshair(1)
+        break
+      case "previousCrosshair":
+        this.handlers.cycleCrosshair(-1)
+        break
+      case "nudgeUp":
+        this.handlers.nudge(0, -1)
+        break
+      case "nudgeDown":
+        this.handlers.nudge(0, 1)
+        break
+      case "nudgeLeft":
+        this.handlers.nudge(-1, 0)
+        break
+      case "nudgeRight":
+        this.handlers.nudge(1, 0)
+        break
+      default:
+        break
+    }
+  }
+
+  private onHoldRepeat(): void {
+    const first = this.holdTimer == null
+    if (first) this.handlers.holdStart()
+    else clearTimeout(this.holdTimer!)
+    this.holdTimer = setTimeout(
+      () => {
+        this.holdTimer = null
+        this.handlers.holdEnd()
+      },
+      first ? HOLD_FIRST_RELEASE_MS : HOLD_REPEAT_RELEASE_MS
+    )
+  }
+}
+
+export function registerHotkeyIPC(service: HotkeyService): void {
+  ipcMain.handle("hotkeys:get", () => {
+    return service.getState()
+  })
+
+  ipcMain.handle("hotkeys:set", async (_e, action: HotkeyAction, accelerator: string | null) => {
+    return service.setBinding(action, accelerator)
+  })
+
+  ipcMain.handle("hotkeys:reset", async () => {
+    return service.reset()
+  })
+
+  ipcMain.handle("hotkeys:suspend", (_e, suspended: boolean) => {
+    service.setSuspended(!!suspended)
+    return service.getState()
+  })
+}
@@ -0,0 +1,156 @@
+import fs from "fs"
+import net from "net"
+import os from "os"
+import path from "path"
+import { CompositorProvider, type DesktopSnapshot } from "./compositor-provider"
+
+type HyprClient = {
+  address: string
+  mapped: boolean
+  hidden: boolean
+  at: [number, number]
+  size: [number, number]
+  workspace: { id: number; name: string }
+  class: string
+  title: string
+  pid: number
+}
+
+type HyprMonitor = {
+  id: number
+  activeWorkspace: { id: number }
+  specialWorkspace?: { id: number }
+}
+
+// socket2 events after which window geometry, focus or visibility may differ
+const RELEVANT_EVENTS = new Set([
+  "activewindowv2",
+  "openwindow",
+  "closewindow",
+  "movewindow",
+  "movewindowv2",
+  "windowtitle",
+  "windowtitlev2",
+  "workspace",
+  "workspacev2",
+  "activespecial",
+  "focusedmon",
+  "moveworkspace",
+  "moveworkspacev2",
+  "fullscreen",
+  "changefloatingmode",
+  "monitoradded",
+  "monitorremoved",
+  "minimized"
+])
+
+// Hyprland provider: queries state over .socket.sock and listens for
+// changes on the .socket2.sock event stream
+export class HyprlandProvider extends CompositorProvider {
+  private socketDir: string
+  private events: net.Socket | null = null
+  private listening = false
+
+  constructor(signature: string) {
+    super()
+    // Hyprland >= 0.40 uses $XDG_RUNTIME_DIR/hypr, older releases /tmp/hypr
+    const runtimeDir = process.env["XDG_RUNTIME_DIR"] ?? path.join(os.tmpdir(), "runtime")
+    const candidates = [path.join(runtimeDir, "hypr", signature), path.join("/tmp/hypr", signature)]
+    this.socketDir =
+      candidates.find((dir) => fs.existsSync(path.join(dir, ".socket.sock"))) ?? candidates[0]
+  }
+
+  private query<T>(command: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(path.join(this.socketDir, ".socket.sock"))
+      const chunks: Buffer[] = []
+      socket.setTimeout(2000, () =>
+        socket.destroy(new Error(`Hyprland query timed out: ${command}`))
+      )
+      socket.on("connect", () => socket.write(command))
+      socket.on("data", (chunk) => chunks.push(chunk))
+      socket.on("error", reject)
+      socket.on("end", () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")) as T)
+        } catch (err) {
+          reject(err)
+        }
+      })
+    })
+  }
+
+  protected async fetchSnapshot(): Promise<DesktopSnapshot> {
+    const [clients, active, monitors] = await Promise.all([
+      this.query<HyprClient[]>("j/clients"),
+      this.query<Partial<HyprClient>>("j/activewindow"),
+      this.query<HyprMonitor[]>("j/monitors")
+    ])
+    const shownWorkspaces = new Set<number>()
+    for (const m of monitors) {
+      shownWorkspaces.add(m.activeWorkspace.id)
+      // a special workspace id of 0 means none is open on that monitor
+      if (m.specialWorkspace?.id) shownWorkspaces.add(m.specialWorkspace.id)
+    }
+
+    const snap: DesktopSnapshot = {
+      activeId: active.address ? parseAddress(active.address) : null,
+      windows: new Map()
+    }
+    for (const c of clients) {
+      // unmapped clients are layer surfaces and other helpers
+      if (!c.mapped || c.workspace.id === -1) continue
+      const id = parseAddress(c.address)
+      snap.windows.set(id, {
+        ref: { id, title: c.title, wmClass: c.class, pid: c.pid },
+        geometry: {
+          x: c.at[0],
+          y: c.at[1],
+          width: c.size[0],
+          height: c.size[1],
+          mapped: !c.hidden && shownWorkspaces.has(c.workspace.id)
+        }
+      })
+    }
+    return snap
+  }
+
+  protected startEvents(): void {
+    this.listening = true
+    this.subscribe()
+  }
+
+  protected stopEvents(): void {
+    this.listening = false
+    this.events?.destroy()
+    this.events = null
+  }
+
+  private subscribe(): void {
+    const socket = net.createConnection(path.join(this.socketDir, ".socket2.sock"))
+    this.events = socket
+    let pending = ""
+    socket.on("data", (chunk) => {
+      pending += chunk.toString("utf8")
+      const lines = pending.split("\n")
+      pending = lines.pop() ?? ""
+      // events are "name>>data" lines; one refresh covers the whole burst
+      if (lines.some((line) => RELEVANT_EVENTS.has(line.slice(0, line.indexOf(">>"))))) {
+        this.invalidate()
+      }
+    })
+    socket.on("error", (err) => {
+      console.warn("Hyprland event socket error:", err)
+    })
+    socket.on("close", () => {
+      if (this.events !== socket) return
+      this.events = null
+      if (this.listening) setTimeout(() => this.listening && !this.events && this.subscribe(), 1000)
+    })
+  }
+}
+
+// Window addresses are hex pointers ("0x55d0c1a2b3c0"), well inside the safe integer range
+function parseAddress(address: string): number {
+  return Number.parseInt(address.replace(/^0x/, ""), 16)
+}
@@ -1,19 +1,116 @@
-import { app, shell, BrowserWindow, ipcMain, screen, dialog } from "electron"
+import { app, shell, BrowserWindow, ipcMain, screen, dialog, Notification } from "electron"
 import type { SaveDialogOptions, OpenDialogOptions } from "electron"
 import { join } from "path"
 import { electronApp, optimizer, is } from "@electron-toolkit/utils"
 import dotlinePng from "../../resources/dotline.png?asset"
 import { createAppTray, notifyMinimizedToTrayOnce } from "./tray"
-import "./rpc"
+import { startDiscordRPC } from "./rpc"
 import { promises as fs } from "fs"
 import { initAutoUpdater, triggerAutoUpdateCheck } from "./updater"
-import { CrosshairConfig, CrosshairStyle, defaultConfig } from "@/types/crosshair"
+import { CrosshairConfig } from "@/types/crosshair"
+import type { WindowRef } from "@/types/windowAttach"
 import { WindowAttachService, registerWindowAttachIPC } from "./windowAttach"
+import { HotkeyService, registerHotkeyIPC } from "./hotkeys"
+import { ProfileService, registerProfileIPC } from "./profiles"
+import { parseConfigFile, registerCodeIPC } from "./codes"
+import { formatCs2Commands } from "./cs2-code"
+import { AppStore, registerStoreIPC } from "./store"
+import { ControlActions } from "./control"
+import { ControlServer, generateControlToken, registerControlIPC } from "./control-server"
+import { CliService } from "./cli"
+import { DBusService } from "./dbus-service"
+import { ObsServer, registerObsIPC } from "./obs-server"
+import { GsiService, registerGsiIPC } from "./gsi"
+import { AdsService, registerAdsIPC } from "./ads"
+import { ContrastService, registerContrastIPC } from "./contrast"
+import { SpreadService, registerSpreadIPC } from "./spread"
+import { OverlayManager, registerOverlayIPC } from "./overlays"
 
 let settingsWindow: BrowserWindow | null = null
-let overlayWindow: BrowserWindow | null = null
-let currentOverlayDisplayId: number | null = null
+let overlayManager: OverlayManager | null = null
 let windowAttachService: WindowAttachService | null = null
+let hotkeyService: HotkeyService | null = null
+let profileService: ProfileService | null = null
+let controlActions: ControlActions | null = null
+let controlServer: ControlServer | null = null
+let cliService: CliService | null = null
+let dbusService: DBusService | null = null
+let obsServer: ObsServer | null = null
+let gsiService: GsiService | null = null
+let adsService: AdsService | null = null
+let contrastService: ContrastService | null = null
+let spreadService: SpreadService | null = null
+// command lines from launches that arrived before startup finished
+const pendingCommandLines: { argv: string[]; workingDirectory: string }[] = [
+  { argv: process.argv, workingDirectory: process.cwd() }
+]
+let hiddenByHoldKey = false
+// set while CS2 reports a state the crosshair should be hidden in (see gsi.ts)
+let hiddenByGameState = false
+const appStore = new AppStore({
+  onChange: (snapshot, previous) => {
+    for (const win of BrowserWindow.getAllWindows()) {
+      win.webContents.send("store:changed", snapshot)
+    }
+    const { overlayEnabled, currentConfig } = snapshot.settings
+    if (overlayEnabled !== previous.settings.overlayEnabled) updateOverlayVisibility()
+    const displayId = currentConfig.overlayDisplayId
+    if (displayId != null && displayId !== previous.settings.currentConfig.overlayDisplayId) {
+      moveOverlayToDisplay(displayId)
+    }
+    overlayManager?.sync()
+    if (controlActions) {
+      const state = controlActions.getState()
+      controlServer?.broadcast(state)
+      dbusService?.update(state)
+    }
+    obsServer?.update({ visible: isOverlayVisible(), config: currentConfig })
+    // these only restart when their own settings changed
+    configureControlServer()
+    obsServer?.configure(snapshot.settings.obsServer)
+    gsiService?.configure(snapshot.settings.gsi)
+    adsService?.configure(snapshot.settings.ads)
+    contrastService?.configure(snapshot.settings.contrast)
+    spreadService?.configure(snapshot.settings.spread)
+  }
+})
+
+// The token is created the first time the server is enabled
+function configureControlServer(): void {
+  const settings = appStore.getSettings().controlServer
+  if (settings.enabled && !settings.token) {
+    void appStore.updateSettings({
+      controlServer: { ...settings, token: generateControlToken() }
+    })
+    return
+  }
+  controlServer?.configure(settings)
+}
+
+// Enabled in settings and not hidden for the moment by the hold key or the game
+function isOverlayVisible(): boolean {
+  return appStore.getSettings().overlayEnabled && !hiddenByHoldKey && !hiddenByGameState
+}
+
+function updateOverlayVisibility(): void {
+  const visible = isOverlayVisible()
+  overlayManager?.setVisible(visible)
+  contrastService?.setPaused(!visible)
+  spreadService?.setPaused(!visible)
+  obsServer?.update({ visible, config: appStore.getSettings().currentConfig })
+}
+
+function isOwnWindow(win: WindowRef): boolean {
+  if (win.pid != null) return app.getAppMetrics().some((m) => m.pid === win.pid)
+  return BrowserWindow.getAllWindows().some((w) => {
+    try {
+      // On X11 the native handle is the XID
+      return w.getNativeWindowHandle().readUInt32LE(0) === win.id
+    } catch {
+      return false
+    }
+  })
+}
 
 function createSettingsWindow(): void {
   settingsWindow = new BrowserWindow({
@@ -51,85 +148,17 @@ function createSettingsWindow(): void {
   }
 }
 
-function createOverlayWindow(): void {
-  const primaryDisplay = screen.getPrimaryDisplay()
-  const { x, y, width, height } = primaryDisplay.bounds
-  currentOverlayDisplayId = primaryDisplay.id
-
-  overlayWindow = new BrowserWindow({
-    width,
-    height,
-    x,
-    y,
-    show: false,
-    frame: false,
-    transparent: true,
-    hasShadow: false,
-    resizable: false,
-    skipTaskbar: true,
-    focusable: false,
-    fullscreen: false,
-    alwaysOnTop: true,
-    backgroundColor: "#00000000",
-    webPreferences: {
-      preload: join(__dirname, "../preload/index.js"),
-      sandbox: false
-    }
-  })
-
-  overlayWindow.setAlwaysOnTop(true, "screen-saver")
-  overlayWindow.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true })
-
-  overlayWindow.webContents.on("did-finish-load", () => {
-    try {
-      const target = currentOverlayDisplayId
-        ? screen.getAllDisplays().find((d) => d.id === currentOverlayDisplayId)
-        : screen.getPrimaryDisplay()
-      const b = target?.bounds ?? { x, y, width, height }
-      overlayWindow?.setBounds({ x: b.x, y: b.y, width: b.width, height: b.height })
-    } catch {}
-    try {
-      overlayWindow?.setTitle("DotlineOverlay")
-    } catch {}
-    overlayWindow?.setIgnoreMouseEvents(true, { forward: true })
-    overlayWindow?.showInactive()
-  })
-
-  overlayWindow.on("close", (e) => {
-    e.preventDefault()
-    overlayWindow?.hide()
-  })
-
-  if (is.dev && process.env["ELECTRON_RENDERER_URL"]) {
-    overlayWindow.loadURL(`${process.env["ELECTRON_RENDERER_URL"]}?overlay=1`)
-  } else {
-    overlayWindow.loadFile(join(__dirname, "../renderer/index.html"), {
-      query: { overlay: "1" }
-    })
-  }
-
-  screen.on("display-metrics-changed", () => {
-    if (windowAttachService && windowAttachService.getState().mode !== "detached") {
-      // When attached or following, geometry is driven by WindowAttachService
-      return
-    }
-    if (!overlayWindow) return
-    const target = currentOverlayDisplayId
-      ? screen.getAllDisplays().find((d) => d.id === currentOverlayDisplayId)
-      : screen.getPrimaryDisplay()
-    if (!target) return
-    const { x: dx, y: dy, width: dw, height: dh } = target.bounds
-    overlayWindow.setBounds({ x: dx, y: dy, width: dw, height: dh })
-  })
-}
-
 // This method will be called when Electron has finished
 // initialization and is ready to create browser windows.
 // Some APIs can only be used after this event occurs.
-app.whenReady().then(() => {
+app.whenReady().then(async () => {
   // Set app user model id for windows
   electronApp.setAppUserModelId("com.parcoil.dotline")
 
+  // Saved state has to be loaded before any window asks for it
+  await appStore.init()
+  registerStoreIPC(appStore)
+
   // Default open or close DevTools by F12 in development
   // and ignore CommandOrControl + R in production.
   // see https://github.com/alex8088/electron-toolkit/tree/master/packages/utils
@@ -138,15 +167,175 @@ app.whenReady().then(() => {
   })
 
   createSettingsWindow()
-  createOverlayWindow()
 
-  // Initialize WindowAttachService (X11 gated)
-  windowAttachService = new WindowAttachService(() => overlayWindow, {
+  // The main overlay and one more per display overlay (see overlays.ts)
+  overlayManager = new OverlayManager({
+    store: appStore,
+    isVisible: isOverlayVisible,
+    isAttached: () => !!windowAttachService && windowAttachService.getState().mode !== "detached",
+    getAttachedArea: () => {
+      const state = windowAttachService?.getState()
+      return state && state.mode !== "detached" ? state.lastGeometry : null
+    }
+  })
+  registerOverlayIPC(overlayManager)
+  overlayManager.start()
+
+  // Initialize WindowAttachService (X11 and Sway/Hyprland/KWin on Wayland)
+  windowAttachService = new WindowAttachService(() => overlayManager?.getMainWindow() ?? null, {
     pollMs: 100,
-    enabled:
-      process.platform === "linux" && (process.env["XDG_SESSION_TYPE"] ?? "").toLowerCase() === "x11"
+    enabled: process.platform === "linux",
+    isVisible: isOverlayVisible,
+    fitBounds: (area) => overlayManager!.mainBounds(area)
   })
   registerWindowAttachIPC(windowAttachService)
+  // Reattach once the overlay has been placed on its display
+  overlayManager.getMainWindow()?.webContents.once("did-finish-load", () => {
+    const { targetId, followFocused } = appStore.getSettings().windowAttachment
+    if (!windowAttachService?.isEnabled()) return
+    if (followFocused) void windowAttachService.followFocused(true).catch(() => {})
+    else if (targetId != null) void windowAttachService.attach(targetId).catch(() => {})
+  })
+
+  if (appStore.getSettings().discordRpcEnabled) startDiscordRPC()
+
+  // Per-game profiles follow the focused window
+  profileService = new ProfileService({
+    windowAttach: windowAttachService,
+    isOwnWindow,
+    onActivate: (activation) => void appStore.activateProfile(activation.profile),
+    onStatus: (status) => settingsWindow?.webContents.send("profiles:status", status)
+  })
+  registerProfileIPC(profileService)
+  void profileService.init()
+
+  // Local control API for Stream Deck and scripts (off by default)
+  controlActions = new ControlActions({
+    store: appStore,
+    windowAttach: windowAttachService,
+    profiles: profileService,
+    moveOverlayToDisplay
+  })
+  controlServer = new ControlServer({
+    actions: controlActions,
+    onStatus: (status) => settingsWindow?.webContents.send("control:status", status)
+  })
+  registerControlIPC(controlServer, appStore)
+  configureControlServer()
+
+  // Browser source page for streaming, since OBS cannot capture the overlay
+  obsServer = new ObsServer({
+    getState: () => {
+      return { visible: isOverlayVisible(), config: appStore.getSettings().currentConfig }
+    },
+    onStatus: (status) => settingsWindow?.webContents.send("obs:status", status)
+  })
+  registerObsIPC(obsServer)
+  obsServer.configure(appStore.getSettings().obsServer)
+
+  // CS2 game state: hide in menus, when dead and so on, swap per weapon.
+  // Like ADS the weapon crosshair is a message to the overlay, not a store write.
+  gsiService = new GsiService({
+    store: appStore,
+    setHidden: (hidden) => {
+      hiddenByGameState = hidden
+      updateOverlayVisibility()
+    },
+    onWeaponCrosshair: (config) => overlayManager?.send("overlay:weapon", config),
+    onStatus: (status) => settingsWindow?.webContents.send("gsi:status", status)
+  })
+  registerGsiIPC(gsiService, appStore, () => settingsWindow)
+  gsiService.configure(appStore.getSettings().gsi)
+
+  // ADS crosshair while the aim button is held. The overlay keeps both
+  // crosshairs rendered, so the swap is a message to it and not a store write.
+  adsService = new AdsService({
+    onActive: (active) => overlayManager?.send("overlay:ads", active),
+    onStatus: (status) => settingsWindow?.webContents.send("ads:status", status)
+  })
+  registerAdsIPC(adsService)
+  adsService.configure(appStore.getSettings().ads)
+
+  // Recolors the crosshair for the background behind it, see contrast.ts
+  contrastService = new ContrastService({
+    getCenter: () => {
+      const overlayWindow = overlayManager?.getMainWindow()
+      if (!overlayWindow) return null
+      const bounds = overlayWindow.getBounds()
+      const display = screen.getDisplayMatching(bounds)
+      const { currentConfig, overlayWindow: mode } = appStore.getSettings()
+      // a compact window is already centered on the offset crosshair
+      const offsetX = mode === "compact" ? 0 : (currentConfig.offsetX ?? 0)
+      const offsetY = mode === "compact" ? 0 : (currentConfig.offsetY ?? 0)
+      return {
+        displayId: display.id,
+        x: bounds.x - display.bounds.x + bounds.width / 2 + offsetX,
+        y: bounds.y - display.bounds.y + bounds.height / 2 + offsetY
+      }
+    },
+    getCrosshairColors: () => {
+      const { currentConfig, ads } = appStore.getSettings()
+      const weapon = gsiService?.getWeaponCrosshair()
+      return [currentConfig, ads.config, ...(weapon ? [weapon] : [])].flatMap((c) => [
+        c.color,
+        c.outlineColor ?? "",
+        c.centerDotColor ?? "",
+        c.centerDotOutlineColor ?? "",
+        ...(c.layers ?? []).flatMap((layer) => [layer.color, layer.outlineColor])
+      ])
+    },
+    onAdjust: (adjustment) => overlayManager?.send("overlay:contrast", adjustment),
+    onStatus: (status) => settingsWindow?.webContents.send("contrast:status", status)
+  })
+  registerContrastIPC(contrastService)
+  contrastService.setPaused(!isOverlayVisible())
+  contrastService.configure(appStore.getSettings().contrast)
+
+  // Widens the gap with movement and firing, see spread.ts
+  spreadService = new SpreadService({
+    onSpread: (gap) => overlayManager?.send("overlay:spread", gap),
+    onStatus: (status) => settingsWindow?.webContents.send("spread:status", status)
+  })
+  registerSpreadIPC(spreadService)
+  spreadService.setPaused(!isOverlayVisible())
+  spreadService.configure(appStore.getSettings().spread)
+
+  // Session bus service for desktop shortcuts (see dbus-service.ts)
+  if (process.platform === "linux") {
+    dbusService = new DBusService(controlActions)
+    void dbusService.start()
+  }
+
+  // --toggle, --apply etc. from this launch and later ones (see cli.ts)
+  cliService = new CliService({
+    actions: controlActions,
+    store: appStore,
+    windowAttach: windowAttachService,
+    onError: (message) => {
+      console.error("Command line:", message)
+      new Notification({ title: "Dotline", icon: dotlinePng, body: message, silent: true }).show()
+    }
+  })
+  for (const { argv, workingDirectory } of pendingCommandLines.splice(0)) {
+    void cliService.handleArgv(argv, workingDirectory)
+  }
+
+  // Global hotkeys
+  hotkeyService = new HotkeyService({
+    toggleOverlay: () => void appStore.toggleCrosshair(),
+    holdStart: () => {
+      hiddenByHoldKey = true
+      updateOverlayVisibility()
+    },
+    holdEnd: () => {
+      hiddenByHoldKey = false
+      updateOverlayVisibility()
+    },
+    cycleCrosshair: (direction) => void appStore.cycleLibrary(direction),
+    nudge: (dx, dy) => void appStore.nudge(dx, dy)
+  })
+  registerHotkeyIPC(hotkeyService)
+  void hotkeyService.init()
 
   // Initialize auto updater and perform a background check
   initAutoUpdater(() => settingsWindow)
@@ -165,11 +354,23 @@ app.whenReady().then(() => {
     // dock icon is clicked and there are no other windows open.
     if (BrowserWindow.getAllWindows().length === 0) {
       createSettingsWindow()
-      createOverlayWindow()
+      overlayManager?.start()
     }
   })
 })
 
+app.on("will-quit", () => {
+  hotkeyService?.dispose()
+  profileService?.dispose()
+  controlServer?.dispose()
+  dbusService?.dispose()
+  obsServer?.dispose()
+  gsiService?.dispose()
+  adsService?.dispose()
+  contrastService?.dispose()
+  spreadService?.dispose()
+})
+
 // Quit when all windows are closed, except on macOS. There, it's common
 // for applications and their menu bar to stay active until the user quits
 // explicitly with Cmd + Q.
@@ -184,7 +385,13 @@ const gotLock = app.requestSingleInstanceLock()
 if (!gotLock) {
   app.quit()
 } else {
-  app.on("second-instance", () => {
+  app.on("second-instance", async (_event, argv, workingDirectory) => {
+    if (!cliService) {
+      pendingCommandLines.push({ argv, workingDirectory })
+      return
+    }
+    // launches with flags only run their commands, e.g. from a keybinding
+    if (await cliService.handleArgv(argv, workingDirectory)) return
     if (settingsWindow) {
       if (settingsWindow.isMinimized()) settingsWindow.restore()
       settingsWindow.focus()
@@ -218,81 +425,41 @@ ipcMain.on("window-control", (event, action: "minimize" | "maximize" | "close")
   }
 })
 
-ipcMain.handle("overlay:show", () => {
-  overlayWindow?.showInactive()
-  return true
-})
-
-ipcMain.handle("overlay:hide", () => {
-  overlayWindow?.hide()
-  return true
-})
-
-ipcMain.handle("overlay:update-config", (_event, config: CrosshairConfig) => {
-  overlayWindow?.webContents.send("overlay:config", config)
-  return true
-})
-
-ipcMain.handle("overlay:list-displays", () => {
-  const displays = screen.getAllDisplays()
-  const primaryId = screen.getPrimaryDisplay().id
-  return displays.map((d, idx) => ({
-    id: d.id,
-    label: (d as any).label
-      ? (d as any).label
-      : `Display ${idx + 1}${d.id === primaryId ? " (Primary)" : ""}`,
-    bounds: d.bounds,
-    scaleFactor: d.scaleFactor
-  }))
-})
-
-ipcMain.handle("overlay:set-display", (_event, displayId: number) => {
-  const displays = screen.getAllDisplays()
-  const target = displays.find((d) => d.id === displayId)
-  if (!overlayWindow || !target) return false
-  const { x, y, width, height } = target.bounds
-  overlayWindow.setBounds({ x, y, width, height })
-  overlayWindow.setAlwaysOnTop(true, "screen-saver")
-  overlayWindow.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true })
-  overlayWindow.setIgnoreMouseEvents(true, { forward: true })
-  overlayWindow.showInactive()
-  currentOverlayDisplayId = target.id
-  return true
-})
-
-ipcMain.handle("overlay:get-display", () => {
-  if (!overlayWindow) return null
-  const bounds = overlayWindow.getBounds()
-  const displays = screen.getAllDisplays()
-  const target = displays.find(
-    (d) =>
-      d.bounds.x === bounds.x &&
-      d.bounds.y === bounds.y &&
-      d.bounds.width === bounds.width &&
-      d.bounds.height === bounds.height
-  )
-  return target ? target.id : null
-})
+function moveOverlayToDisplay(displayId: number): boolean {
+  return overlayManager?.moveMain(displayId) ?? false
+}
 
 ipcMain.handle("config:export", async (_event, config: CrosshairConfig) => {
   const options: SaveDialogOptions = {
     title: "Export Crosshair Config",
-    filters: [{ name: "JSON Files", extensions: ["json"] }],
+    filters: [
+      { name: "JSON Files", extensions: ["json"] },
+      { name: "CS2 Config Files", extensions: ["cfg"] }
+    ],
     defaultPath: "crosshair.json"
   }
   const result = settingsWindow
     ? await dialog.showSaveDialog(settingsWindow, options)
     : await dialog.showSaveDialog(options)
   if (result.canceled || !result.filePath) return false
-  await fs.writeFile(result.filePath, JSON.stringify(config, null, 2), "utf-8")
+  // a .cfg can be run in the CS2 console with `exec <name>`
+  const contents = result.filePath.toLowerCase().endsWith(".cfg")
+    ? `// Crosshair exported from Dotline\n${formatCs2Commands(config, "\n")}\n`
+    : JSON.stringify(config, null, 2)
+  await fs.writeFile(result.filePath, contents, "utf-8")
   return true
 })
 
+registerCodeIPC()
+
 ipcMain.handle("config:import", async () => {
   const options: OpenDialogOptions = {
     title: "Import Crosshair Config",
     properties: ["openFile"],
-    filters: [{ name: "JSON Files", extensions: ["json"] }]
+    filters: [
+      { name: "JSON Files", extensions: ["json"] },
+      { name: "Crosshair Codes", extensions: ["txt", "cfg"] }
+    ]
   }
 
   const result = settingsWindow
@@ -301,30 +468,11 @@ ipcMain.handle("config:import", async () => {
 
   if (result.canceled || result.filePaths.length === 0) return null
 
+  let raw: string
   try {
-    const raw = await fs.readFile(result.filePaths[0], "utf-8")
-    const parsed = JSON.parse(raw)
-
-    if (!parsed || typeof parsed !== "object") return null
-
-    const allowedStyles: CrosshairStyle[] = ["classic", "dot", "circle", "x", "image"]
-
-    const cfg: CrosshairConfig = {
-      ...defaultConfig,
-      ...parsed,
-      style: allowedStyles.includes(parsed.style) ? parsed.style : defaultConfig.style
-    }
-
-    if (
-      typeof cfg.enabled !== "boolean" ||
-      typeof cfg.color !== "string" ||
-      typeof cfg.opacity !== "number"
-    ) {
-      return null
-    }
-
-    return cfg
+    raw = await fs.readFile(result.filePaths[0], "utf-8")
   } catch {
-    return null
+    return { ok: false, errors: [{ field: "config", message: "File could not be read" }] }
   }
+  return parseConfigFile(raw)
 })
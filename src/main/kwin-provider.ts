@@ -0,0 +1,273 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { interface as dbusInterface, sessionBus, type MessageBus } from "dbus-next"
+import { CompositorProvider, type DesktopSnapshot } from "./compositor-provider"
+
+const BUS_NAME = "com.parcoil.Dotline.KWinBridge"
+const OBJECT_PATH = "/com/parcoil/Dotline/KWinBridge"
+const INTERFACE_NAME = "com.parcoil.Dotline.KWinBridge"
+const PLUGIN_NAME = "dotline-window-bridge"
+
+// DBUS_NAME_FLAG_DO_NOT_QUEUE
+const DO_NOT_QUEUE = 4
+
+type KWinWindow = {
+  id: string
+  title: string
+  wmClass: string
+  pid: number
+  x: number
+  y: number
+  width: number
+  height: number
+  mapped: boolean
+}
+
+type KWinState = { active: string | null; windows: KWinWindow[] }
+
+// Runs inside KWin. Pushes the full window list back to us over D-Bus on every
+// relevant change. Handles both the KWin 6 (window*) and KWin 5 (client*) APIs.
+const bridgeScript = `
+const kwin6 = typeof workspace.windowList === "function";
+const watched = new Set();
+
+function list() {
+  return kwin6 ? workspace.windowList() : workspace.clientList();
+}
+
+function active() {
+  return kwin6 ? workspace.activeWindow : workspace.activeClient;
+}
+
+function onCurrentDesktop(w) {
+  if (w.onAllDesktops) return true;
+  if (kwin6) return w.desktops.indexOf(workspace.currentDesktop) !== -1;
+  return w.desktop === workspace.currentDesktop;
+}
+
+function push() {
+  const windows = [];
+  for (const w of list()) {
+    if (!w.normalWindow && !w.dialog) continue;
+    const g = w.frameGeometry;
+    windows.push({
+      id: String(w.internalId),
+      title: String(w.caption),
+      wmClass: String(w.resourceName) + "." + String(w.resourceClass),
+      pid: w.pid,
+      x: g.x,
+      y: g.y,
+      width: g.width,
+      height: g.height,
+      mapped: !w.minimized && onCurrentDesktop(w)
+    });
+  }
+  const a = active();
+  const state = { active: a ? String(a.internalId) : null, windows: windows };
+  callDBus("${BUS_NAME}", "${OBJECT_PATH}", "${INTERFACE_NAME}", "Update", JSON.stringify(state));
+}
+
+function track(w) {
+  const key = String(w.internalId);
+  if (watched.has(key)) return;
+  watched.add(key);
+  w.frameGeometryChanged.connect(push);
+  w.captionChanged.connect(push);
+  if (kwin6) {
+    w.minimizedChanged.connect(push);
+    w.desktopsChanged.connect(push);
+  } else {
+    w.clientMinimized.connect(push);
+    w.clientUnminimized.connect(push);
+    w.desktopChanged.connect(push);
+  }
+}
+
+function added(w) {
+  track(w);
+  push();
+}
+
+function removed(w) {
+  watched.delete(String(w.internalId));
+  push();
+}
+
+for (const w of list()) track(w);
+if (kwin6) {
+  workspace.windowAdded.connect(added);
+  workspace.windowRemoved.connect(removed);
+  workspace.windowActivated.connect(push);
+} else {
+  workspace.clientAdded.connect(added);
+  workspace.clientRemoved.connect(removed);
+  workspace.clientActivated.connect(push);
+}
+workspace.currentDesktopChanged.connect(push);
+push();
+`
+
+class BridgeInterface extends dbusInterface.Interface {
+  private onUpdate: (json: string) => void
+
+  constructor(onUpdate: (json: string) => void) {
+    super(INTERFACE_NAME)
+    this.onUpdate = onUpdate
+  }
+
+  Update(json: string): void {
+    this.onUpdate(json)
+  }
+}
+
+BridgeInterface.configureMembers({
+  methods: { Update: { inSignature: "s", outSignature: "" } }
+})
+
+// KWin (Plasma Wayland) provider. KWin offers no window query API over D-Bus,
+// so a small KWin script is loaded that reports window state back to an
+// object we export on the session bus.
+export class KWinProvider extends CompositorProvider {
+  private bus: Promise<MessageBus> | null = null
+  private script: Promise<void> | null = null
+  private state: KWinState | null = null
+  private firstUpdate: (() => void) | null = null
+  private listening = false
+  // KWin identifies windows by UUID; the Provider interface wants numbers
+  private ids = new Map<string, number>()
+  private nextId = 1
+
+  private connection(): Promise<MessageBus> {
+    if (!this.bus) {
+      this.bus = (async () => {
+        const bus = sessionBus()
+        bus.on("error", (err) => console.warn("KWin D-Bus connection error:", err))
+        bus.export(OBJECT_PATH, new BridgeInterface((json) => this.onUpdate(json)))
+        await bus.requestName(BUS_NAME, DO_NOT_QUEUE)
+        return bus
+      })()
+      this.bus.catch(() => {
+        this.bus = null
+      })
+    }
+    return this.bus
+  }
+
+  private onUpdate(json: string): void {
+    try {
+      this.state = JSON.parse(json) as KWinState
+    } catch {
+      return
+    }
+    this.firstUpdate?.()
+    this.firstUpdate = null
+    this.invalidate()
+  }
+
+  private loadScript(): Promise<void> {
+    if (!this.script) {
+      this.script = (async () => {
+        const bus = await this.connection()
+        const file = path.join(os.tmpdir(), `${PLUGIN_NAME}-${process.pid}.js`)
+        await fs.promises.writeFile(file, bridgeScript, "utf8")
+
+        let received: Promise<void>
+        try {
+          const scripting = (await bus.getProxyObject("org.kde.KWin", "/Scripting")).getInterface(
+            "org.kde.kwin.Scripting"
+          )
+          // a previous run may have left its script loaded
+          await scripting.unloadScript(PLUGIN_NAME).catch(() => false)
+
+          received = new Promise<void>((resolve) => {
+            this.firstUpdate = resolve
+          })
+          const id = (await scripting.loadScript(file, PLUGIN_NAME)) as number
+          if (id < 0) throw new Error("KWin refused to load the window bridge script")
+          await this.runScript(bus, id)
+        } finally {
+          // KWin reads the file when the script runs, not when it is loaded
+          await fs.promises.unlink(file).catch(() => {})
+        }
+        await Promise.race([received, new Promise((r) => setTimeout(r, 2000))])
+      })()
+      this.script.catch((err) => {
+        console.warn("Loading KWin window bridge failed:", err)
+        this.script = null
+      })
+    }
+    return this.script
+  }
+
+  // Scripts live at /Scripting/Script<id> on KWin 6 and late KWin 5, /<id> before that
+  private async runScript(bus: MessageBus, id: number): Promise<void> {
+    for (const objectPath of [`/Scripting/Script${id}`, `/${id}`]) {
+      try {
+        const script = (await bus.getProxyObject("org.kde.KWin", objectPath)).getInterface(
+          "org.kde.kwin.Script"
+        )
+        await script.run()
+        return
+      } catch {
+        // try the next location
+      }
+    }
+    throw new Error("Could not start the KWin window bridge script")
+  }
+
+  private async unloadScript(): Promise<void> {
+    const pending = this.script
+    if (!pending) return
+    this.script = null
+    this.state = null
+    try {
+      await pending
+      const bus = await this.connection()
+      const scripting = (await bus.getProxyObject("org.kde.KWin", "/Scripting")).getInterface(
+        "org.kde.kwin.Scripting"
+      )
+      await scripting.unloadScript(PLUGIN_NAME)
+    } catch {
+      // KWin went away; nothing left to unload
+    }
+  }
+
+  private numericId(uuid: string): number {
+    let id = this.ids.get(uuid)
+    if (id == null) {
+      id = this.nextId++
+      this.ids.set(uuid, id)
+    }
+    return id
+  }
+
+  protected async fetchSnapshot(): Promise<DesktopSnapshot> {
+    await this.loadScript()
+    const state = this.state
+    // without watchers nobody needs live updates; don't leave the script running in KWin
+    if (!this.listening) void this.unloadScript()
+
+    const snap: DesktopSnapshot = { activeId: null, windows: new Map() }
+    if (!state) return snap
+    for (const w of state.windows) {
+      const id = this.numericId(w.id)
+      snap.windows.set(id, {
+        ref: { id, title: w.title, wmClass: w.wmClass, pid: w.pid },
+        geometry: { x: w.x, y: w.y, width: w.width, height: w.height, mapped: w.mapped }
+      })
+    }
+    if (state.active) snap.activeId = this.numericId(state.active)
+    return snap
+  }
+
+  protected startEvents(): void {
+    this.listening = true
+    void this.loadScript()
+  }
+
+  protected stopEvents(): void {
+    this.listening = false
+    void this.unloadScript()
+  }
+}
@@ -0,0 +1,168 @@
+import { ipcMain } from "electron"
+import http from "http"
+import { promises as fs } from "fs"
+import { extname, join, normalize, sep } from "path"
+import { is } from "@electron-toolkit/utils"
+import type { ObsServerSettings, ObsServerStatus, ObsState } from "@/types/obs"
+
+// Serves the renderer with ?obs=1, which shows only the crosshair on a
+// transparent page (see components/obs-overlay.tsx), and streams the state to
+// it as server-sent events from /events. Read-only, so no token is needed.
+
+const mimeTypes: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".ico": "image/x-icon",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".ttf": "font/ttf"
+}
+
+type ObsServerOptions = {
+  getState: () => ObsState
+  onStatus: (status: ObsServerStatus) => void
+}
+
+export class ObsServer {
+  private server: http.Server | null = null
+  private clients = new Set<http.ServerResponse>()
+  private settings: ObsServerSettings | null = null
+  private status: ObsServerStatus = { running: false, url: null, error: null }
+  private lastMessage = ""
+  private opts: ObsServerOptions
+
+  constructor(opts: ObsServerOptions) {
+    this.opts = opts
+  }
+
+  private get rendererDir(): string {
+    return join(__dirname, "../renderer")
+  }
+
+  getStatus(): ObsServerStatus {
+    return this.status
+  }
+
+  configure(settings: ObsServerSettings): void {
+    const prev = this.settings
+    this.settings = settings
+    if (prev && prev.enabled === settings.enabled && prev.port === settings.port) return
+    this.stop()
+    if (settings.enabled) this.start(settings.port)
+  }
+
+  // Sends the state to every open page, skipping store changes that did not
+  // affect it
+  update(state: ObsState): void {
+    const message = `data: ${JSON.stringify(state)}\n\n`
+    if (message === this.lastMessage) return
+    this.lastMessage = message
+    for (const client of this.clients) client.write(message)
+  }
+
+  dispose(): void {
+    this.settings = null
+    this.stop()
+  }
+
+  private setStatus(status: ObsServerStatus): void {
+    this.status = status
+    this.opts.onStatus(status)
+  }
+
+  private start(port: number): void {
+    const server = http.createServer((req, res) => void this.onRequest(req, res, port))
+    server.on("error", (error: NodeJS.ErrnoException) => {
+      const message = error.code === "EADDRINUSE" ? `Port ${port} is already in use` : error.message
+      console.error("OBS server error:", error)
+      this.setStatus({ running: false, url: null, error: message })
+      if (this.server === server) this.server = null
+    })
+    server.listen(port, "127.0.0.1", () => {
+      this.setStatus({ running: true, url: `http://127.0.0.1:${port}/`, error: null })
+    })
+    this.server = server
+  }
+
+  private stop(): void {
+    for (const client of this.clients) client.end()
+    this.clients.clear()
+    if (this.server) {
+      this.server.close()
+      this.server = null
+    }
+    if (this.status.running || this.status.error) {
+      this.setStatus({ running: false, url: null, error: null })
+    }
+  }
+
+  private async onRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    port: number
+  ): Promise<void> {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.writeHead(405).end()
+      return
+    }
+    const { pathname } = new URL(req.url ?? "/", "http://127.0.0.1")
+
+    if (pathname === "/") {
+      // in development the page comes from the Vite dev server, so it needs
+      // the absolute address of the event stream
+      const page =
+        is.dev && process.env["ELECTRON_RENDERER_URL"]
+          ? `${process.env["ELECTRON_RENDERER_URL"]}/?obs=1&events=` +
+            encodeURIComponent(`http://127.0.0.1:${port}/events`)
+          : "/index.html?obs=1"
+      res.writeHead(302, { Location: page }).end()
+      return
+    }
+
+    if (pathname === "/events") {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-store",
+        Connection: "keep-alive",
+        "Access-Control-Allow-Origin": "*"
+      })
+      res.write(`data: ${JSON.stringify(this.opts.getState())}\n\n`)
+      this.clients.add(res)
+      req.on("close", () => this.clients.delete(res))
+      return
+    }
+
+    await this.serveFile(pathname, res)
+  }
+
+  private async serveFile(pathname: string, res: http.ServerResponse): Promise<void> {
+    const root = this.rendererDir
+    let file: string
+    try {
+      file = normalize(join(root, decodeURIComponent(pathname)))
+    } catch {
+      file = ""
+    }
+    if (!file.startsWith(root + sep)) {
+      res.writeHead(404).end()
+      return
+    }
+    try {
+      const body = await fs.readFile(file)
+      res.writeHead(200, {
+        "Content-Type": mimeTypes[extname(file)] ?? "application/octet-stream"
+      })
+      res.end(body)
+    } catch {
+      res.writeHead(404).end()
+    }
+  }
+}
+
+export function registerObsIPC(server: ObsServer): void {
+  ipcMain.handle("obs:status", () => server.getStatus())
+}
@@ -0,0 +1,328 @@
+import { BrowserWindow, ipcMain, screen, type Display, type Rectangle } from "electron"
+import { join } from "path"
+import { is } from "@electron-toolkit/utils"
+import {
+  MAX_DISPLAY_OVERLAYS,
+  makeDisplayOverlay,
+  type DisplayInfo,
+  type DisplayOverlay,
+  type OverlayDisplay
+} from "@/types/overlays"
+import type { AppStore } from "./store"
+
+// Owns the transparent overlay windows: the main one, which draws the
+// current crosshair and is the one window attachment moves, and one per
+// display overlay enabled in settings (see types/overlays.ts). The renderer
+// tells them apart by the display query parameter. In compact mode each
+// window is only as big as its renderer reports its crosshair needs, centered
+// where the crosshair goes.
+
+type OverlayManagerOptions = {
+  store: AppStore
+  // enabled and not hidden for the moment by the hold key or the game
+  isVisible: () => boolean
+  // an attached main overlay follows its window instead of its display
+  isAttached: () => boolean
+  // geometry of the window the main overlay is attached to, once known
+  getAttachedArea: () => Rectangle | null
+}
+
+export class OverlayManager {
+  private main: BrowserWindow | null = null
+  private mainDisplayId: number | null = null
+  private displayWindows = new Map<number, BrowserWindow>()
+  // crosshair extent each overlay reported, by webContents id
+  private sizes = new Map<number, number>()
+  private started = false
+  private opts: OverlayManagerOptions
+
+  constructor(opts: OverlayManagerOptions) {
+    this.opts = opts
+  }
+
+  start(): void {
+    this.createMain()
+    this.sync()
+    if (this.started) return
+    this.started = true
+    screen.on("display-metrics-changed", () => this.placeAll())
+    screen.on("display-added", () => this.sync())
+    screen.on("display-removed", () => this.sync())
+  }
+
+  getMainWindow(): BrowserWindow | null {
+    return this.main
+  }
+
+  getMainDisplayId(): number | null {
+    return this.mainDisplayId
+  }
+
+  // Sends to the main overlay, which shows the current crosshair
+  send(channel: string, ...args: unknown[]): void {
+    this.main?.webContents.send(channel, ...args)
+  }
+
+  setVisible(visible: boolean): void {
+    for (const win of this.windows()) {
+      if (visible) win.showInactive()
+      else win.hide()
+    }
+  }
+
+  moveMain(displayId: number): boolean {
+    const target = screen.getAllDisplays().find((d) => d.id === displayId)
+    if (!this.main || !target) return false
+    this.mainDisplayId = target.id
+    this.place(this.main, this.mainBounds(null))
+    if (this.opts.isVisible()) this.main.showInactive()
+    return true
+  }
+
+  // Opens and closes display overlay windows to match the settings and the
+  // connected displays
+  sync(): void {
+    const displays = screen.getAllDisplays()
+    const wanted = new Set(
+      this.opts.store
+        .getSettings()
+        .displayOverlays.filter((o) => o.enabled && displays.some((d) => d.id === o.displayId))
+        .map((o) => o.displayId)
+    )
+    for (const [id, win] of this.displayWindows) {
+      if (wanted.has(id)) continue
+      this.displayWindows.delete(id)
+      win.destroy()
+    }
+    for (const id of wanted) {
+      if (!this.displayWindows.has(id)) this.displayWindows.set(id, this.createDisplayWindow(id))
+    }
+    // the window mode or an offset may have changed
+    this.refit()
+  }
+
+  setSize(webContentsId: number, size: number): void {
+    if (this.sizes.get(webContentsId) === size) return
+    this.sizes.set(webContentsId, size)
+    this.refit()
+  }
+
+  // Bounds of the main overlay over an area: the attached window's geometry,
+  // or null for its display
+  mainBounds(area: Rectangle | null): Rectangle {
+    const display =
+      screen.getAllDisplays().find((d) => d.id === this.mainDisplayId) ?? screen.getPrimaryDisplay()
+    const { offsetX, offsetY } = this.opts.store.getSettings().currentConfig
+    return this.fit(this.main, area ?? display.bounds, offsetX ?? 0, offsetY ?? 0)
+  }
+
+  list(): OverlayDisplay[] {
+    const overlays = this.opts.store.getSettings().displayOverlays
+    return listDisplays().map((d) => ({
+      ...d,
+      main: d.id === this.mainDisplayId,
+      overlay: overlays.find((o) => o.displayId === d.id) ?? null,
+      open: this.displayWindows.has(d.id)
+    }))
+  }
+
+  // Creates the display's overlay settings when it has none yet
+  async setOverlay(
+    displayId: number,
+    patch: Partial<Omit<DisplayOverlay, "displayId">>
+  ): Promise<boolean> {
+    if (!screen.getAllDisplays().some((d) => d.id === displayId)) return false
+    const overlays = this.opts.store.getSettings().displayOverlays
+    const existing = overlays.find((o) => o.displayId === displayId)
+    if (!existing && overlays.length >= MAX_DISPLAY_OVERLAYS) return false
+    const next = { ...(existing ?? makeDisplayOverlay(displayId)), ...patch, displayId }
+    await this.opts.store.updateSettings({
+      displayOverlays: existing
+        ? overlays.map((o) => (o.displayId === displayId ? next : o))
+        : [...overlays, next]
+    })
+    return true
+  }
+
+  private windows(): BrowserWindow[] {
+    return [...(this.main ? [this.main] : []), ...this.displayWindows.values()]
+  }
+
+  private createMain(): void {
+    const primary = screen.getPrimaryDisplay()
+    // the saved display, if it is still connected
+    const savedId = this.opts.store.getSettings().currentConfig.overlayDisplayId
+    this.mainDisplayId = screen.getAllDisplays().some((d) => d.id === savedId)
+      ? savedId!
+      : primary.id
+
+    const win = createOverlayWindow(primary, {})
+    this.main = win
+    win.webContents.on("did-finish-load", () => {
+      this.place(win, this.mainBounds(null))
+      if (this.opts.isVisible()) win.showInactive()
+    })
+    win.on("close", (e) => {
+      e.preventDefault()
+      win.hide()
+    })
+  }
+
+  private createDisplayWindow(displayId: number): BrowserWindow {
+    const display = screen.getAllDisplays().find((d) => d.id === displayId)!
+    const win = createOverlayWindow(display, { display: String(displayId) })
+    const contentsId = win.webContents.id
+    win.webContents.on("did-finish-load", () => {
+      const target = screen.getAllDisplays().find((d) => d.id === displayId)
+      if (target) this.place(win, this.displayBounds(win, target))
+      if (this.opts.isVisible()) win.showInactive()
+    })
+    win.on("closed", () => {
+      this.sizes.delete(contentsId)
+      if (this.displayWindows.get(displayId) === win) this.displayWindows.delete(displayId)
+    })
+    return win
+  }
+
+  private displayBounds(win: BrowserWindow, display: Display): Rectangle {
+    const overlay = this.opts.store
+      .getSettings()
+      .displayOverlays.find((o) => o.displayId === display.id)
+    return this.fit(win, display.bounds, overlay?.offsetX ?? 0, overlay?.offsetY ?? 0)
+  }
+
+  // The whole area, or in compact mode a square around the crosshair; until
+  // the renderer reports its size the window covers the area
+  private fit(
+    win: BrowserWindow | null,
+    area: Rectangle,
+    offsetX: number,
+    offsetY: number
+  ): Rectangle {
+    const size = win ? this.sizes.get(win.webContents.id) : undefined
+    if (this.opts.store.getSettings().overlayWindow !== "compact" || !size) {
+      return { x: area.x, y: area.y, width: area.width, height: area.height }
+    }
+    // an even side keeps the crosshair on whole pixels
+    const side = Math.ceil(size / 2) * 2
+    return {
+      x: Math.round(area.x + area.width / 2 + offsetX - side / 2),
+      y: Math.round(area.y + area.height / 2 + offsetY - side / 2),
+      width: side,
+      height: side
+    }
+  }
+
+  // Where every window belongs right now
+  private targets(): [BrowserWindow, Rectangle][] {
+    const displays = screen.getAllDisplays()
+    const targets: [BrowserWindow, Rectangle][] = []
+    if (this.main) {
+      // an attached main overlay covers its window, once that has geometry
+      const area = this.opts.isAttached() ? this.opts.getAttachedArea() : null
+      if (area || !this.opts.isAttached()) targets.push([this.main, this.mainBounds(area)])
+    }
+    for (const [id, win] of this.displayWindows) {
+      const target = displays.find((d) => d.id === id)
+      if (target) targets.push([win, this.displayBounds(win, target)])
+    }
+    return targets
+  }
+
+  private place(win: BrowserWindow, bounds: Rectangle): void {
+    win.setBounds(bounds)
+    win.setAlwaysOnTop(true, "screen-saver")
+    win.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true })
+    win.setIgnoreMouseEvents(true, { forward: true })
+  }
+
+  private placeAll(): void {
+    for (const [win, bounds] of this.targets()) this.place(win, bounds)
+  }
+
+  // Moves only the windows whose bounds changed, as this runs on every
+  // settings change
+  private refit(): void {
+    for (const [win, t] of this.targets()) {
+      const b = win.getBounds()
+      if (b.x !== t.x || b.y !== t.y || b.width !== t.width || b.height !== t.height) {
+        win.setBounds(t)
+      }
+    }
+  }
+}
+
+function createOverlayWindow(display: Display, query: Record<string, string>): BrowserWindow {
+  const { x, y, width, height } = display.bounds
+  const win = new BrowserWindow({
+    width,
+    height,
+    x,
+    y,
+    show: false,
+    frame: false,
+    transparent: true,
+    hasShadow: false,
+    resizable: false,
+    skipTaskbar: true,
+    focusable: false,
+    fullscreen: false,
+    alwaysOnTop: true,
+    backgroundColor: "#00000000",
+    webPreferences: {
+      preload: join(__dirname, "../preload/index.js"),
+      sandbox: false
+    }
+  })
+
+  win.setAlwaysOnTop(true, "screen-saver")
+  win.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true })
+  win.webContents.on("did-finish-load", () => {
+    try {
+      win.setTitle("DotlineOverlay")
+    } catch {
+      // the title only helps window lists tell the overlay apart
+    }
+  })
+
+  // overlays stop animating while their window is hidden, whatever hid it
+  win.on("show", () => win.webContents.send("overlay:shown", true))
+  win.on("hide", () => win.webContents.send("overlay:shown", false))
+
+  const params = { overlay: "1", ...query }
+  if (is.dev && process.env["ELECTRON_RENDERER_URL"]) {
+    win.loadURL(`${process.env["ELECTRON_RENDERER_URL"]}?${new URLSearchParams(params)}`)
+  } else {
+    win.loadFile(join(__dirname, "../renderer/index.html"), { query: params })
+  }
+  return win
+}
+
+function listDisplays(): DisplayInfo[] {
+  const primaryId = screen.getPrimaryDisplay().id
+  return screen.getAllDisplays().map((d, idx) => ({
+    id: d.id,
+    label: d.label || `Display ${idx + 1}${d.id === primaryId ? " (Primary)" : ""}`,
+    bounds: d.bounds,
+    scaleFactor: d.scaleFactor
+  }))
+}
+
+export function registerOverlayIPC(manager: OverlayManager): void {
+  ipcMain.handle(
+    "overlay:shown",
+    (event) => BrowserWindow.fromWebContents(event.sender)?.isVisible() ?? false
+  )
+  ipcMain.handle("overlay:list-displays", () => listDisplays())
+  ipcMain.handle("overlay:set-display", (_e, displayId: number) => manager.moveMain(displayId))
+  ipcMain.handle("overlay:get-display", () => manager.getMainDisplayId())
+  ipcMain.handle("overlay:list", () => manager.list())
+  ipcMain.on("overlay:set-size", (event, size: number) => {
+    if (Number.isFinite(size) && size > 0) manager.setSize(event.sender.id, Math.ceil(size))
+  })
+  ipcMain.handle(
+    "overlay:set-overlay",
+    (_e, displayId: number, patch: Partial<Omit<DisplayOverlay, "displayId">>) =>
+      manager.setOverlay(displayId, patch)
+  )
+}
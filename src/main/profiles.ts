@@ -0,0 +1,173 @@
+import { ipcMain } from "electron"
+import type { WindowRef } from "@/types/windowAttach"
+import {
+  defaultProfileSettings,
+  findMatchingProfile,
+  type CrosshairProfile,
+  type ProfileActivation,
+  type ProfileRule,
+  type ProfileSettings,
+  type ProfileStatus
+} from "@/types/profiles"
+import { sanitizeConfig } from "@/types/crosshairSchema"
+import { JsonFile } from "./store"
+import type { WindowAttachService } from "./windowAttach"
+
+type ProfileServiceOptions = {
+  windowAttach: WindowAttachService
+  // focus moving to one of our own windows must not switch profiles
+  isOwnWindow: (win: WindowRef) => boolean
+  onActivate: (activation: ProfileActivation) => void
+  onStatus: (status: ProfileStatus) => void
+}
+
+type SaveResult = { ok: true; settings: ProfileSettings } | { ok: false; error: string }
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object"
+
+function sanitizeRule(raw: unknown): ProfileRule | null {
+  if (!isRecord(raw)) return null
+  const wmClass = typeof raw.wmClass === "string" ? raw.wmClass.trim() : ""
+  const titlePattern = typeof raw.titlePattern === "string" ? raw.titlePattern.trim() : ""
+  if (!wmClass && !titlePattern) return null
+  return {
+    ...(wmClass ? { wmClass } : {}),
+    ...(titlePattern ? { titlePattern } : {})
+  }
+}
+
+function sanitizeSettings(raw: unknown): ProfileSettings {
+  if (!isRecord(raw)) return { ...defaultProfileSettings, profiles: [] }
+  const profiles: CrosshairProfile[] = []
+  if (Array.isArray(raw.profiles)) {
+    for (const p of raw.profiles as unknown[]) {
+      if (!isRecord(p) || typeof p.id !== "string" || !p.id) continue
+      const id = p.id
+      if (profiles.some((existing) => existing.id === id)) continue
+      profiles.push({
+        id,
+        name: typeof p.name === "string" && p.name.trim() ? p.name.trim() : "Profile",
+        libraryItemId: typeof p.libraryItemId === "string" ? p.libraryItemId : null,
+        config: sanitizeConfig(p.config),
+        rules: Array.isArray(p.rules)
+          ? (p.rules as unknown[]).map(sanitizeRule).filter((r): r is ProfileRule => r != null)
+          : []
+      })
+    }
+  }
+  const defaultId = raw.defaultProfileId
+  const defaultProfileId =
+    typeof defaultId === "string" && profiles.some((p) => p.id === defaultId) ? defaultId : null
+  return { enabled: !!raw.enabled, defaultProfileId, profiles }
+}
+
+export class ProfileService {
+  private file = new JsonFile("profiles.json", sanitizeSettings)
+  private settings: ProfileSettings = { ...defaultProfileSettings, profiles: [] }
+  private activeProfileId: string | null = null
+  private focusedWindow: WindowRef | null = null
+  private stopWatch: (() => void) | null = null
+  private opts: ProfileServiceOptions
+
+  constructor(opts: ProfileServiceOptions) {
+    this.opts = opts
+  }
+
+  async init(): Promise<void> {
+    // null on first run: no profiles
+    const saved = await this.file.load()
+    if (saved) this.settings = saved
+    this.restartWatch()
+  }
+
+  isSupported(): boolean {
+    return this.opts.windowAttach.isEnabled()
+  }
+
+  getSettings(): ProfileSettings {
+    return this.settings
+  }
+
+  getStatus(): ProfileStatus {
+    return {
+      supported: this.isSupported(),
+      activeProfileId: this.activeProfileId,
+      focusedWindow: this.focusedWindow
+    }
+  }
+
+  async save(raw: ProfileSettings): Promise<SaveResult> {
+    const next = sanitizeSettings(raw)
+    for (const profile of next.profiles) {
+      for (const rule of profile.rules) {
+        if (!rule.titlePattern) continue
+        try {
+          new RegExp(rule.titlePattern)
+        } catch {
+          return {
+            ok: false,
+            error: `Profile "${profile.name}" has an invalid title pattern: ${rule.titlePattern}`
+          }
+        }
+      }
+    }
+
+    this.settings = next
+    await this.file.save(next)
+
+    // Rules may have changed, so the focused window has to be matched again
+    this.activeProfileId = null
+    this.restartWatch()
+    return { ok: true, settings: next }
+  }
+
+  // Manually switch to a profile, regardless of the focused window
+  activate(profileId: string): boolean {
+    const profile = this.settings.profiles.find((p) => p.id === profileId)
+    if (!profile) return false
+    this.activeProfileId = profile.id
+    this.opts.onActivate({ profile, window: this.focusedWindow })
+    this.opts.onStatus(this.getStatus())
+    return true
+  }
+
+  dispose(): void {
+    this.stopWatch?.()
+    this.stopWatch = null
+  }
+
+  private restartWatch(): void {
+    this.dispose()
+    if (!this.settings.enabled || this.settings.profiles.length === 0 || !this.isSupported()) {
+      this.opts.onStatus(this.getStatus())
+      return
+    }
+    this.stopWatch = this.opts.windowAttach.watchActiveWindow((win) => this.onFocusChange(win))
+  }
+
+  private onFocusChange(win: WindowRef | null): void {
+    if (win && this.opts.isOwnWindow(win)) return
+    this.focusedWindow = win
+    const profile = findMatchingProfile(this.settings, win)
+    if (profile && profile.id !== this.activeProfileId) {
+      this.activeProfileId = profile.id
+      this.opts.onActivate({ profile, window: win })
+    }
+    this.opts.onStatus(this.getStatus())
+  }
+}
+
+export function registerProfileIPC(service: ProfileService): void {
+  ipcMain.handle("profiles:get", () => {
+    return { settings: service.getSettings(), status: service.getStatus() }
+  })
+
+  ipcMain.handle("profiles:save", async (_e, settings: ProfileSettings) => {
+    return service.save(settings)
+  })
+
+  ipcMain.handle("profiles:activate", (_e, profileId: string) => {
+    return service.activate(profileId)
+  })
+}
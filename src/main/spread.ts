@@ -0,0 +1,208 @@
+import { ipcMain } from "electron"
+import { spreadAmount, type SpreadSettings, type SpreadStatus } from "@/types/spread"
+import { hasX11Display } from "./x11-client"
+import { X11InputHook, type InputEvent } from "./x11-input-hook"
+
+// Dynamic spread: widens the crosshair's gap while the player moves, fires
+// or turns, and lets it close again once they stop. Input comes from the
+// same X11 hook as ADS, so this is X11 only as well.
+//
+// The spread is a level from 0 to 1. Each tick it moves toward the target
+// the current input asks for, opening within OPEN_MS and closing within the
+// configured recovery time, and the overlay gets the gap it works out to.
+
+const LEFT_BUTTON = 1
+// lowercase and uppercase keysyms of W, A, S and D
+const MOVEMENT_KEYSYMS = [..."wasdWASD"].map((c) => c.charCodeAt(0))
+
+// how much of the full spread each input opens
+const MOVEMENT_SPREAD = 0.6
+const FIRING_SPREAD = 1
+// pointer speed in pixels per second that opens the full spread. Games that
+// lock the pointer warp it back to the middle, which the hook does not see,
+// so this is rough; it only has to tell flicks from small adjustments.
+const MOUSE_FULL_SPEED = 3000
+// milliseconds the spread takes to open fully
+const OPEN_MS = 80
+
+type SpreadServiceOptions = {
+  // pixels to add to the gap, 0 when closed
+  onSpread: (gap: number) => void
+  onStatus: (status: SpreadStatus) => void
+}
+
+export class SpreadService {
+  private hook: X11InputHook | null = null
+  private starting: Promise<void> | null = null
+  private movementCodes = new Set<number>()
+  private settings: SpreadSettings | null = null
+  private timer: NodeJS.Timeout | null = null
+  private paused = false
+  private held = new Set<number>()
+  private firing = false
+  private pointer: { x: number; y: number } | null = null
+  private travelled = 0
+  private lastTick = 0
+  private spread = 0
+  private gap = 0
+  private status: SpreadStatus
+  private opts: SpreadServiceOptions
+
+  constructor(opts: SpreadServiceOptions) {
+    this.opts = opts
+    this.status = { supported: SpreadService.isSupported(), running: false, error: null }
+  }
+
+  static isSupported(): boolean {
+    return process.platform === "linux" && hasX11Display()
+  }
+
+  getStatus(): SpreadStatus {
+    return this.status
+  }
+
+  getGap(): number {
+    return this.gap
+  }
+
+  configure(settings: SpreadSettings): void {
+    const prev = this.settings
+    this.settings = settings
+    // the hook only records motion when the mouse opens the crosshair
+    if (prev && prev.enabled === settings.enabled && prev.mouse === settings.mouse) {
+      if (prev.rate !== settings.rate && this.timer) this.startTimer(settings.rate)
+      return
+    }
+    if (!settings.enabled || !this.status.supported) {
+      this.stop()
+      return
+    }
+    void this.start(settings.mouse)
+  }
+
+  // Hidden overlays do not need their gap updated
+  setPaused(paused: boolean): void {
+    this.paused = paused
+    if (paused) this.reset()
+  }
+
+  dispose(): void {
+    this.settings = null
+    this.stop()
+  }
+
+  private setStatus(patch: Partial<SpreadStatus>): void {
+    this.status = { ...this.status, ...patch }
+    this.opts.onStatus(this.status)
+  }
+
+  private setGap(gap: number): void {
+    if (gap === this.gap) return
+    this.gap = gap
+    this.opts.onSpread(gap)
+  }
+
+  private async start(motion: boolean): Promise<void> {
+    // wait for a previous start so two hooks never run at once
+    await this.starting
+    this.stop()
+    this.starting = (async () => {
+      try {
+        const hook = await X11InputHook.start(
+          (event) => this.onInput(event),
+          (err) => {
+            if (this.hook !== hook) return
+            console.warn("Spread input hook stopped:", err)
+            this.hook = null
+            this.stopTimer()
+            this.setStatus({ running: false, error: err.message })
+          },
+          { motion }
+        )
+        // settings may have changed while connecting
+        if (!this.settings?.enabled || this.settings.mouse !== motion) {
+          hook.close()
+          return
+        }
+        this.hook = hook
+        this.movementCodes = await hook.keycodesFor(MOVEMENT_KEYSYMS)
+        this.startTimer(this.settings.rate)
+        this.setStatus({ running: true, error: null })
+      } catch (err) {
+        console.warn("Could not start the spread input hook:", err)
+        this.setStatus({ running: false, error: err instanceof Error ? err.message : String(err) })
+      }
+    })()
+    await this.starting
+  }
+
+  private stop(): void {
+    this.hook?.close()
+    this.hook = null
+    this.stopTimer()
+    if (this.status.running || this.status.error) this.setStatus({ running: false, error: null })
+  }
+
+  private startTimer(rate: number): void {
+    if (this.timer) clearInterval(this.timer)
+    this.lastTick = Date.now()
+    this.timer = setInterval(() => this.tick(), 1000 / rate)
+  }
+
+  private stopTimer(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+    this.reset()
+  }
+
+  private reset(): void {
+    this.held.clear()
+    this.firing = false
+    this.pointer = null
+    this.travelled = 0
+    this.spread = 0
+    this.setGap(0)
+  }
+
+  private onInput(event: InputEvent): void {
+    if (this.paused) return
+    if (event.kind === "motion") {
+      if (this.pointer) {
+        this.travelled += Math.hypot(event.x - this.pointer.x, event.y - this.pointer.y)
+      }
+      this.pointer = { x: event.x, y: event.y }
+    } else if (event.kind === "button" && event.code === LEFT_BUTTON) {
+      this.firing = event.pressed
+    } else if (event.kind === "key" && this.movementCodes.has(event.code)) {
+      if (event.pressed) this.held.add(event.code)
+      else this.held.delete(event.code)
+    }
+  }
+
+  private tick(): void {
+    const settings = this.settings
+    const now = Date.now()
+    const elapsed = Math.max(1, now - this.lastTick)
+    this.lastTick = now
+    if (!settings || this.paused) return
+
+    const speed = (this.travelled / elapsed) * 1000
+    this.travelled = 0
+    const target = Math.max(
+      settings.movement && this.held.size > 0 ? MOVEMENT_SPREAD : 0,
+      settings.firing && this.firing ? FIRING_SPREAD : 0,
+      settings.mouse ? Math.min(1, speed / MOUSE_FULL_SPEED) : 0
+    )
+    this.spread =
+      target > this.spread
+        ? Math.min(target, this.spread + elapsed / OPEN_MS)
+        : Math.max(target, this.spread - elapsed / settings.recoveryMs)
+    // half pixels are as fine as the overlay draws, and fewer updates
+    this.setGap(Math.round(spreadAmount(settings.curve, this.spread) * settings.maxGap * 2) / 2)
+  }
+}
+
+export function registerSpreadIPC(service: SpreadService): void {
+  ipcMain.handle("spread:status", () => service.getStatus())
+  ipcMain.handle("spread:gap", () => service.getGap())
+}
@@ -0,0 +1,231 @@
+import { app, ipcMain } from "electron"
+import { join } from "path"
+import { promises as fs } from "fs"
+import type { CrosshairConfig, CrosshairLibraryItem } from "@/types/crosshair"
+import type { CrosshairProfile } from "@/types/profiles"
+import { sanitizeConfig, sanitizeLibrary } from "@/types/crosshairSchema"
+import {
+  sanitizeAppSettings,
+  type AppSettings,
+  type LegacyStorage,
+  type StoreSnapshot
+} from "@/types/store"
+
+// A JSON file under userData. Writes go to a temp file that is renamed over
+// the real one, so a crash mid-write leaves the previous version intact, and
+// the previous version is kept as <name>.bak. A file that fails to parse is
+// moved aside and the backup is used instead.
+export class JsonFile<T> {
+  private writes: Promise<void> = Promise.resolve()
+
+  constructor(
+    private name: string,
+    private sanitize: (raw: unknown) => T
+  ) {}
+
+  private get path(): string {
+    return join(app.getPath("userData"), this.name)
+  }
+
+  // null when neither the file nor its backup exist or can be read
+  async load(): Promise<T | null> {
+    const primary = await this.read(this.path)
+    if (primary !== undefined) return primary
+    const backup = await this.read(`${this.path}.bak`)
+    if (backup !== undefined) {
+      console.warn(`Restored ${this.name} from its backup`)
+      return backup
+    }
+    return null
+  }
+
+  // Writes are queued so an older value can never land after a newer one
+  save(value: T): Promise<void> {
+    const data = JSON.stringify(value, null, 2)
+    this.writes = this.writes
+      .then(() => this.write(data))
+      .catch((error) => console.error(`Failed to save ${this.name}:`, error))
+    return this.writes
+  }
+
+  private async read(file: string): Promise<T | undefined> {
+    let raw: string
+    try {
+      raw = await fs.readFile(file, "utf-8")
+    } catch {
+      return undefined
+    }
+    try {
+      return this.sanitize(JSON.parse(raw))
+    } catch {
+      // keep the broken file around for bug reports instead of overwriting it
+      const aside = `${file}.corrupt-${Date.now()}`
+      console.warn(`${file} is corrupt, moved it to ${aside}`)
+      await fs.rename(file, aside).catch(() => {})
+      return undefined
+    }
+  }
+
+  private async write(data: string): Promise<void> {
+    await fs.mkdir(app.getPath("userData"), { recursive: true })
+    const tmp = `${this.path}.tmp`
+    const handle = await fs.open(tmp, "w")
+    try {
+      await handle.writeFile(data, "utf-8")
+      await handle.sync()
+    } finally {
+      await handle.close()
+    }
+    await fs.copyFile(this.path, `${this.path}.bak`).catch(() => {})
+    await fs.rename(tmp, this.path)
+  }
+}
+
+type AppStoreOptions = {
+  // called after every change, with the state before it
+  onChange: (snapshot: StoreSnapshot, previous: StoreSnapshot) => void
+}
+
+// The single source of truth for settings and the library. Renderers keep a
+// copy that is replaced whenever onChange broadcasts a new snapshot.
+export class AppStore {
+  private settingsFile = new JsonFile("settings.json", sanitizeAppSettings)
+  private libraryFile = new JsonFile("library.json", sanitizeLibrary)
+  private settings: AppSettings = sanitizeAppSettings(null)
+  private library: CrosshairLibraryItem[] = []
+  private opts: AppStoreOptions
+
+  constructor(opts: AppStoreOptions) {
+    this.opts = opts
+  }
+
+  async init(): Promise<void> {
+    this.settings = (await this.settingsFile.load()) ?? this.settings
+    this.library = (await this.libraryFile.load()) ?? this.library
+  }
+
+  getSnapshot(): StoreSnapshot {
+    return { settings: this.settings, library: this.library }
+  }
+
+  getSettings(): AppSettings {
+    return this.settings
+  }
+
+  async updateSettings(patch: Partial<AppSettings>): Promise<AppSettings> {
+    const previous = this.getSnapshot()
+    this.settings = sanitizeAppSettings({ ...this.settings, ...patch })
+    this.opts.onChange(this.getSnapshot(), previous)
+    await this.settingsFile.save(this.settings)
+    return this.settings
+  }
+
+  getLibrary(): CrosshairLibraryItem[] {
+    return this.library
+  }
+
+  async setLibrary(items: CrosshairLibraryItem[]): Promise<CrosshairLibraryItem[]> {
+    const previous = this.getSnapshot()
+    this.library = sanitizeLibrary(items)
+    this.opts.onChange(this.getSnapshot(), previous)
+    await this.libraryFile.save(this.library)
+    return this.library
+  }
+
+  // Swap in a library crosshair while keeping the current position, so switching
+  // mid-match (hotkeys, game profiles) does not move the crosshair
+  applyLibraryConfig(itemId: string | null, config: CrosshairConfig): Promise<AppSettings> {
+    const { overlayDisplayId, offsetX, offsetY } = this.settings.currentConfig
+    return this.updateSettings({
+      ...(itemId ? { currentLibraryItemId: itemId } : {}),
+      currentConfig: { ...config, overlayDisplayId, offsetX, offsetY }
+    })
+  }
+
+  async cycleLibrary(direction: 1 | -1): Promise<void> {
+    const library = this.library
+    if (library.length === 0) return
+    const idx = library.findIndex((i) => i.id === this.settings.currentLibraryItemId)
+    const nextIdx =
+      idx === -1
+        ? direction === 1
+          ? 0
+          : library.length - 1
+        : (idx + direction + library.length) % library.length
+    const item = library[nextIdx]
+    await this.applyLibraryConfig(item.id, item.config)
+  }
+
+  async activateProfile(profile: CrosshairProfile): Promise<void> {
+    // prefer the live library item so edits made after assigning the profile apply
+    const item = profile.libraryItemId
+      ? this.library.find((i) => i.id === profile.libraryItemId)
+      : undefined
+    await this.applyLibraryConfig(item?.id ?? null, item?.config ?? profile.config)
+  }
+
+  async nudge(dx: number, dy: number): Promise<void> {
+    const c = this.settings.currentConfig
+    await this.updateSettings({
+      currentConfig: { ...c, offsetX: (c.offsetX ?? 0) + dx, offsetY: (c.offsetY ?? 0) + dy }
+    })
+  }
+
+  async toggleCrosshair(): Promise<void> {
+    const enabled = !this.settings.currentConfig.enabled
+    await this.updateSettings({
+      currentConfig: { ...this.settings.currentConfig, enabled },
+      // turning the crosshair on also brings back a hidden overlay
+      ...(enabled ? { overlayEnabled: true } : {})
+    })
+  }
+
+  // Imports what older versions kept in the settings window's localStorage.
+  // Runs once; later calls only return the current state.
+  async migrateLocalStorage(legacy: LegacyStorage): Promise<StoreSnapshot> {
+    if (this.settings.localStorageMigrated) return this.getSnapshot()
+
+    const json = (value: string | null | undefined): unknown => {
+      try {
+        return value ? JSON.parse(value) : null
+      } catch {
+        return null
+      }
+    }
+    const patch: Partial<AppSettings> = { localStorageMigrated: true }
+    if (legacy.currentConfig) patch.currentConfig = sanitizeConfig(json(legacy.currentConfig))
+    if (legacy.currentLibraryItemId) patch.currentLibraryItemId = legacy.currentLibraryItemId
+    if (legacy.overlayEnabled != null) patch.overlayEnabled = legacy.overlayEnabled !== "false"
+    if (legacy.discordRpcDisabled != null) {
+      patch.discordRpcEnabled = !["1", "true"].includes(legacy.discordRpcDisabled)
+    }
+    if (legacy.onboardingSeen) patch.onboardingSeen = true
+    const targetId = Number.parseInt(legacy["windowAttachment.targetId"] ?? "", 10)
+    patch.windowAttachment = {
+      targetId: Number.isFinite(targetId) ? targetId : null,
+      followFocused: legacy["windowAttachment.followFocused"] === "true"
+    }
+
+    // never replace a library that was already created in the store
+    const items = sanitizeLibrary(json(legacy.crosshairLibrary))
+    if (items.length > 0 && this.library.length === 0) await this.setLibrary(items)
+    await this.updateSettings(patch)
+    return this.getSnapshot()
+  }
+}
+
+export function registerStoreIPC(store: AppStore): void {
+  ipcMain.handle("store:get", () => store.getSnapshot())
+
+  ipcMain.handle("store:update-settings", (_e, patch: Partial<AppSettings>) => {
+    return store.updateSettings(patch)
+  })
+
+  ipcMain.handle("store:set-library", (_e, items: CrosshairLibraryItem[]) => {
+    return store.setLibrary(items)
+  })
+
+  ipcMain.handle("store:migrate-local-storage", (_e, legacy: LegacyStorage) => {
+    return store.migrateLocalStorage(legacy)
+  })
+}
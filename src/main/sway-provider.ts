@@ -0,0 +1,206 @@
+import { EventEmitter } from "events"
+import net from "net"
+import type { WindowRef } from "@/types/windowAttach"
+import {
+  CompositorProvider,
+  type DesktopSnapshot,
+  type WindowSnapshot
+} from "./compositor-provider"
+
+const MAGIC = Buffer.from("i3-ipc", "ascii")
+const HEADER_SIZE = MAGIC.length + 8
+
+const MessageType = {
+  Subscribe: 2,
+  GetTree: 4
+} as const
+
+// Event replies have the high bit set on the message type
+const EVENT_BIT = 0x80000000
+
+type SwayRect = { x: number; y: number; width: number; height: number }
+
+type SwayNode = {
+  id: number
+  type: string
+  name: string | null
+  focused: boolean
+  visible?: boolean
+  rect: SwayRect
+  window_rect?: SwayRect
+  app_id?: string | null
+  pid?: number
+  window_properties?: { class?: string; instance?: string; title?: string }
+  nodes: SwayNode[]
+  floating_nodes: SwayNode[]
+}
+
+// Minimal i3-ipc client: framed JSON messages over the SWAYSOCK unix socket.
+// Replies arrive in request order; subscribed events are emitted as "event".
+class SwayIpc extends EventEmitter {
+  private socket: net.Socket
+  private buffer: Buffer = Buffer.alloc(0)
+  private pending: Array<{ resolve: (v: unknown) => void; reject: (e: Error) => void }> = []
+
+  private constructor(socket: net.Socket) {
+    super()
+    this.socket = socket
+    socket.on("data", (chunk) => this.onData(chunk))
+    socket.on("error", () => socket.destroy())
+    socket.on("close", () => {
+      for (const p of this.pending) p.reject(new Error("Sway IPC socket closed"))
+      this.pending = []
+      this.emit("close")
+    })
+  }
+
+  static connect(path: string): Promise<SwayIpc> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(path)
+      socket.once("connect", () => {
+        socket.off("error", reject)
+        resolve(new SwayIpc(socket))
+      })
+      socket.once("error", reject)
+    })
+  }
+
+  send(type: number, payload = ""): Promise<unknown> {
+    const body = Buffer.from(payload, "utf8")
+    const header = Buffer.alloc(HEADER_SIZE)
+    MAGIC.copy(header, 0)
+    header.writeUInt32LE(body.length, MAGIC.length)
+    header.writeUInt32LE(type, MAGIC.length + 4)
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject })
+      this.socket.write(Buffer.concat([header, body]))
+    })
+  }
+
+  close(): void {
+    this.socket.destroy()
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk
+    while (this.buffer.length >= HEADER_SIZE) {
+      const length = this.buffer.readUInt32LE(MAGIC.length)
+      if (this.buffer.length < HEADER_SIZE + length) return
+      const type = this.buffer.readUInt32LE(MAGIC.length + 4)
+      const body = this.buffer.subarray(HEADER_SIZE, HEADER_SIZE + length).toString("utf8")
+      this.buffer = this.buffer.subarray(HEADER_SIZE + length)
+
+      let data: unknown = null
+      try {
+        data = JSON.parse(body)
+      } catch {
+        // malformed payload; still consume the reply slot below
+      }
+      if (type & EVENT_BIT) this.emit("event", type & ~EVENT_BIT, data)
+      else this.pending.shift()?.resolve(data)
+    }
+  }
+}
+
+// Sway provider using GET_TREE snapshots and window/workspace event subscriptions
+export class SwayProvider extends CompositorProvider {
+  private socketPath: string
+  private commands: Promise<SwayIpc> | null = null
+  private events: SwayIpc | null = null
+  private listening = false
+
+  constructor(socketPath: string) {
+    super()
+    this.socketPath = socketPath
+  }
+
+  private connection(): Promise<SwayIpc> {
+    if (!this.commands) {
+      this.commands = SwayIpc.connect(this.socketPath).then((ipc) => {
+        ipc.on("close", () => {
+          this.commands = null
+        })
+        return ipc
+      })
+      this.commands.catch(() => {
+        this.commands = null
+      })
+    }
+    return this.commands
+  }
+
+  protected async fetchSnapshot(): Promise<DesktopSnapshot> {
+    const ipc = await this.connection()
+    const tree = (await ipc.send(MessageType.GetTree)) as SwayNode
+    const snap: DesktopSnapshot = { activeId: null, windows: new Map() }
+    collectViews(tree, snap)
+    return snap
+  }
+
+  protected startEvents(): void {
+    this.listening = true
+    void this.subscribe()
+  }
+
+  protected stopEvents(): void {
+    this.listening = false
+    this.events?.close()
+    this.events = null
+  }
+
+  private async subscribe(): Promise<void> {
+    try {
+      const ipc = await SwayIpc.connect(this.socketPath)
+      if (!this.listening) {
+        ipc.close()
+        return
+      }
+      this.events = ipc
+      ipc.on("event", () => this.invalidate())
+      ipc.on("close", () => {
+        if (this.events !== ipc) return
+        this.events = null
+        // compositor restarted or socket dropped; resubscribe while watched
+        if (this.listening) setTimeout(() => this.listening && void this.subscribe(), 1000)
+      })
+      await ipc.send(MessageType.Subscribe, JSON.stringify(["window", "workspace", "output"]))
+    } catch (err) {
+      console.warn("Sway IPC subscription failed:", err)
+    }
+  }
+}
+
+function collectViews(node: SwayNode, snap: DesktopSnapshot): void {
+  // the scratchpad lives on a hidden __i3 output
+  if (node.type === "output" && node.name === "__i3") return
+  const isView = (node.type === "con" || node.type === "floating_con") && node.pid != null
+  if (isView) {
+    const view = toWindow(node)
+    snap.windows.set(node.id, view)
+    if (node.focused) snap.activeId = node.id
+  }
+  for (const child of node.nodes ?? []) collectViews(child, snap)
+  for (const child of node.floating_nodes ?? []) collectViews(child, snap)
+}
+
+function toWindow(node: SwayNode): WindowSnapshot {
+  const props = node.window_properties
+  // native Wayland clients report app_id, Xwayland clients WM_CLASS
+  const wmClass =
+    node.app_id ??
+    (props?.instance && props?.class
+      ? `${props.instance}.${props.class}`
+      : (props?.class ?? props?.instance ?? ""))
+  const ref: WindowRef = { id: node.id, title: node.name ?? "", wmClass, pid: node.pid }
+  const inner = node.window_rect ?? { x: 0, y: 0, width: node.rect.width, height: node.rect.height }
+  return {
+    ref,
+    geometry: {
+      x: node.rect.x + inner.x,
+      y: node.rect.y + inner.y,
+      width: inner.width,
+      height: inner.height,
+      mapped: node.visible !== false
+    }
+  }
+}
@@ -0,0 +1,318 @@
+import {
+  armGeometry,
+  crosshairArms,
+  defaultConfig,
+  isAnimated,
+  type CrosshairConfig
+} from "@/types/crosshair"
+import type { CodeDecodeResult, CodeEncodeResult } from "@/types/codes"
+
+// Valorant crosshair profile codes look like "0;P;c;5;h;0;0l;4;0o;2;0a;1;1b;0":
+// a version number followed by key/value pairs, split into sections by the
+// markers P (primary), A (aim down sights) and S (sniper scope). Keys only
+// appear when they differ from the in-game default.
+
+const SECTIONS = ["P", "A", "S"] as const
+type Section = "general" | (typeof SECTIONS)[number]
+
+// Preset colors, indexed by the `c` key. Index 8 means custom, read from `u`.
+const COLORS = [
+  "#FFFFFF",
+  "#00FF00",
+  "#7FFF00",
+  "#DFFF00",
+  "#FFFF00",
+  "#00FFFF",
+  "#FF00FF",
+  "#FF0000"
+]
+const CUSTOM_COLOR = 8
+
+// In-game defaults of the primary crosshair
+const DEFAULTS: Record<string, number> = {
+  c: 0, // color
+  h: 1, // outlines
+  t: 1, // outline thickness
+  o: 0.5, // outline opacity
+  d: 0, // center dot
+  z: 2, // center dot thickness
+  a: 1, // center dot opacity
+  f: 0, // fade crosshair with firing error
+  m: 0, // override firing error offset with crosshair offset
+  "0b": 1, // show inner lines
+  "0t": 2,
+  "0l": 6,
+  "0o": 3,
+  "0a": 0.8,
+  "0m": 0, // movement error
+  "0f": 1, // firing error
+  "1b": 1, // show outer lines
+  "1t": 2,
+  "1l": 2,
+  "1o": 10,
+  "1a": 0.35,
+  "1m": 1,
+  "1f": 1
+}
+
+// Settings without a Dotline equivalent, reported when they are switched on
+const ERROR_LABELS: Record<string, string> = {
+  f: "Fade crosshair with firing error",
+  m: "Override firing error offset with crosshair offset",
+  "0m": "Inner lines movement error",
+  "0f": "Inner lines firing error",
+  "1m": "Outer lines movement error",
+  "1f": "Outer lines firing error"
+}
+
+// Keys read by the decoder or with no visual effect (multipliers only matter with errors on)
+const KNOWN_KEYS = new Set([
+  ...Object.keys(DEFAULTS),
+  "u",
+  "s",
+  "0g",
+  "0v",
+  "0s",
+  "0e",
+  "1g",
+  "1v",
+  "1s",
+  "1e"
+])
+
+const CODE_PATTERN = /^0(;[^;\s]+)*;?$/
+
+export function isValorantCode(text: string): boolean {
+  const code = text.trim()
+  return CODE_PATTERN.test(code) && (code === "0" || /;[PAS](;|$)/.test(code))
+}
+
+function parseSections(code: string): Map<Section, Map<string, string>> | null {
+  const tokens = code.trim().replace(/;$/, "").split(";")
+  if (tokens.shift() !== "0") return null
+  const sections = new Map<Section, Map<string, string>>([["general", new Map()]])
+  let current = sections.get("general")!
+  while (tokens.length) {
+    const token = tokens.shift()!
+    if ((SECTIONS as readonly string[]).includes(token)) {
+      current = new Map()
+      sections.set(token as Section, current)
+      continue
+    }
+    const value = tokens.shift()
+    if (value == null) return null
+    current.set(token, value)
+  }
+  return sections
+}
+
+export function decodeValorantCode(text: string): CodeDecodeResult {
+  const sections = parseSections(text)
+  if (!sections) {
+    return { ok: false, format: "valorant", error: "Malformed Valorant crosshair code" }
+  }
+  const unmapped: string[] = []
+  const primary = sections.get("P") ?? new Map<string, string>()
+
+  const num = (key: string): number => {
+    const raw = primary.get(key)
+    const value = raw == null ? DEFAULTS[key] : Number(raw)
+    return Number.isFinite(value) ? value : DEFAULTS[key]
+  }
+
+  let color = COLORS[num("c")] ?? COLORS[0]
+  let alpha = 1
+  const custom = primary.get("u")
+  if (num("c") === CUSTOM_COLOR && custom && /^[0-9a-f]{6}([0-9a-f]{2})?$/i.test(custom)) {
+    color = `#${custom.slice(0, 6).toUpperCase()}`
+    if (custom.length === 8) alpha = parseInt(custom.slice(6), 16) / 255
+  }
+
+  const lineSet = (
+    prefix: "0" | "1"
+  ): { thickness: number; length: number; gap: number; opacity: number } | null => {
+    const thickness = num(`${prefix}t`)
+    const length = num(`${prefix}l`)
+    if (num(`${prefix}b`) !== 1 || thickness <= 0 || length <= 0) return null
+    return { thickness, length, gap: num(`${prefix}o`), opacity: num(`${prefix}a`) }
+  }
+  const inner = lineSet("0")
+  const outer = lineSet("1")
+  // Dotline draws a single set of lines: prefer the inner ones
+  const lines = inner ?? outer
+  const linePrefix = inner ? "0" : "1"
+  if (inner && outer) unmapped.push("Outer lines")
+  // with `g` set, `l` is the horizontal length and `v` the vertical one
+  const rawVertical = primary.get(`${linePrefix}v`)
+  const vertical =
+    lines && num(`${linePrefix}g`) === 1 && rawVertical != null && Number.isFinite(+rawVertical)
+      ? Number(rawVertical)
+      : null
+
+  for (const key of ["f", "m", ...(lines ? [`${linePrefix}m`, `${linePrefix}f`] : [])]) {
+    if (num(key) === 1) unmapped.push(ERROR_LABELS[key])
+  }
+  for (const key of primary.keys()) {
+    if (!KNOWN_KEYS.has(key)) unmapped.push(`Unknown setting "${key}"`)
+  }
+  if (sections.get("A")?.size) unmapped.push("Aim down sights crosshair")
+  if (sections.get("S")?.size) unmapped.push("Sniper scope crosshair")
+
+  const outline = num("h") === 1
+  const outlineThickness = num("t")
+  const outlineOpacity = num("o")
+
+  const config: CrosshairConfig = {
+    ...defaultConfig,
+    style: "classic",
+    color,
+    opacity: lines ? lines.opacity * alpha : 0,
+    thickness: lines?.thickness ?? defaultConfig.thickness,
+    length: lines?.length ?? 0,
+    gap: lines?.gap ?? 0,
+    // Valorant outlines grow each side by the thickness, Dotline's by half of it
+    outline: outline && !!lines,
+    outlineColor: "#000000",
+    outlineThickness: outlineThickness * 2,
+    outlineOpacity,
+    centerDot: num("d") === 1,
+    centerDotShape: "square",
+    centerDotSize: num("z"),
+    centerDotColor: color,
+    centerDotOpacity: num("a") * alpha,
+    centerDotOutline: outline,
+    centerDotOutlineColor: "#000000",
+    centerDotOutlineThickness: outlineThickness * 2,
+    centerDotOutlineOpacity: outlineOpacity
+  }
+  if (vertical != null && vertical !== config.length) {
+    config.armTopLength = vertical
+    config.armBottomLength = vertical
+  }
+  return { ok: true, format: "valorant", config, unmapped }
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000)
+}
+
+export function encodeValorantCode(config: CrosshairConfig): CodeEncodeResult {
+  if (config.style === "image" || config.style === "path") {
+    return {
+      ok: false,
+      format: "valorant",
+      error: "Image and path crosshairs cannot be converted to a Valorant code"
+    }
+  }
+  const unmapped: string[] = []
+  const values = new Map<string, number | string>()
+
+  const clamp = (label: string, value: number, min: number, max: number): number => {
+    if (value < min || value > max) unmapped.push(`${label} outside ${min}–${max} (clamped)`)
+    return Math.min(max, Math.max(min, value))
+  }
+
+  const upper = config.color.toUpperCase()
+  const preset = COLORS.indexOf(upper)
+  if (preset !== -1) {
+    values.set("c", preset)
+  } else {
+    values.set("c", CUSTOM_COLOR)
+    values.set("u", `${upper.replace("#", "").slice(0, 6)}FF`)
+  }
+
+  if (config.layers?.length) unmapped.push("Layers (only the base style is exported)")
+  if (config.style === "circle") unmapped.push("Circle style (exported as lines)")
+  if (config.style === "x") unmapped.push("X style (exported as straight lines)")
+  if (isAnimated(config)) unmapped.push("Animations (Valorant crosshairs are static)")
+
+  // Valorant draws all four lines with one thickness and gap, but the
+  // vertical ones can have their own length
+  const [top, right, bottom, left] = crosshairArms.map((arm) =>
+    config.style === "classic"
+      ? armGeometry(config, arm)
+      : { enabled: true, length: config.length, thickness: config.thickness, gap: config.gap }
+  )
+  const arms = [top, right, bottom, left]
+  if (arms.some((arm) => !arm.enabled)) unmapped.push("Hidden arms (Valorant draws all four)")
+  const uniform = arms.every((arm) => arm.thickness === top.thickness && arm.gap === top.gap)
+  if (!uniform) unmapped.push("Different arm thicknesses or gaps (Valorant uses one for all arms)")
+  if (top.length !== bottom.length || left.length !== right.length) {
+    unmapped.push("Different lengths for opposite arms")
+  }
+  const thickness = uniform ? top.thickness : config.thickness
+  const gap = uniform ? top.gap : config.gap
+
+  // the dot style is a plain center dot in Valorant terms
+  const dotStyle = config.style === "dot"
+  const showLines =
+    !dotStyle && config.opacity > 0 && (right.length > 0 || top.length > 0) && thickness > 0
+  values.set("0b", showLines ? 1 : 0)
+  if (showLines) {
+    values.set("0t", clamp("Line thickness", Math.round(thickness), 0, 10))
+    values.set("0l", clamp("Line length", Math.round(right.length), 0, 20))
+    if (top.length !== right.length) {
+      values.set("0g", 1)
+      values.set("0v", clamp("Vertical line length", Math.round(top.length), 0, 20))
+    }
+    values.set("0o", clamp("Gap", Math.round(gap), 0, 20))
+    values.set("0a", Math.min(1, Math.max(0, config.opacity)))
+  }
+  // Dotline crosshairs are static
+  values.set("0f", 0)
+  values.set("1b", 0)
+
+  // the dot style draws its circle with the line color, opacity and outline
+  const centerDot = dotStyle || !!config.centerDot
+  const lineOutline = showLines && !!config.outline
+  const dotOutline = dotStyle ? !!config.outline : centerDot && !!config.centerDotOutline
+  values.set("h", lineOutline || dotOutline ? 1 : 0)
+  if (lineOutline || dotOutline) {
+    // Valorant has one outline setting for lines and dot; the lines win
+    const [thickness, opacity, color] =
+      lineOutline || dotStyle
+        ? [config.outlineThickness ?? 1, config.outlineOpacity, config.outlineColor]
+        : [
+            config.centerDotOutlineThickness ?? 1,
+            config.centerDotOutlineOpacity,
+            config.centerDotOutlineColor
+          ]
+    values.set("t", clamp("Outline thickness", Math.round(thickness / 2), 1, 6))
+    values.set("o", Math.min(1, Math.max(0, opacity ?? 1)))
+    if ((color ?? "#000000").toUpperCase() !== "#000000") {
+      unmapped.push("Outline color (Valorant outlines are always black)")
+    }
+    if (config.outlinePosition === "center") {
+      unmapped.push("Outline on the edge (Valorant draws it outside)")
+    }
+    if (config.outlineJoin && config.outlineJoin !== "miter") {
+      unmapped.push("Outline corners (Valorant corners are sharp)")
+    }
+  }
+
+  values.set("d", centerDot ? 1 : 0)
+  if (centerDot) {
+    // the dot style's thickness is the circle radius
+    const size = dotStyle
+      ? config.thickness * 2
+      : (config.centerDotSize ?? Math.max(1, config.thickness / 2))
+    const opacity = dotStyle ? config.opacity : (config.centerDotOpacity ?? config.opacity)
+    values.set("z", clamp("Center dot size", Math.round(size), 1, 6))
+    values.set("a", Math.min(1, Math.max(0, opacity)))
+    if (dotStyle || config.centerDotShape !== "square") unmapped.push("Round center dot")
+    if (
+      !dotStyle &&
+      config.centerDotColor &&
+      config.centerDotColor.toUpperCase() !== config.color.toUpperCase()
+    ) {
+      unmapped.push("Separate center dot color")
+    }
+  }
+
+  const parts = ["0", "P"]
+  for (const [key, value] of values) {
+    if (value === DEFAULTS[key]) continue
+    parts.push(key, typeof value === "number" ? formatNumber(value) : value)
+  }
+  return { ok: true, format: "valorant", code: parts.join(";"), unmapped }
+}
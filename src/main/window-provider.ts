@@ -0,0 +1,54 @@
+import type { Geometry, WindowRef } from "@/types/windowAttach"
+import { X11Provider, isX11Session } from "./x11-provider"
+import { X11NativeProvider } from "./x11-native-provider"
+import { hasX11Display } from "./x11-client"
+import { SwayProvider } from "./sway-provider"
+import { HyprlandProvider } from "./hyprland-provider"
+import { KWinProvider } from "./kwin-provider"
+
+export type ProviderGeometry = Geometry & { mapped: boolean }
+
+export type Provider = {
+  listWindows(): Promise<WindowRef[]>
+  getActiveWindow(): Promise<number | null>
+  getWindow(windowId: number): Promise<WindowRef | null>
+  getGeometry(windowId: number): Promise<ProviderGeometry | null>
+  watchGeometry(
+    windowId: number,
+    opts: {
+      intervalMs?: number
+      onChange: (g: ProviderGeometry) => void
+      onMissing?: () => void
+    }
+  ): () => void
+  // event-driven focus tracking; providers without it are polled
+  watchActiveWindow?(onChange: (windowId: number | null) => void): () => void
+}
+
+export type DesktopKind = "x11" | "sway" | "hyprland" | "kwin" | null
+
+export function detectDesktop(): DesktopKind {
+  if (process.platform !== "linux") return null
+  if (isX11Session()) return "x11"
+  const session = (process.env["XDG_SESSION_TYPE"] ?? "").toLowerCase()
+  if (process.env["SWAYSOCK"]) return "sway"
+  if (process.env["HYPRLAND_INSTANCE_SIGNATURE"]) return "hyprland"
+  const desktop = (process.env["XDG_CURRENT_DESKTOP"] ?? "").toUpperCase()
+  if (session === "wayland" && desktop.split(":").includes("KDE")) return "kwin"
+  return null
+}
+
+export function createWindowProvider(kind: DesktopKind = detectDesktop()): Provider | null {
+  switch (kind) {
+    case "x11":
+      return hasX11Display() ? new X11NativeProvider(new X11Provider()) : new X11Provider()
+    case "sway":
+      return new SwayProvider(process.env["SWAYSOCK"]!)
+    case "hyprland":
+      return new HyprlandProvider(process.env["HYPRLAND_INSTANCE_SIGNATURE"]!)
+    case "kwin":
+      return new KWinProvider()
+    default:
+      return null
+  }
+}
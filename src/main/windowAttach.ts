@@ -1,20 +1,16 @@
 import { BrowserWindow, ipcMain, screen } from "electron"
 import type { AttachState, Geometry, WindowRef } from "@/types/windowAttach"
-import { X11Provider, isX11Session } from "./x11-provider"
-
-type Provider = {
-  listWindows(): Promise<WindowRef[]>
-  getActiveWindow(): Promise<number | null>
-  getGeometry(windowId: number): Promise<(Geometry & { mapped: boolean }) | null>
-  watchGeometry(
-    windowId: number,
-    opts: { intervalMs?: number; onChange: (g: Geometry & { mapped: boolean }) => void; onMissing?: () => void }
-  ): () => void
-}
+import { createWindowProvider, type Provider } from "./window-provider"
 
 type Options = {
   pollMs?: number
   enabled?: boolean
+  // whether the app wants the overlay shown at all (enabled, not hidden by the
+  // hold key or the game); attachment only ever hides it further
+  isVisible?: () => boolean
+  // Where the overlay goes for an area: the attached window's geometry, or
+  // null for its own display. Defaults to covering the area.
+  fitBounds?: (area: Electron.Rectangle | null) => Electron.Rectangle
 }
 
 export class WindowAttachService {
@@ -26,6 +22,8 @@ export class WindowAttachService {
   private stopVisibilityWatch: (() => void) | null = null
   private pollMs: number
   private enabled: boolean
+  private fitBounds: Options["fitBounds"]
+  private isVisible: () => boolean
   private preAttachBounds: Electron.Rectangle | null = null
   private lastMapped = false
   private lastActive = false
@@ -33,8 +31,10 @@ export class WindowAttachService {
   constructor(getOverlayWindow: () => BrowserWindow | null, opts?: Options) {
     this.getOverlayWindow = getOverlayWindow
     this.pollMs = Math.max(50, Math.min(500, opts?.pollMs ?? 100))
-    this.enabled = opts?.enabled ?? (isX11Session() ? true : false)
-    this.provider = this.enabled && isX11Session() ? new X11Provider() : null
+    this.enabled = opts?.enabled ?? process.platform === "linux"
+    this.fitBounds = opts?.fitBounds
+    this.isVisible = opts?.isVisible ?? (() => true)
+    this.provider = this.enabled ? createWindowProvider() : null
   }
 
   getState(): AttachState {
@@ -50,6 +50,41 @@ export class WindowAttachService {
     return this.provider!.listWindows()
   }
 
+  // Reports the focused window whenever focus moves to a different window
+  watchActiveWindow(onChange: (win: WindowRef | null) => void): () => void {
+    if (!this.isEnabled()) return () => {}
+    let latest: number | null = null
+    let stopped = false
+    const stop = this.onActiveWindowChange(async (id) => {
+      latest = id
+      const win = id ? await this.provider!.getWindow(id) : null
+      // drop stale lookups when focus moved again in the meantime
+      if (!stopped && latest === id) onChange(win)
+    })
+    return () => {
+      stopped = true
+      stop()
+    }
+  }
+
+  // Calls onChange with the focused window id whenever it changes
+  private onActiveWindowChange(onChange: (windowId: number | null) => void): () => void {
+    if (this.provider!.watchActiveWindow) return this.provider!.watchActiveWindow(onChange)
+    let last: number | null | undefined = undefined
+    const timer = setInterval(async () => {
+      try {
+        const id = await this.provider!.getActiveWindow()
+        if (id !== last) {
+          last = id
+          onChange(id)
+        }
+      } catch {
+        // provider tools missing or window gone; try again next tick
+      }
+    }, this.pollMs)
+    return () => clearInterval(timer)
+  }
+
   private applyOverlayBounds(g: Geometry, mapped: boolean): void {
     const win = this.getOverlayWindow()
     if (!win) return
@@ -57,14 +92,16 @@ export class WindowAttachService {
       if (win.isVisible()) win.hide()
       return
     }
+    const area = { x: g.x, y: g.y, width: g.width, height: g.height }
+    const t = this.fitBounds ? this.fitBounds(area) : area
     const b = win.getBounds()
-    if (b.x !== g.x || b.y !== g.y || b.width !== g.width || b.height !== g.height) {
-      win.setBounds({ x: g.x, y: g.y, width: g.width, height: g.height })
+    if (b.x !== t.x || b.y !== t.y || b.width !== t.width || b.height !== t.height) {
+      win.setBounds(t)
       win.setAlwaysOnTop(true, "screen-saver")
       win.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true })
       win.setIgnoreMouseEvents(true, { forward: true })
-      if (!win.isVisible()) win.showInactive()
-    } else if (!win.isVisible() && mapped) {
+      if (!win.isVisible() && this.isVisible()) win.showInactive()
+    } else if (!win.isVisible() && this.isVisible()) {
       win.showInactive()
     }
   }
@@ -87,7 +124,9 @@ export class WindowAttachService {
   private restoreOverlayBounds(): void {
     const win = this.getOverlayWindow()
     if (!win) return
-    if (this.preAttachBounds) {
+    if (this.fitBounds) {
+      win.setBounds(this.fitBounds(null))
+    } else if (this.preAttachBounds) {
       const b = this.preAttachBounds
       win.setBounds({ x: b.x, y: b.y, width: b.width, height: b.height })
     } else {
@@ -97,7 +136,7 @@ export class WindowAttachService {
     win.setAlwaysOnTop(true, "screen-saver")
     win.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true })
     win.setIgnoreMouseEvents(true, { forward: true })
-    if (!win.isVisible()) win.showInactive()
+    if (!win.isVisible() && this.isVisible()) win.showInactive()
   }
 
   async attach(windowId: number): Promise<boolean> {
@@ -111,7 +150,26 @@ export class WindowAttachService {
     }
 
     this.stopAll()
+    this.watchTarget(windowId)
     this.state = { mode: "attached", targetId: windowId, lastGeometry: null }
+    return true
+  }
+
+  private stopTargetWatch(): void {
+    if (this.stopWatch) {
+      this.stopWatch()
+      this.stopWatch = null
+    }
+    if (this.stopVisibilityWatch) {
+      this.stopVisibilityWatch()
+      this.stopVisibilityWatch = null
+    }
+  }
+
+  private watchTarget(windowId: number): void {
+    this.stopTargetWatch()
+    this.lastMapped = false
+    this.lastActive = false
 
     this.stopWatch = this.provider!.watchGeometry(windowId, {
       intervalMs: this.pollMs,
@@ -130,16 +188,10 @@ export class WindowAttachService {
     })
 
     // Visibility watchdog: hide overlay if target window is not front/active
-    const visTimer = setInterval(async () => {
-      try {
-        const active = await this.provider!.getActiveWindow()
-        this.lastActive = active === windowId
-        this.syncOverlayVisibility()
-      } catch {}
-    }, this.pollMs)
-    this.stopVisibilityWatch = () => clearInterval(visTimer)
-
-    return true
+    this.stopVisibilityWatch = this.onActiveWindowChange((active) => {
+      this.lastActive = active === windowId
+      this.syncOverlayVisibility()
+    })
   }
 
   async followFocused(enable: boolean): Promise<boolean> {
@@ -150,23 +202,16 @@ export class WindowAttachService {
       this.restoreOverlayBounds()
       return true
     }
+
+    const win = this.getOverlayWindow()
+    if (win && this.state.mode === "detached") this.preAttachBounds = win.getBounds()
     this.state = { mode: "follow", targetId: null, lastGeometry: null }
 
-    let lastActive: number | null = null
-    const tick = async () => {
-      const id = await this.provider!.getActiveWindow()
-      if (!id) return
-      if (id !== lastActive) {
-        lastActive = id
-        await this.attach(id)
-        this.state.mode = "follow"
-      }
-    }
-    const timer = setInterval(() => {
-      void tick()
-    }, this.pollMs)
-    this.stopFollow = () => clearInterval(timer)
-    await tick()
+    this.stopFollow = this.onActiveWindowChange((id) => {
+      if (!id || id === this.state.targetId) return
+      this.state = { mode: "follow", targetId: id, lastGeometry: null }
+      this.watchTarget(id)
+    })
     return true
   }
 
@@ -184,7 +229,7 @@ export class WindowAttachService {
   private syncOverlayVisibility(): void {
     const win = this.getOverlayWindow()
     if (!win) return
-    const shouldShow = this.lastMapped && this.lastActive
+    const shouldShow = this.lastMapped && this.lastActive && this.isVisible()
     if (shouldShow) {
       if (!win.isVisible()) win.showInactive()
     } else {
@@ -196,14 +241,14 @@ export class WindowAttachService {
 export function registerWindowAttachIPC(service: WindowAttachService): void {
   ipcMain.handle("windowAttach.list", async () => {
     if (!service.isEnabled()) {
-      throw new Error("Window attachment requires X11 session on Linux.")
+      throw new Error("Window attachment is not supported on this desktop.")
     }
     return service.listWindows()
   })
 
   ipcMain.handle("windowAttach.attach", async (_e, id: number) => {
     if (!service.isEnabled()) {
-      throw new Error("Window attachment requires X11 session on Linux.")
+      throw new Error("Window attachment is not supported on this desktop.")
     }
     return service.attach(id)
   })
@@ -214,7 +259,7 @@ export function registerWindowAttachIPC(service: WindowAttachService): void {
 
   ipcMain.handle("windowAttach.followFocused", async (_e, enable: boolean) => {
     if (!service.isEnabled()) {
-      throw new Error("Window attachment requires X11 session on Linux.")
+      throw new Error("Window attachment is not supported on this desktop.")
     }
     return service.followFocused(enable)
   })
@@ -0,0 +1,519 @@
+import { createConnection, type Socket } from "net"
+import { EventEmitter } from "events"
+import { promises as fs, existsSync } from "fs"
+import os from "os"
+import path from "path"
+
+// Minimal X11 core protocol client, just enough to track window geometry,
+// focus and titles without spawning wmctrl/xdotool/xwininfo.
+// see https://www.x.org/releases/X11R7.7/doc/xproto/x11protocol.html
+
+const Opcode = {
+  ChangeWindowAttributes: 2,
+  GetWindowAttributes: 3,
+  GetGeometry: 14,
+  QueryTree: 15,
+  InternAtom: 16,
+  GetProperty: 20,
+  TranslateCoordinates: 40,
+  QueryExtension: 98,
+  GetKeyboardMapping: 101
+} as const
+
+export const EventMask = {
+  StructureNotify: 1 << 17,
+  PropertyChange: 1 << 22
+} as const
+
+const CW_EVENT_MASK = 1 << 11
+const ANY_PROPERTY_TYPE = 0
+const MAP_STATE_VIEWABLE = 2
+
+export const X11ErrorCode = {
+  BadWindow: 3,
+  BadAtom: 5,
+  BadDrawable: 9
+} as const
+
+export type X11Event =
+  | {
+      type: "ConfigureNotify"
+      event: number
+      window: number
+      x: number
+      y: number
+      width: number
+      height: number
+    }
+  | { type: "PropertyNotify"; window: number; atom: number; deleted: boolean }
+  | { type: "MapNotify" | "UnmapNotify" | "DestroyNotify"; event: number; window: number }
+  | { type: "ReparentNotify"; event: number; window: number; parent: number }
+
+export type X11Geometry = { x: number; y: number; width: number; height: number }
+
+export type X11Reply = Buffer
+
+export class X11Error extends Error {
+  code: number
+  majorOpcode: number
+
+  constructor(code: number, majorOpcode: number) {
+    super(`X11 error ${code} for request ${majorOpcode}`)
+    this.name = "X11Error"
+    this.code = code
+    this.majorOpcode = majorOpcode
+  }
+}
+
+type Pending = {
+  resolve: (reply: X11Reply) => void
+  reject: (err: Error) => void
+  // streaming requests (e.g. RECORD EnableContext) receive many replies
+  onReply?: (reply: X11Reply) => boolean
+}
+
+type DisplayTarget = { socketPath?: string; host?: string; port?: number; display: number }
+
+function pad4(n: number): number {
+  return (4 - (n % 4)) % 4
+}
+
+function parseDisplay(display: string): DisplayTarget | null {
+  const m = display.match(/^(?:([^:]*)\/)?([^:]*):(\d+)(?:\.\d+)?$/)
+  if (!m) return null
+  const host = m[2]
+  const num = Number.parseInt(m[3], 10)
+  if (!host || host === "unix") {
+    return { socketPath: `/tmp/.X11-unix/X${num}`, display: num }
+  }
+  return { host, port: 6000 + num, display: num }
+}
+
+async function readXauthCookie(display: number): Promise<{ name: string; data: Buffer } | null> {
+  const file = process.env["XAUTHORITY"] || path.join(os.homedir(), ".Xauthority")
+  let buf: Buffer
+  try {
+    buf = await fs.readFile(file)
+  } catch {
+    return null
+  }
+  const hostname = os.hostname()
+  let offset = 0
+  const readField = (): Buffer => {
+    const len = buf.readUInt16BE(offset)
+    offset += 2
+    const field = buf.subarray(offset, offset + len)
+    offset += len
+    return field
+  }
+  let fallback: { name: string; data: Buffer } | null = null
+  try {
+    while (offset < buf.length) {
+      const family = buf.readUInt16BE(offset)
+      offset += 2
+      const address = readField().toString()
+      const number = readField().toString()
+      const name = readField().toString()
+      const data = readField()
+      if (name !== "MIT-MAGIC-COOKIE-1") continue
+      if (number !== "" && number !== String(display)) continue
+      // 256 = FamilyLocal, 65535 = FamilyWild
+      if (family === 256 && address === hostname) return { name, data }
+      if (family === 65535 || family === 256) fallback = fallback ?? { name, data }
+    }
+  } catch {
+    // truncated file: use what we found so far
+  }
+  return fallback
+}
+
+export function hasX11Display(): boolean {
+  const target = parseDisplay(process.env["DISPLAY"] ?? "")
+  if (!target) return false
+  return target.socketPath ? existsSync(target.socketPath) : true
+}
+
+export class X11Client extends EventEmitter {
+  root = 0
+  minKeycode = 8
+  maxKeycode = 255
+  private socket: Socket
+  private buffer: Buffer = Buffer.alloc(0)
+  private sequence = 0
+  private pending = new Map<number, Pending>()
+  private atoms = new Map<string, number>()
+  private closed = false
+  private setupDone = false
+  private ready: Promise<void>
+  private idBase = 0
+  private idMask = 0
+  private nextId = 0
+
+  private constructor(socket: Socket, auth: { name: string; data: Buffer } | null) {
+    super()
+    this.socket = socket
+    this.ready = new Promise((resolve, reject) => {
+      const onSetupError = (err: Error): void => reject(err)
+      socket.once("error", onSetupError)
+      this.once("setup", () => {
+        socket.off("error", onSetupError)
+        resolve()
+      })
+      this.once("setup-failed", (err: Error) => reject(err))
+    })
+    socket.on("data", (chunk) => this.onData(chunk))
+    socket.on("error", (err) => this.fail(err))
+    socket.on("close", () => this.fail(new Error("X11 connection closed")))
+    socket.write(this.buildSetup(auth))
+  }
+
+  static async connect(display = process.env["DISPLAY"] ?? ""): Promise<X11Client> {
+    const target = parseDisplay(display)
+    if (!target) throw new Error(`Unsupported DISPLAY "${display}"`)
+    const auth = await readXauthCookie(target.display)
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const s = target.socketPath
+        ? createConnection(target.socketPath)
+        : createConnection(target.port!, target.host)
+      s.once("connect", () => {
+        s.off("error", reject)
+        resolve(s)
+      })
+      s.once("error", reject)
+    })
+    const client = new X11Client(socket, auth)
+    await client.ready
+    return client
+  }
+
+  close(): void {
+    if (this.closed) return
+    this.closed = true
+    this.socket.destroy()
+    this.removeAllListeners("event")
+  }
+
+  isClosed(): boolean {
+    return this.closed
+  }
+
+  // --- requests ---------------------------------------------------------
+
+  async internAtom(name: string): Promise<number> {
+    const cached = this.atoms.get(name)
+    if (cached) return cached
+    const nameBuf = Buffer.from(name, "latin1")
+    const body = Buffer.alloc(4 + nameBuf.length + pad4(nameBuf.length))
+    body.writeUInt16LE(nameBuf.length, 0)
+    nameBuf.copy(body, 4)
+    const reply = await this.request(Opcode.InternAtom, 0, body)
+    const atom = reply.readUInt32LE(8)
+    this.atoms.set(name, atom)
+    return atom
+  }
+
+  async getProperty(
+    window: number,
+    property: string,
+    maxLongs = 1024
+  ): Promise<{ type: number; format: number; value: Buffer } | null> {
+    const atom = await this.internAtom(property)
+    const body = Buffer.alloc(20)
+    body.writeUInt32LE(window, 0)
+    body.writeUInt32LE(atom, 4)
+    body.writeUInt32LE(ANY_PROPERTY_TYPE, 8)
+    body.writeUInt32LE(0, 12)
+    body.writeUInt32LE(maxLongs, 16)
+    const reply = await this.request(Opcode.GetProperty, 0, body)
+    const format = reply[1]
+    const type = reply.readUInt32LE(8)
+    if (type === 0) return null
+    const length = reply.readUInt32LE(16) * (format / 8)
+    return { type, format, value: Buffer.from(reply.subarray(32, 32 + length)) }
+  }
+
+  async getWindowProperty(window: number, property: string): Promise<number[]> {
+    const prop = await this.getProperty(window, property)
+    if (!prop || prop.format !== 32) return []
+    const out: number[] = []
+    for (let i = 0; i + 4 <= prop.value.length; i += 4) out.push(prop.value.readUInt32LE(i))
+    return out
+  }
+
+  async getStringProperty(window: number, property: string): Promise<string | null> {
+    const prop = await this.getProperty(window, property)
+    if (!prop || prop.format !== 8) return null
+    return prop.value.toString("utf8")
+  }
+
+  async getGeometry(window: number): Promise<X11Geometry> {
+    const body = Buffer.alloc(4)
+    body.writeUInt32LE(window, 0)
+    const reply = await this.request(Opcode.GetGeometry, 0, body)
+    return {
+      x: reply.readInt16LE(12),
+      y: reply.readInt16LE(14),
+      width: reply.readUInt16LE(16),
+      height: reply.readUInt16LE(18)
+    }
+  }
+
+  async translateToRoot(window: number): Promise<{ x: number; y: number }> {
+    const body = Buffer.alloc(12)
+    body.writeUInt32LE(window, 0)
+    body.writeUInt32LE(this.root, 4)
+    const reply = await this.request(Opcode.TranslateCoordinates, 0, body)
+    return { x: reply.readInt16LE(12), y: reply.readInt16LE(14) }
+  }
+
+  async isViewable(window: number): Promise<boolean> {
+    const body = Buffer.alloc(4)
+    body.writeUInt32LE(window, 0)
+    const reply = await this.request(Opcode.GetWindowAttributes, 0, body)
+    return reply[26] === MAP_STATE_VIEWABLE
+  }
+
+  async queryTree(window: number): Promise<{ root: number; parent: number; children: number[] }> {
+    const body = Buffer.alloc(4)
+    body.writeUInt32LE(window, 0)
+    const reply = await this.request(Opcode.QueryTree, 0, body)
+    const count = reply.readUInt16LE(16)
+    const children: number[] = []
+    for (let i = 0; i < count; i++) children.push(reply.readUInt32LE(32 + i * 4))
+    return { root: reply.readUInt32LE(8), parent: reply.readUInt32LE(12), children }
+  }
+
+  async queryExtension(name: string): Promise<{ present: boolean; majorOpcode: number }> {
+    const nameBuf = Buffer.from(name, "latin1")
+    const body = Buffer.alloc(4 + nameBuf.length + pad4(nameBuf.length))
+    body.writeUInt16LE(nameBuf.length, 0)
+    nameBuf.copy(body, 4)
+    const reply = await this.request(Opcode.QueryExtension, 0, body)
+    return { present: reply[8] === 1, majorOpcode: reply[9] }
+  }
+
+  // Keysyms of every keycode, e.g. to find the keycodes of a named key
+  async getKeyboardMapping(): Promise<Map<number, number[]>> {
+    const count = this.maxKeycode - this.minKeycode + 1
+    const body = Buffer.alloc(4)
+    body[0] = this.minKeycode
+    body[1] = count
+    const reply = await this.request(Opcode.GetKeyboardMapping, 0, body)
+    const perKeycode = reply[1]
+    const mapping = new Map<number, number[]>()
+    for (let i = 0; i < count; i++) {
+      const keysyms: number[] = []
+      for (let j = 0; j < perKeycode; j++) {
+        const keysym = reply.readUInt32LE(32 + (i * perKeycode + j) * 4)
+        if (keysym) keysyms.push(keysym)
+      }
+      mapping.set(this.minKeycode + i, keysyms)
+    }
+    return mapping
+  }
+
+  // Replaces this client's event mask on the window
+  selectInput(window: number, mask: number): void {
+    const body = Buffer.alloc(12)
+    body.writeUInt32LE(window, 0)
+    body.writeUInt32LE(CW_EVENT_MASK, 4)
+    body.writeUInt32LE(mask, 8)
+    this.send(Opcode.ChangeWindowAttributes, 0, body)
+  }
+
+  // Allocates a resource id (e.g. for extension contexts)
+  allocateId(): number {
+    const step = this.idMask & -this.idMask
+    const id = (this.idBase | (this.nextId * step)) >>> 0
+    this.nextId++
+    return id
+  }
+
+  // Sends a request and waits for its reply
+  request(opcode: number, data: number, body: Buffer): Promise<X11Reply> {
+    return new Promise((resolve, reject) => {
+      const seq = this.send(opcode, data, body)
+      this.pending.set(seq, { resolve, reject })
+    })
+  }
+
+  // Sends a request whose replies keep arriving until onReply returns false
+  requestStream(
+    opcode: number,
+    data: number,
+    body: Buffer,
+    onReply: (reply: X11Reply) => boolean
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const seq = this.send(opcode, data, body)
+      this.pending.set(seq, { resolve: () => resolve(), reject, onReply })
+    })
+  }
+
+  // Sends a request that has no reply; returns its sequence number
+  send(opcode: number, data: number, body: Buffer): number {
+    if (this.closed) throw new Error("X11 connection closed")
+    const length = 4 + body.length + pad4(body.length)
+    const header = Buffer.alloc(4)
+    header[0] = opcode
+    header[1] = data
+    header.writeUInt16LE(length / 4, 2)
+    this.socket.write(Buffer.concat([header, body, Buffer.alloc(pad4(body.length))]))
+    this.sequence = (this.sequence + 1) & 0xffff
+    return this.sequence
+  }
+
+  // --- wire handling ----------------------------------------------------
+
+  private buildSetup(auth: { name: string; data: Buffer } | null): Buffer {
+    const name = Buffer.from(auth?.name ?? "", "latin1")
+    const data = auth?.data ?? Buffer.alloc(0)
+    const head = Buffer.alloc(12)
+    head[0] = 0x6c // 'l': little endian
+    head.writeUInt16LE(11, 2)
+    head.writeUInt16LE(0, 4)
+    head.writeUInt16LE(name.length, 6)
+    head.writeUInt16LE(data.length, 8)
+    return Buffer.concat([
+      head,
+      name,
+      Buffer.alloc(pad4(name.length)),
+      data,
+      Buffer.alloc(pad4(data.length))
+    ])
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk
+    if (!this.setupDone) {
+      if (this.buffer.length < 8) return
+      const total = 8 + this.buffer.readUInt16LE(6) * 4
+      if (this.buffer.length < total) return
+      const setup = this.buffer.subarray(0, total)
+      this.buffer = this.buffer.subarray(total)
+      if (setup[0] !== 1) {
+        const reasonLength = setup[1]
+        const reason = setup.subarray(8, 8 + reasonLength).toString() || "authentication failed"
+        this.emit("setup-failed", new Error(`X11 connection refused: ${reason}`))
+        this.close()
+        return
+      }
+      this.idBase = setup.readUInt32LE(12)
+      this.idMask = setup.readUInt32LE(16)
+      this.minKeycode = setup[34]
+      this.maxKeycode = setup[35]
+      const vendorLength = setup.readUInt16LE(24)
+      const formatCount = setup[29]
+      const screensOffset = 40 + vendorLength + pad4(vendorLength) + formatCount * 8
+      this.root = setup.readUInt32LE(screensOffset)
+      this.setupDone = true
+      this.emit("setup")
+    }
+
+    while (this.buffer.length >= 32) {
+      const kind = this.buffer[0]
+      const length = kind === 1 ? 32 + this.buffer.readUInt32LE(4) * 4 : 32
+      if (this.buffer.length < length) return
+      const packet = this.buffer.subarray(0, length)
+      this.buffer = this.buffer.subarray(length)
+      if (kind === 0) this.onError(packet)
+      else if (kind === 1) this.onReply(packet)
+      else this.onEvent(packet)
+    }
+  }
+
+  private onReply(packet: Buffer): void {
+    const seq = packet.readUInt16LE(2)
+    const pending = this.pending.get(seq)
+    if (!pending) return
+    if (pending.onReply) {
+      if (!pending.onReply(packet)) {
+        this.pending.delete(seq)
+        pending.resolve(packet)
+      }
+      return
+    }
+    this.pending.delete(seq)
+    pending.resolve(packet)
+  }
+
+  private onError(packet: Buffer): void {
+    const code = packet[1]
+    const seq = packet.readUInt16LE(2)
+    const majorOpcode = packet[10]
+    const err = new X11Error(code, majorOpcode)
+    const pending = this.pending.get(seq)
+    if (pending) {
+      this.pending.delete(seq)
+      pending.reject(err)
+    } else {
+      // errors for requests without replies (e.g. selecting input on a dead window)
+      this.emit("x11-error", err)
+    }
+  }
+
+  private onEvent(packet: Buffer): void {
+    const code = packet[0] & 0x7f
+    let event: X11Event | null = null
+    switch (code) {
+      case 17:
+        event = {
+          type: "DestroyNotify",
+          event: packet.readUInt32LE(4),
+          window: packet.readUInt32LE(8)
+        }
+        break
+      case 18:
+        event = {
+          type: "UnmapNotify",
+          event: packet.readUInt32LE(4),
+          window: packet.readUInt32LE(8)
+        }
+        break
+      case 19:
+        event = { type: "MapNotify", event: packet.readUInt32LE(4), window: packet.readUInt32LE(8) }
+        break
+      case 21:
+        event = {
+          type: "ReparentNotify",
+          event: packet.readUInt32LE(4),
+          window: packet.readUInt32LE(8),
+          parent: packet.readUInt32LE(12)
+        }
+        break
+      case 22:
+        event = {
+          type: "ConfigureNotify",
+          event: packet.readUInt32LE(4),
+          window: packet.readUInt32LE(8),
+          x: packet.readInt16LE(16),
+          y: packet.readInt16LE(18),
+          width: packet.readUInt16LE(20),
+          height: packet.readUInt16LE(22)
+        }
+        break
+      case 28:
+        event = {
+          type: "PropertyNotify",
+          window: packet.readUInt32LE(4),
+          atom: packet.readUInt32LE(8),
+          deleted: packet[16] === 1
+        }
+        break
+      default:
+        break
+    }
+    if (event) this.emit("event", event)
+  }
+
+  private fail(err: Error): void {
+    if (!this.setupDone) this.emit("setup-failed", err)
+    for (const pending of this.pending.values()) pending.reject(err)
+    this.pending.clear()
+    if (!this.closed) {
+      this.closed = true
+      this.socket.destroy()
+      this.emit("close", err)
+    }
+  }
+}
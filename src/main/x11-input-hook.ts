@@ -0,0 +1,148 @@
+import { X11Client, X11Error } from "./x11-client"
+
+// Global key and mouse button events on X11 through the RECORD extension,
+// which copies device events to us without grabbing them from the game.
+// see https://www.x.org/releases/X11R7.7/doc/recordproto/record.html
+//
+// EnableContext keeps replying until the context is disabled, which blocks
+// its connection, so recording runs on a second connection.
+
+const RecordMinor = {
+  QueryVersion: 0,
+  CreateContext: 1,
+  EnableContext: 5
+} as const
+
+const RECORD_ALL_CLIENTS = 3
+
+const Category = {
+  FromServer: 0,
+  EndOfData: 5
+} as const
+
+const DeviceEvent = {
+  KeyPress: 2,
+  KeyRelease: 3,
+  ButtonPress: 4,
+  ButtonRelease: 5,
+  MotionNotify: 6
+} as const
+
+export type InputEvent =
+  | {
+      kind: "key" | "button"
+      // keycode, or button number (1 left, 2 middle, 3 right, 8 back, 9 forward)
+      code: number
+      pressed: boolean
+    }
+  // pointer position on the root window
+  | { kind: "motion"; x: number; y: number }
+
+export class X11InputHook {
+  private control: X11Client
+  private data: X11Client
+
+  private constructor(control: X11Client, data: X11Client) {
+    this.control = control
+    this.data = data
+  }
+
+  // Pointer motion is only recorded when asked for, since mice report it
+  // hundreds of times a second
+  static async start(
+    onInput: (event: InputEvent) => void,
+    onClose: (err: Error) => void,
+    { motion = false }: { motion?: boolean } = {}
+  ): Promise<X11InputHook> {
+    const control = await X11Client.connect()
+    let data: X11Client | null = null
+    try {
+      const { present, majorOpcode } = await control.queryExtension("RECORD")
+      if (!present) throw new Error("The X server has no RECORD extension")
+      const version = Buffer.alloc(4)
+      version.writeUInt16LE(1, 0)
+      version.writeUInt16LE(13, 2)
+      await control.request(majorOpcode, RecordMinor.QueryVersion, version)
+
+      const context = control.allocateId()
+      let createError: X11Error | null = null
+      control.once("x11-error", (err: X11Error) => (createError = err))
+      control.send(majorOpcode, RecordMinor.CreateContext, createContextBody(context, motion))
+      // CreateContext has no reply; a round trip surfaces its error, if any
+      await control.request(majorOpcode, RecordMinor.QueryVersion, version)
+      if (createError) throw createError
+
+      data = await X11Client.connect()
+      const enable = Buffer.alloc(4)
+      enable.writeUInt32LE(context, 0)
+      data
+        .requestStream(majorOpcode, RecordMinor.EnableContext, enable, (reply) => {
+          if (reply[1] === Category.EndOfData) return false
+          if (reply[1] === Category.FromServer) readDeviceEvents(reply, onInput)
+          return true
+        })
+        .then(() => onClose(new Error("X11 recording ended")))
+        .catch((err: Error) => onClose(err))
+      return new X11InputHook(control, data)
+    } catch (err) {
+      control.close()
+      data?.close()
+      throw err
+    }
+  }
+
+  // Keycodes that produce any of the keysyms in the current keyboard layout
+  async keycodesFor(keysyms: number[]): Promise<Set<number>> {
+    const mapping = await this.control.getKeyboardMapping()
+    const codes = new Set<number>()
+    for (const [keycode, syms] of mapping) {
+      if (syms.some((s) => keysyms.includes(s))) codes.add(keycode)
+    }
+    return codes
+  }
+
+  // Closing the connection that created the context frees it
+  close(): void {
+    this.data.close()
+    this.control.close()
+  }
+}
+
+function createContextBody(context: number, motion: boolean): Buffer {
+  const body = Buffer.alloc(20 + 24)
+  body.writeUInt32LE(context, 0)
+  // element-header 0: no timestamps or sequence numbers in the data
+  body.writeUInt32LE(1, 8) // client specs
+  body.writeUInt32LE(1, 12) // ranges
+  body.writeUInt32LE(RECORD_ALL_CLIENTS, 16)
+  // RECORDRANGE: core requests/replies, extension requests/replies (all
+  // empty), then delivered events, device events, errors, client started/died
+  const range = 20
+  body[range + 18] = DeviceEvent.KeyPress
+  body[range + 19] = motion ? DeviceEvent.MotionNotify : DeviceEvent.ButtonRelease
+  return body
+}
+
+function readDeviceEvents(reply: Buffer, onInput: (event: InputEvent) => void): void {
+  for (let offset = 32; offset + 32 <= reply.length; offset += 32) {
+    const type = reply[offset] & 0x7f
+    const code = reply[offset + 1]
+    switch (type) {
+      case DeviceEvent.KeyPress:
+      case DeviceEvent.KeyRelease:
+        onInput({ kind: "key", code, pressed: type === DeviceEvent.KeyPress })
+        break
+      case DeviceEvent.ButtonPress:
+      case DeviceEvent.ButtonRelease:
+        onInput({ kind: "button", code, pressed: type === DeviceEvent.ButtonPress })
+        break
+      case DeviceEvent.MotionNotify:
+        onInput({
+          kind: "motion",
+          x: reply.readInt16LE(offset + 20),
+          y: reply.readInt16LE(offset + 22)
+        })
+        break
+    }
+  }
+}
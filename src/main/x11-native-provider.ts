@@ -0,0 +1,301 @@
+import type { WindowRef } from "@/types/windowAttach"
+import { EventMask, X11Client, type X11Event } from "./x11-client"
+import { X11Provider, type X11Geometry } from "./x11-provider"
+
+// wait before subscribing again after the X connection closed, so a
+// restarting X server has a moment to come back
+const RECONNECT_MS = 1000
+
+// Event-driven X11 provider speaking the protocol directly over the display
+// socket. Falls back to the wmctrl/xdotool/xwininfo provider when the display
+// cannot be opened (e.g. missing Xauthority cookie).
+export class X11NativeProvider {
+  private client: Promise<X11Client | null> | null = null
+  private fallback: X11Provider
+  // per-window event mask reference counts, since selectInput replaces the whole mask
+  private masks = new Map<number, Map<number, number>>()
+
+  constructor(fallback: X11Provider = new X11Provider()) {
+    this.fallback = fallback
+  }
+
+  private connection(): Promise<X11Client | null> {
+    if (!this.client) {
+      this.client = X11Client.connect()
+        .then((c) => {
+          c.setMaxListeners(0)
+          c.on("close", () => {
+            // reconnect lazily on next use
+            this.client = null
+            this.masks.clear()
+          })
+          return c
+        })
+        .catch((err) => {
+          console.warn("Native X11 connection failed, using command line tools:", err)
+          return null
+        })
+    }
+    return this.client
+  }
+
+  async listWindows(): Promise<WindowRef[]> {
+    const c = await this.connection()
+    if (!c) return this.fallback.listWindows()
+    try {
+      const ids = await c.getWindowProperty(c.root, "_NET_CLIENT_LIST")
+      const items = await Promise.all(ids.map((id) => this.getWindow(id)))
+      return items.filter((w): w is WindowRef => w != null)
+    } catch {
+      return []
+    }
+  }
+
+  async getActiveWindow(): Promise<number | null> {
+    const c = await this.connection()
+    if (!c) return this.fallback.getActiveWindow()
+    try {
+      const [id] = await c.getWindowProperty(c.root, "_NET_ACTIVE_WINDOW")
+      return id ? id : null
+    } catch {
+      return null
+    }
+  }
+
+  async getWindow(windowId: number): Promise<WindowRef | null> {
+    const c = await this.connection()
+    if (!c) return this.fallback.getWindow(windowId)
+    try {
+      const [wmClassRaw, netName, name] = await Promise.all([
+        c.getStringProperty(windowId, "WM_CLASS"),
+        c.getStringProperty(windowId, "_NET_WM_NAME"),
+        c.getStringProperty(windowId, "WM_NAME")
+      ])
+      // WM_CLASS is "instance\0Class\0"; match wmctrl's "instance.Class" format
+      const [instance = "", cls = ""] = (wmClassRaw ?? "").split("\0")
+      const wmClass = instance && cls ? `${instance}.${cls}` : instance || cls
+      return { id: windowId, title: netName ?? name ?? "", wmClass }
+    } catch {
+      return null
+    }
+  }
+
+  async getGeometry(windowId: number): Promise<X11Geometry | null> {
+    const c = await this.connection()
+    if (!c) return this.fallback.getGeometry(windowId)
+    try {
+      const [geom, origin, mapped] = await Promise.all([
+        c.getGeometry(windowId),
+        c.translateToRoot(windowId),
+        c.isViewable(windowId)
+      ])
+      if (geom.width <= 0 || geom.height <= 0) return null
+      return { x: origin.x, y: origin.y, width: geom.width, height: geom.height, mapped }
+    } catch {
+      return null
+    }
+  }
+
+  watchGeometry(
+    windowId: number,
+    opts: { intervalMs?: number; onChange: (g: X11Geometry) => void; onMissing?: () => void }
+  ): () => void {
+    let stopped = false
+    let stopInner: (() => void) | null = null
+
+    const start = (): void => {
+      void this.connection()
+        .then((c) => {
+          if (stopped) return
+          if (!c) {
+            stopInner = this.fallback.watchGeometry(windowId, opts)
+            return
+          }
+
+          let last: X11Geometry | null = null
+          let queued = false
+          // the client window plus its window manager frames up to the root
+          let chain: number[] = []
+
+          const refresh = async (): Promise<void> => {
+            queued = false
+            const g = await this.getGeometry(windowId)
+            if (stopped) return
+            if (!g) {
+              opts.onMissing?.()
+              return
+            }
+            if (
+              !last ||
+              g.x !== last.x ||
+              g.y !== last.y ||
+              g.width !== last.width ||
+              g.height !== last.height ||
+              g.mapped !== last.mapped
+            ) {
+              last = g
+              opts.onChange(g)
+            }
+          }
+
+          // Coalesce bursts of events (a drag produces one per frame) into one query
+          const schedule = (): void => {
+            if (queued) return
+            queued = true
+            setImmediate(() => void refresh())
+          }
+
+          const subscribeChain = async (): Promise<void> => {
+            for (const w of chain) this.removeMask(c, w, EventMask.StructureNotify)
+            const next = [windowId]
+            try {
+              let current = windowId
+              for (;;) {
+                const tree = await c.queryTree(current)
+                if (!tree.parent || tree.parent === tree.root) break
+                next.push(tree.parent)
+                current = tree.parent
+              }
+            } catch {
+              // window vanished while walking the tree
+            }
+            if (stopped) return
+            chain = next
+            for (const w of chain) this.addMask(c, w, EventMask.StructureNotify)
+          }
+
+          const onEvent = (e: X11Event): void => {
+            switch (e.type) {
+              case "ConfigureNotify":
+              case "MapNotify":
+              case "UnmapNotify":
+                if (chain.includes(e.window)) schedule()
+                break
+              case "ReparentNotify":
+                if (e.window === windowId) void subscribeChain().then(schedule)
+                break
+              case "DestroyNotify":
+                if (e.window === windowId) opts.onMissing?.()
+                break
+              default:
+                break
+            }
+          }
+
+          // subscribe again on a new connection once the X server is back; a
+          // window that did not survive the restart is reported missing then
+          const onClose = (): void => {
+            stopInner = null
+            c.off("event", onEvent)
+            chain = []
+            if (!stopped) setTimeout(start, RECONNECT_MS)
+          }
+
+          c.on("event", onEvent)
+          c.once("close", onClose)
+          void subscribeChain().then(schedule)
+
+          stopInner = () => {
+            c.off("event", onEvent)
+            c.off("close", onClose)
+            for (const w of chain) this.removeMask(c, w, EventMask.StructureNotify)
+            chain = []
+          }
+        })
+        .catch((err) => console.warn("Failed to watch X11 window geometry:", err))
+    }
+    start()
+
+    return () => {
+      stopped = true
+      stopInner?.()
+      stopInner = null
+    }
+  }
+
+  // Reports the focused window id on every _NET_ACTIVE_WINDOW change
+  watchActiveWindow(onChange: (windowId: number | null) => void): () => void {
+    let stopped = false
+    let stopInner: (() => void) | null = null
+    let last: number | null | undefined = undefined
+
+    const emit = (id: number | null): void => {
+      if (stopped || id === last) return
+      last = id
+      onChange(id)
+    }
+
+    const start = (): void => {
+      void this.connection()
+        .then(async (c) => {
+          if (stopped) return
+          if (!c) {
+            const timer = setInterval(async () => {
+              emit(await this.fallback.getActiveWindow())
+            }, 250)
+            stopInner = () => clearInterval(timer)
+            return
+          }
+
+          let activeAtom = 0
+          // subscribe again on a new connection once the X server is back
+          const onClose = (): void => {
+            c.off("event", onEvent)
+            stopInner = null
+            if (!stopped) setTimeout(start, RECONNECT_MS)
+          }
+          const onEvent = (e: X11Event): void => {
+            if (e.type === "PropertyNotify" && e.window === c.root && e.atom === activeAtom) {
+              void this.getActiveWindow().then(emit)
+            }
+          }
+          c.once("close", onClose)
+          stopInner = () => c.off("close", onClose)
+
+          activeAtom = await c.internAtom("_NET_ACTIVE_WINDOW")
+          if (stopped || c.isClosed()) return
+          c.on("event", onEvent)
+          this.addMask(c, c.root, EventMask.PropertyChange)
+          stopInner = () => {
+            c.off("event", onEvent)
+            c.off("close", onClose)
+            this.removeMask(c, c.root, EventMask.PropertyChange)
+          }
+          emit(await this.getActiveWindow())
+        })
+        .catch((err) => console.warn("Failed to watch the active X11 window:", err))
+    }
+    start()
+
+    return () => {
+      stopped = true
+      stopInner?.()
+      stopInner = null
+    }
+  }
+
+  private combinedMask(window: number): number {
+    let mask = 0
+    for (const [bit, count] of this.masks.get(window) ?? []) {
+      if (count > 0) mask |= bit
+    }
+    return mask
+  }
+
+  private addMask(c: X11Client, window: number, bit: number): void {
+    const counts = this.masks.get(window) ?? new Map<number, number>()
+    counts.set(bit, (counts.get(bit) ?? 0) + 1)
+    this.masks.set(window, counts)
+    if (!c.isClosed()) c.selectInput(window, this.combinedMask(window))
+  }
+
+  private removeMask(c: X11Client, window: number, bit: number): void {
+    const counts = this.masks.get(window)
+    if (!counts) return
+    const next = (counts.get(bit) ?? 0) - 1
+    if (next > 0) counts.set(bit, next)
+    else counts.delete(bit)
+    if (counts.size === 0) this.masks.delete(window)
+    if (!c.isClosed()) c.selectInput(window, this.combinedMask(window))
+  }
+}
@@ -24,6 +24,7 @@ export class X11Provider {
   private wmctrl = "wmctrl"
   private xdotool = "xdotool"
   private xwininfo = "xwininfo"
+  private xprop = "xprop"
 
   async listWindows(): Promise<WindowRef[]> {
     try {
@@ -57,6 +58,35 @@ export class X11Provider {
     }
   }
 
+  async getWindow(windowId: number): Promise<WindowRef | null> {
+    try {
+      const { stdout } = await execFileAsync(this.xprop, [
+        "-id",
+        String(windowId),
+        "WM_CLASS",
+        "_NET_WM_NAME",
+        "WM_NAME"
+      ])
+      // Example output:
+      //   WM_CLASS(STRING) = "Navigator", "firefox"
+      //   _NET_WM_NAME(UTF8_STRING) = "Some window title"
+      let wmClass = ""
+      let title = ""
+      for (const line of stdout.split("\n")) {
+        const cls = line.match(/^WM_CLASS\([^)]*\)\s*=\s*"([^"]*)",\s*"([^"]*)"/)
+        if (cls) {
+          wmClass = `${cls[1]}.${cls[2]}`
+          continue
+        }
+        const name = line.match(/^(_NET_WM_NAME|WM_NAME)\([^)]*\)\s*=\s*"(.*)"$/)
+        if (name && (!title || name[1] === "_NET_WM_NAME")) title = name[2]
+      }
+      return { id: windowId, title, wmClass }
+    } catch {
+      return null
+    }
+  }
+
   async getGeometry(windowId: number): Promise<X11Geometry | null> {
     try {
       const { stdout } = await execFileAsync(this.xwininfo, ["-id", String(windowId)])
@@ -1,8 +1,8 @@
-import { useEffect, useMemo, useState } from "react"
+import { useCallback, useEffect, useMemo, useState } from "react"
+import type React from "react"
 import { Routes, Route } from "react-router"
 import { Crosshair } from "@/components/crosshair"
-import { CrosshairConfig } from "@/types/crosshair"
-import { defaultConfig } from "@/types/crosshair"
+import { getSettings, updateSettings } from "@/lib/storage"
 import Editor from "@/pages/editor"
 import Discover from "@/pages/discover"
 import Titlebar from "./components/titlebar"
@@ -28,34 +28,160 @@ import {
 import { Button } from "@/components/ui/button"
 import { Toaster } from "@/components/ui/sonner"
 import { toast } from "sonner"
-import { OverlayProvider } from "@/hooks/overlay"
+import { useCurrentConfig, useLibrary, useStore } from "@/hooks/store"
+import { useOverlayShown, useOverlaySize } from "@/hooks/overlay"
+import { overlayExtent } from "@/lib/crosshair"
+import { applyContrast, type ContrastAdjustment } from "@/types/contrast"
+import { widenGap, type CrosshairConfig } from "@/types/crosshair"
 
 function Overlay() {
-  const [config, setConfig] = useState<CrosshairConfig>(defaultConfig)
+  const saved = useCurrentConfig()
+  const ads = useStore((s) => s.settings.ads)
+  const spreadSettings = useStore((s) => s.settings.spread)
+  // a compact window is already placed at the offset
+  const compact = useStore((s) => s.settings.overlayWindow === "compact")
+  const [aiming, setAiming] = useState(false)
+  const [contrast, setContrast] = useState<ContrastAdjustment | null>(null)
+  const shown = useOverlayShown()
+  const [spread, setSpread] = useState(0)
+  const [weapon, setWeapon] = useState<CrosshairConfig | null>(null)
 
   useEffect(() => {
-    const listener = (_event: unknown, cfg: CrosshairConfig) => setConfig(cfg)
-    window.electron.ipcRenderer.on("overlay:config", listener as any)
+    const onAds = (_e: unknown, active: boolean): void => setAiming(active)
+    window.electron.ipcRenderer.on("overlay:ads", onAds)
+    window.electron.ipcRenderer
+      .invoke("ads:active")
+      .then((active: boolean) => setAiming(active))
+      .catch(() => {})
     return () => {
-      window.electron.ipcRenderer.removeListener("overlay:config", listener as any)
+      window.electron.ipcRenderer.removeListener("overlay:ads", onAds)
     }
   }, [])
 
   useEffect(() => {
-    const savedRaw = localStorage.getItem("currentConfig")
-    if (savedRaw) {
-      try {
-        const saved = JSON.parse(savedRaw) as Partial<CrosshairConfig>
-        const merged = { ...defaultConfig, ...saved }
-        setConfig(merged)
-        if (merged.overlayDisplayId) {
-          window.electron.ipcRenderer.invoke("overlay:set-display", merged.overlayDisplayId)
-        }
-      } catch {}
+    const onContrast = (_e: unknown, next: ContrastAdjustment | null): void => setContrast(next)
+    window.electron.ipcRenderer.on("overlay:contrast", onContrast)
+    window.electron.ipcRenderer
+      .invoke("contrast:adjustment")
+      .then((next: ContrastAdjustment | null) => setContrast(next))
+      .catch(() => {})
+    return () => {
+      window.electron.ipcRenderer.removeListener("overlay:contrast", onContrast)
     }
   }, [])
 
-  return <Crosshair config={config} />
+  useEffect(() => {
+    const onSpread = (_e: unknown, gap: number): void => setSpread(gap)
+    window.electron.ipcRenderer.on("overlay:spread", onSpread)
+    window.electron.ipcRenderer
+      .invoke("spread:gap")
+      .then((gap: number) => setSpread(gap))
+      .catch(() => {})
+    return () => {
+      window.electron.ipcRenderer.removeListener("overlay:spread", onSpread)
+    }
+  }, [])
+
+  useEffect(() => {
+    const onWeapon = (_e: unknown, next: CrosshairConfig | null): void => setWeapon(next)
+    window.electron.ipcRenderer.on("overlay:weapon", onWeapon)
+    window.electron.ipcRenderer
+      .invoke("gsi:weapon-crosshair")
+      .then((next: CrosshairConfig | null) => setWeapon(next))
+      .catch(() => {})
+    return () => {
+      window.electron.ipcRenderer.removeListener("overlay:weapon", onWeapon)
+    }
+  }, [])
+
+  // The held weapon's crosshair (CS2 game state) takes the place of the
+  // current one, keeping its position
+  const current = useMemo(
+    () =>
+      weapon
+        ? {
+            ...weapon,
+            enabled: saved.enabled,
+            overlayDisplayId: saved.overlayDisplayId,
+            offsetX: saved.offsetX,
+            offsetY: saved.offsetY
+          }
+        : saved,
+    [weapon, saved]
+  )
+
+  // adaptive contrast and dynamic spread apply to whichever crosshair is showing
+  const adjust = useCallback(
+    (c: CrosshairConfig): CrosshairConfig => {
+      const recolored = applyContrast(c, contrast)
+      return spread > 0 ? widenGap(recolored, spread) : recolored
+    },
+    [contrast, spread]
+  )
+  const config = useMemo(
+    () => adjust(compact ? { ...current, offsetX: 0, offsetY: 0 } : current),
+    [adjust, current, compact]
+  )
+
+  // The ADS crosshair takes the hipfire position. Both stay mounted and only
+  // their visibility changes, so swapping does not flicker.
+  const adsConfig = useMemo(
+    () =>
+      adjust({
+        ...ads.config,
+        enabled: config.enabled,
+        overlayDisplayId: config.overlayDisplayId,
+        offsetX: config.offsetX,
+        offsetY: config.offsetY
+      }),
+    [ads.config, config.enabled, config.overlayDisplayId, config.offsetX, config.offsetY, adjust]
+  )
+  const showAds = ads.enabled && aiming
+
+  // sized for the widest the crosshairs get, so the window does not resize
+  // with every spread or animation frame
+  const spreadMax = spreadSettings.enabled ? spreadSettings.maxGap : 0
+  useOverlaySize(
+    Math.max(
+      overlayExtent(current, spreadMax),
+      ads.enabled && !ads.hide ? overlayExtent(ads.config, spreadMax) : 0
+    )
+  )
+
+  return (
+    <>
+      <div style={{ visibility: showAds ? "hidden" : "visible" }}>
+        <Crosshair config={config} paused={!shown || showAds} />
+      </div>
+      {ads.enabled && !ads.hide && (
+        <div style={{ visibility: showAds ? "visible" : "hidden" }}>
+          <Crosshair config={adsConfig} paused={!shown || !showAds} />
+        </div>
+      )}
+    </>
+  )
+}
+
+// A crosshair on a display of its own (see types/overlays.ts). Only the main
+// overlay reacts to ADS, contrast and spread.
+function DisplayOverlay({ displayId }: { displayId: number }): React.ReactElement {
+  const current = useCurrentConfig()
+  const library = useLibrary()
+  const overlay = useStore((s) => s.settings.displayOverlays.find((o) => o.displayId === displayId))
+  const compact = useStore((s) => s.settings.overlayWindow === "compact")
+  const shown = useOverlayShown()
+  // a deleted library crosshair falls back to the current one
+  const source = library.find((item) => item.id === overlay?.libraryItemId)?.config ?? current
+  const config = useMemo(
+    () =>
+      compact
+        ? { ...source, offsetX: 0, offsetY: 0 }
+        : { ...source, offsetX: overlay?.offsetX ?? 0, offsetY: overlay?.offsetY ?? 0 },
+    [source, overlay?.offsetX, overlay?.offsetY, compact]
+  )
+  useOverlaySize(overlayExtent(source))
+
+  return <Crosshair config={config} paused={!shown} />
 }
 
 function RoutedApp() {
@@ -64,15 +190,10 @@ function RoutedApp() {
   const [isDownloading, setIsDownloading] = useState(false)
   const [downloadPercent, setDownloadPercent] = useState<number>(0)
   const isDownloaded = useMemo(() => downloadPercent >= 100, [downloadPercent])
-  const [onboardingOpen, setOnboardingOpen] = useState(false)
-
-  useEffect(() => {
-    const seen = localStorage.getItem("onboardingSeen")
-    if (!seen) setOnboardingOpen(true)
-  }, [])
+  const [onboardingOpen, setOnboardingOpen] = useState(() => !getSettings().onboardingSeen)
 
   const handleDismissOnboarding = () => {
-    localStorage.setItem("onboardingSeen", "true")
+    updateSettings({ onboardingSeen: true })
     setOnboardingOpen(false)
   }
 
@@ -197,23 +318,10 @@ function RoutedApp() {
 function App() {
   const params = new URLSearchParams(window.location.search)
   const isOverlay = params.get("overlay") === "1"
+  const displayId = params.get("display")
 
-  useEffect(() => {
-    if (!isOverlay) {
-      const discordRpcDisabled = localStorage.getItem("discordRpcDisabled")
-      if (discordRpcDisabled !== "1" && discordRpcDisabled !== "true") {
-        window.electron.ipcRenderer.invoke("start-discord-rpc").catch(() => {})
-      }
-    }
-  }, [isOverlay])
-
-  return isOverlay ? (
-    <Overlay />
-  ) : (
-    <OverlayProvider>
-      <RoutedApp />
-    </OverlayProvider>
-  )
+  if (isOverlay && displayId) return <DisplayOverlay displayId={Number(displayId)} />
+  return isOverlay ? <Overlay /> : <RoutedApp />
 }
 
 export default App
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react"
+import type React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { CrosshairPreview } from "@/components/crosshair"
+import { adsBindings, type AdsSettings, type AdsStatus } from "@/types/ads"
+import { useCurrentConfig, useLibrary, useSettings } from "@/hooks/store"
+import { updateSettings } from "@/lib/storage"
+
+function AdsCard(): React.ReactElement {
+  const { ads } = useSettings()
+  const library = useLibrary()
+  const current = useCurrentConfig()
+  const [status, setStatus] = useState<AdsStatus | null>(null)
+
+  useEffect(() => {
+    window.electron.ipcRenderer
+      .invoke("ads:status")
+      .then((next: AdsStatus) => setStatus(next))
+      .catch(() => {})
+    const onStatus = (_e: unknown, next: AdsStatus): void => setStatus(next)
+    window.electron.ipcRenderer.on("ads:status", onStatus)
+    return () => {
+      window.electron.ipcRenderer.removeListener("ads:status", onStatus)
+    }
+  }, [])
+
+  const update = (patch: Partial<AdsSettings>): void => {
+    updateSettings({ ads: { ...ads, ...patch } })
+  }
+
+  const supported = status?.supported ?? true
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Aim Down Sights</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Switch crosshair while aiming</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              {supported
+                ? "Shows a second crosshair while the aim button is held."
+                : "Needs an X11 session on Linux to detect held buttons."}
+            </p>
+          </div>
+          <Switch
+            checked={ads.enabled}
+            disabled={!supported}
+            onCheckedChange={(v) => update({ enabled: !!v })}
+          />
+        </div>
+
+        {ads.enabled && (
+          <>
+            <div className="flex items-center justify-between">
+              <Label>Aim button</Label>
+              <Select value={ads.binding} onValueChange={(binding) => update({ binding })}>
+                <SelectTrigger size="sm" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(adsBindings).map(([id, label]) => (
+                    <SelectItem key={id} value={id}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label>Hide the crosshair while aiming</Label>
+              <Switch checked={ads.hide} onCheckedChange={(v) => update({ hide: !!v })} />
+            </div>
+
+            {!ads.hide && (
+              <div className="flex items-center gap-4">
+                <div className="rounded-md border bg-muted/40">
+                  <CrosshairPreview config={ads.config} size={64} />
+                </div>
+                <div className="flex flex-1 flex-wrap items-center gap-2">
+                  <Select
+                    value={ads.libraryItemId ?? undefined}
+                    onValueChange={(id) => {
+                      const item = library.find((i) => i.id === id)
+                      if (item) update({ libraryItemId: item.id, config: item.config })
+                    }}
+                  >
+                    <SelectTrigger size="sm" className="w-56">
+                      <SelectValue placeholder="Choose an ADS crosshair" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {library.map((item) => (
+                        <SelectItem key={item.id} value={item.id}>
+                          {item.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => update({ libraryItemId: null, config: current })}
+                  >
+                    Use current crosshair
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {status?.error && <p className="text-sm text-destructive">{status.error}</p>}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default AdsCard
@@ -0,0 +1,219 @@
+import type React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { ANIMATION_DEFAULTS } from "@/lib/animation"
+import { isAnimated, type CrosshairConfig } from "@/types/crosshair"
+
+type RateKey = "pulseRate" | "spinSpeed" | "hueCycleRate" | "breatheRate" | "blinkRate"
+
+// What an animation starts at when switched on
+const STARTING_RATES: Record<RateKey, number> = {
+  pulseRate: 1,
+  spinSpeed: 90,
+  hueCycleRate: 0.25,
+  breatheRate: 1,
+  blinkRate: 2
+}
+
+function SliderRow({
+  label,
+  value,
+  onChange,
+  min,
+  max,
+  step,
+  format
+}: {
+  label: string
+  value: number
+  onChange: (value: number) => void
+  min: number
+  max: number
+  step: number
+  format: (value: number) => string
+}): React.ReactElement {
+  return (
+    <div className="gap-3 flex flex-col">
+      <div className="flex justify-between">
+        <Label>{label}</Label>
+        <span className="text-sm text-muted-foreground">{format(value)}</span>
+      </div>
+      <Slider
+        value={[value]}
+        onValueChange={(val) => onChange(val[0])}
+        min={min}
+        max={max}
+        step={step}
+      />
+    </div>
+  )
+}
+
+const perSecond = (v: number): string => `${v.toFixed(2)} / s`
+const percent = (v: number): string => `${Math.round(v * 100)}%`
+
+function AnimationCard({
+  config,
+  setConfig
+}: {
+  config: CrosshairConfig
+  setConfig: (update: (c: CrosshairConfig) => CrosshairConfig) => void
+}): React.ReactElement {
+  const update = (patch: Partial<CrosshairConfig>): void => {
+    setConfig((c) => ({ ...c, ...patch }))
+  }
+
+  const toggle = (key: RateKey, label: string, children: React.ReactNode): React.ReactElement => (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <Switch
+          checked={!!config[key]}
+          onCheckedChange={(v) => update({ [key]: v ? STARTING_RATES[key] : undefined })}
+        />
+      </div>
+      {!!config[key] && children}
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Animation</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Animations play on the overlay only; the preview stays still.
+        </p>
+
+        {toggle(
+          "pulseRate",
+          "Pulse",
+          <>
+            <SliderRow
+              label="Pulse speed"
+              value={config.pulseRate ?? 0}
+              onChange={(v) => update({ pulseRate: v })}
+              min={0.1}
+              max={5}
+              step={0.1}
+              format={perSecond}
+            />
+            <SliderRow
+              label="Lowest opacity"
+              value={config.pulseOpacity ?? ANIMATION_DEFAULTS.pulseOpacity}
+              onChange={(v) => update({ pulseOpacity: v })}
+              min={0}
+              max={1}
+              step={0.05}
+              format={percent}
+            />
+            <SliderRow
+              label="Largest size"
+              value={config.pulseScale ?? ANIMATION_DEFAULTS.pulseScale}
+              onChange={(v) => update({ pulseScale: v })}
+              min={0.5}
+              max={2}
+              step={0.05}
+              format={percent}
+            />
+          </>
+        )}
+
+        {toggle(
+          "spinSpeed",
+          "Spin",
+          <SliderRow
+            label="Spin speed"
+            value={config.spinSpeed ?? 0}
+            onChange={(v) => update({ spinSpeed: v })}
+            min={-720}
+            max={720}
+            step={15}
+            format={(v) => `${v}° / s`}
+          />
+        )}
+
+        {toggle(
+          "hueCycleRate",
+          "Color cycle",
+          <SliderRow
+            label="Cycle speed"
+            value={config.hueCycleRate ?? 0}
+            onChange={(v) => update({ hueCycleRate: v })}
+            min={0.05}
+            max={2}
+            step={0.05}
+            format={perSecond}
+          />
+        )}
+
+        {toggle(
+          "breatheRate",
+          "Breathing gap",
+          <>
+            <SliderRow
+              label="Breathing speed"
+              value={config.breatheRate ?? 0}
+              onChange={(v) => update({ breatheRate: v })}
+              min={0.1}
+              max={5}
+              step={0.1}
+              format={perSecond}
+            />
+            <SliderRow
+              label="Widest gap"
+              value={config.breatheGap ?? ANIMATION_DEFAULTS.breatheGap}
+              onChange={(v) => update({ breatheGap: v })}
+              min={1}
+              max={30}
+              step={1}
+              format={(v) => `+${v} px`}
+            />
+          </>
+        )}
+
+        {toggle(
+          "blinkRate",
+          "Blink",
+          <>
+            <SliderRow
+              label="Blink speed"
+              value={config.blinkRate ?? 0}
+              onChange={(v) => update({ blinkRate: v })}
+              min={0.5}
+              max={10}
+              step={0.5}
+              format={perSecond}
+            />
+            <SliderRow
+              label="Time shown"
+              value={config.blinkDuty ?? ANIMATION_DEFAULTS.blinkDuty}
+              onChange={(v) => update({ blinkDuty: v })}
+              min={0.1}
+              max={0.9}
+              step={0.05}
+              format={percent}
+            />
+          </>
+        )}
+
+        {isAnimated(config) && (
+          <SliderRow
+            label="Frame rate limit"
+            value={config.animationFps ?? ANIMATION_DEFAULTS.animationFps}
+            onChange={(v) => update({ animationFps: v })}
+            min={10}
+            max={120}
+            step={5}
+            format={(v) => `${v} fps`}
+          />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default AnimationCard
@@ -0,0 +1,128 @@
+import { useState } from "react"
+import type React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import {
+  armGeometry,
+  armKeys,
+  crosshairArms,
+  hasArmOverrides,
+  type ArmGeometry,
+  type CrosshairArm,
+  type CrosshairConfig
+} from "@/types/crosshair"
+
+const armLabels: Record<CrosshairArm, string> = {
+  top: "Top",
+  right: "Right",
+  bottom: "Bottom",
+  left: "Left"
+}
+
+// Same ranges as the shared sliders in the Appearance card
+const sliders: {
+  key: "length" | "thickness" | "gap"
+  label: string
+  min: number
+  max: number
+}[] = [
+  { key: "length", label: "Length", min: 2, max: 50 },
+  { key: "thickness", label: "Thickness", min: 1, max: 10 },
+  { key: "gap", label: "Gap", min: 0, max: 50 }
+]
+
+function ArmsCard({
+  config,
+  setConfig
+}: {
+  config: CrosshairConfig
+  setConfig: (update: (c: CrosshairConfig) => CrosshairConfig) => void
+}): React.ReactElement {
+  const [linked, setLinked] = useState(true)
+  // an imported or loaded crosshair with overrides always shows them
+  const showArms = !linked || hasArmOverrides(config)
+
+  const setArm = <K extends keyof ArmGeometry>(
+    arm: CrosshairArm,
+    key: K,
+    value: ArmGeometry[K]
+  ): void => {
+    setConfig((c) => ({ ...c, [armKeys[arm][key]]: value }))
+  }
+
+  const linkArms = (link: boolean): void => {
+    setLinked(link)
+    if (!link) return
+    // back to the shared length, thickness and gap
+    setConfig((c) => {
+      const next: CrosshairConfig = { ...c }
+      for (const arm of crosshairArms) {
+        delete next[armKeys[arm].length]
+        delete next[armKeys[arm].thickness]
+        delete next[armKeys[arm].gap]
+      }
+      return next
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Arms</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          {crosshairArms.map((arm) => (
+            <div key={arm} className="flex items-center justify-between">
+              <Label>Show {armLabels[arm].toLowerCase()}</Label>
+              <Switch
+                checked={armGeometry(config, arm).enabled}
+                onCheckedChange={(checked) => setArm(arm, "enabled", !!checked)}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Link all arms</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Every arm uses the length, thickness and gap from Appearance.
+            </p>
+          </div>
+          <Switch checked={!showArms} onCheckedChange={(checked) => linkArms(!!checked)} />
+        </div>
+
+        {showArms &&
+          crosshairArms.map((arm) => {
+            const geometry = armGeometry(config, arm)
+            return (
+              <div key={arm} className="space-y-3">
+                <Label className="font-semibold">{armLabels[arm]}</Label>
+                {sliders.map(({ key, label, min, max }) => (
+                  <div key={key} className="gap-3 flex flex-col">
+                    <div className="flex justify-between">
+                      <Label className="font-normal">{label}</Label>
+                      <span className="text-sm text-muted-foreground">{geometry[key]}</span>
+                    </div>
+                    <Slider
+                      value={[geometry[key]]}
+                      onValueChange={(val) => setArm(arm, key, val[0])}
+                      min={min}
+                      max={max}
+                      step={1}
+                      disabled={!geometry.enabled}
+                    />
+                  </div>
+                ))}
+              </div>
+            )
+          })}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ArmsCard
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react"
+import type React from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { codeFormats, type CodeDecodeResult } from "@/types/codes"
+
+type DecodedCode = Extract<CodeDecodeResult, { ok: true }>
+
+const formatNames = Object.values(codeFormats)
+const formatList = `${formatNames.slice(0, -1).join(", ")} or ${formatNames[formatNames.length - 1]}`
+
+function CodeImportDialog({
+  open,
+  onOpenChange,
+  onImport
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImport: (result: DecodedCode) => void
+}): React.ReactElement {
+  const [text, setText] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setText("")
+    setError(null)
+  }, [open])
+
+  const submit = async (): Promise<void> => {
+    const result = (await window.electron.ipcRenderer.invoke(
+      "config:decode-code",
+      text.trim()
+    )) as CodeDecodeResult
+    if (!result.ok) {
+      setError(result.error)
+      return
+    }
+    onImport(result)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import crosshair code</DialogTitle>
+          <DialogDescription>Paste a {formatList}.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-1">
+          <Label htmlFor="crosshair-code">Code</Label>
+          <textarea
+            id="crosshair-code"
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value)
+              setError(null)
+            }}
+            placeholder="0;P;c;5;h;0;0l;4;0o;2;0a;1;0f;0;1b;0"
+            rows={5}
+            aria-invalid={!!error}
+            className={cn(
+              "placeholder:text-muted-foreground dark:bg-input/30 border-input w-full rounded-md border bg-transparent px-3 py-2 font-mono text-xs shadow-xs outline-none resize-none",
+              "focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]",
+              "aria-invalid:border-destructive"
+            )}
+          />
+          {error && <p className="text-xs text-destructive whitespace-pre-line">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!text.trim()} onClick={() => void submit()}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default CodeImportDialog
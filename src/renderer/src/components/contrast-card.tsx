@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react"
+import type React from "react"
+import { Plus, X } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import {
+  CONTRAST_RATE,
+  CONTRAST_REGION,
+  MAX_CONTRAST_PALETTE,
+  contrastTargets,
+  type ContrastSettings,
+  type ContrastStatus,
+  type ContrastTarget
+} from "@/types/contrast"
+import { useSettings } from "@/hooks/store"
+import { updateSettings } from "@/lib/storage"
+
+function Swatch({ color }: { color: string }): React.ReactElement {
+  return (
+    <span
+      className="inline-block size-3 rounded-sm border align-middle"
+      style={{ backgroundColor: color }}
+    />
+  )
+}
+
+function ContrastCard(): React.ReactElement {
+  const { contrast } = useSettings()
+  const [status, setStatus] = useState<ContrastStatus | null>(null)
+
+  useEffect(() => {
+    window.electron.ipcRenderer
+      .invoke("contrast:status")
+      .then((next: ContrastStatus) => setStatus(next))
+      .catch(() => {})
+    const onStatus = (_e: unknown, next: ContrastStatus): void => setStatus(next)
+    window.electron.ipcRenderer.on("contrast:status", onStatus)
+    return () => {
+      window.electron.ipcRenderer.removeListener("contrast:status", onStatus)
+    }
+  }, [])
+
+  const update = (patch: Partial<ContrastSettings>): void => {
+    updateSettings({ contrast: { ...contrast, ...patch } })
+  }
+
+  const setPaletteColor = (index: number, color: string): void => {
+    update({ palette: contrast.palette.map((c, i) => (i === index ? color.toUpperCase() : c)) })
+  }
+
+  const supported = status?.supported ?? true
+
+  const statusText = (): React.ReactNode => {
+    if (!status) return null
+    if (status.error) return <span className="text-destructive">{status.error}</span>
+    if (status.paused) return "Paused while the crosshair is hidden"
+    if (!status.background || !status.picked) return "Sampling…"
+    return (
+      <>
+        Background <Swatch color={status.background} /> {status.background}, using{" "}
+        <Swatch color={status.picked} /> {status.picked}
+      </>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Adaptive Contrast</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Match the crosshair to the background</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              {supported
+                ? "Samples the screen behind the crosshair and switches to the palette color that stands out most."
+                : "Needs an X11 session on Linux, since Wayland asks for permission on every capture."}
+            </p>
+          </div>
+          <Switch
+            checked={contrast.enabled}
+            disabled={!supported}
+            onCheckedChange={(v) => update({ enabled: !!v })}
+          />
+        </div>
+
+        {contrast.enabled && (
+          <>
+            <div className="flex items-center justify-between">
+              <Label>Recolor</Label>
+              <Select
+                value={contrast.target}
+                onValueChange={(target) => update({ target: target as ContrastTarget })}
+              >
+                <SelectTrigger size="sm" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(contrastTargets).map(([id, label]) => (
+                    <SelectItem key={id} value={id}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="gap-3 flex flex-col">
+              <div className="flex justify-between">
+                <Label>Samples per second</Label>
+                <span className="text-sm text-muted-foreground">{contrast.rate}</span>
+              </div>
+              <Slider
+                value={[contrast.rate]}
+                onValueChange={(val) => update({ rate: val[0] })}
+                min={CONTRAST_RATE.min}
+                max={CONTRAST_RATE.max}
+                step={1}
+              />
+            </div>
+
+            <div className="gap-3 flex flex-col">
+              <div className="flex justify-between">
+                <Label>Sampled area</Label>
+                <span className="text-sm text-muted-foreground">
+                  {contrast.regionSize} × {contrast.regionSize} px
+                </span>
+              </div>
+              <Slider
+                value={[contrast.regionSize]}
+                onValueChange={(val) => update({ regionSize: val[0] })}
+                min={CONTRAST_REGION.min}
+                max={CONTRAST_REGION.max}
+                step={4}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Palette</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                {contrast.palette.map((color, index) => (
+                  <div key={index} className="flex items-center">
+                    <Input
+                      type="color"
+                      value={color}
+                      onChange={(e) => setPaletteColor(index, e.target.value)}
+                      className="w-10 h-8 p-0 border-none cursor-pointer"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-6"
+                      disabled={contrast.palette.length <= 2}
+                      onClick={() =>
+                        update({ palette: contrast.palette.filter((_, i) => i !== index) })
+                      }
+                      aria-label={`Remove ${color}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={contrast.palette.length >= MAX_CONTRAST_PALETTE}
+                  onClick={() => update({ palette: [...contrast.palette, "#FFFFFF"] })}
+                >
+                  <Plus className="w-4 h-4 mr-1" /> Add color
+                </Button>
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">{statusText()}</p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ContrastCard
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react"
+import type React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Button } from "@/components/ui/button"
+import { Copy, RefreshCw } from "lucide-react"
+import { toast } from "sonner"
+import type { ControlStatus } from "@/types/control"
+import { useSettings } from "@/hooks/store"
+import { updateSettings } from "@/lib/storage"
+
+function ControlServerCard(): React.ReactElement {
+  const { controlServer } = useSettings()
+  const [status, setStatus] = useState<ControlStatus | null>(null)
+  const [port, setPort] = useState(String(controlServer.port))
+
+  useEffect(() => {
+    window.electron.ipcRenderer
+      .invoke("control:status")
+      .then((next: ControlStatus) => setStatus(next))
+      .catch(() => {})
+    const onStatus = (_e: unknown, next: ControlStatus): void => setStatus(next)
+    window.electron.ipcRenderer.on("control:status", onStatus)
+    return () => {
+      window.electron.ipcRenderer.removeListener("control:status", onStatus)
+    }
+  }, [])
+
+  useEffect(() => setPort(String(controlServer.port)), [controlServer.port])
+
+  const commitPort = (): void => {
+    const next = Number(port)
+    if (!Number.isInteger(next) || next < 1024 || next > 65535) {
+      toast.error("Port must be between 1024 and 65535")
+      setPort(String(controlServer.port))
+      return
+    }
+    if (next !== controlServer.port) {
+      updateSettings({ controlServer: { ...controlServer, port: next } })
+    }
+  }
+
+  const copyToken = async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(controlServer.token)
+      toast.success("Token copied")
+    } catch {
+      toast.error("Could not copy the token")
+    }
+  }
+
+  const regenerateToken = async (): Promise<void> => {
+    try {
+      await window.electron.ipcRenderer.invoke("control:regenerate-token")
+      toast.success("New token generated. Update your scripts and plugins.")
+    } catch {
+      toast.error("Could not generate a new token")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Control API</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Enable local control server</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Lets Stream Deck plugins and scripts on this computer control Dotline.
+            </p>
+          </div>
+          <Switch
+            checked={controlServer.enabled}
+            onCheckedChange={(v) =>
+              updateSettings({ controlServer: { ...controlServer, enabled: !!v } })
+            }
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="control-port">Port</Label>
+          <Input
+            id="control-port"
+            className="w-28 font-mono"
+            inputMode="numeric"
+            value={port}
+            onChange={(e) => setPort(e.target.value)}
+            onBlur={commitPort}
+            onKeyDown={(e) => e.key === "Enter" && commitPort()}
+          />
+        </div>
+
+        {controlServer.token && (
+          <div className="space-y-2">
+            <Label>Token</Label>
+            <div className="flex items-center gap-2">
+              <Input readOnly className="font-mono text-xs" value={controlServer.token} />
+              <Button
+                variant="outline"
+                size="icon"
+                title="Copy token"
+                onClick={() => void copyToken()}
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                title="Generate a new token"
+                onClick={() => void regenerateToken()}
+              >
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {controlServer.enabled && status && (
+          <p className="text-sm text-muted-foreground">
+            {status.running
+              ? `Listening on http://127.0.0.1:${status.port}`
+              : (status.error ?? "Starting…")}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ControlServerCard
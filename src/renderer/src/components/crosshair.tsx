@@ -1,45 +1,38 @@
-import { useMemo } from "react"
-import type { CrosshairConfig } from "../../../types/crosshair"
+import { useId, useMemo } from "react"
+import type React from "react"
+import {
+  armGeometry,
+  crosshairArms,
+  isAnimated,
+  parseViewBox,
+  type CrosshairArm,
+  type CrosshairConfig,
+  type CrosshairLayer,
+  type OutlineJoin,
+  type OutlinePosition
+} from "../../../types/crosshair"
+import { crosshairSize, scaleConfigToFit } from "@/lib/crosshair"
+import { ANIMATION_DEFAULTS, animationFrame } from "@/lib/animation"
+import { useAnimationClock } from "@/hooks/animation"
 
 export function Crosshair({
-  config,
-  mode = "overlay"
+  config: source,
+  mode = "overlay",
+  paused = false
 }: {
   config: CrosshairConfig
   mode?: "overlay" | "embed"
+  // stops animations, for crosshairs that are not on screen
+  paused?: boolean
 }) {
-  const outlineWithOpacity =
-    config.outline && config.outlineColor
-      ? hexToRgba(config.outlineColor, config.outlineOpacity ?? 1)
-      : undefined
-
-  const renderRect = (x: number, y: number, width: number, height: number, rotate?: number) => {
-    const outlineThickness = config.outlineThickness ?? 1
-    const hasOutline = config.outline && config.outlineColor
-
-    return (
-      <>
-        {hasOutline && (
-          <rect
-            x={x - outlineThickness / 2}
-            y={y - outlineThickness / 2}
-            width={width + outlineThickness}
-            height={height + outlineThickness}
-            fill={hexToRgba(config.outlineColor!, config.outlineOpacity ?? 1)}
-            transform={rotate ? `rotate(${rotate} ${center} ${center})` : undefined}
-          />
-        )}
-        <rect
-          x={x}
-          y={y}
-          width={width}
-          height={height}
-          fill={colorWithOpacity}
-          transform={rotate ? `rotate(${rotate} ${center} ${center})` : undefined}
-        />
-      </>
-    )
-  }
+  // animations only play on the overlay
+  const animated = mode === "overlay" && !paused && source.enabled && isAnimated(source)
+  const seconds = useAnimationClock(
+    animated,
+    source.animationFps ?? ANIMATION_DEFAULTS.animationFps
+  )
+  const frame = animated ? animationFrame(source, seconds) : null
+  const config = frame?.config ?? source
 
   const style = useMemo(() => {
     const isEmbed = mode === "embed"
@@ -66,46 +59,55 @@ export function Crosshair({
 
   if (!config.enabled) return null
 
-  const colorWithOpacity = hexToRgba(config.color, config.opacity)
-
   // calculate center
-  const size = Math.max((config.length + config.gap) * 2 + config.thickness * 2, 64)
+  const size = crosshairSize(config)
   const center = size / 2
+  // layers replace the style and center dot
+  const layers = config.layers?.length ? config.layers : null
+  const shape = layers ? null : config.style
+  const outline = config.outline ? styleOutline(config) : undefined
 
-  const renderCenterDot = () => {
-    if (!config.centerDot) return null
-    const dotColor = hexToRgba(
-      config.centerDotColor ?? config.color,
-      config.centerDotOpacity ?? config.opacity
-    )
-    const dotSize = config.centerDotSize ?? Math.max(1, config.thickness / 2)
-
-    const centerDotOutlineEnabled = !!config.centerDotOutline
-    const centerDotStroke = centerDotOutlineEnabled
-      ? hexToRgba(config.centerDotOutlineColor ?? "#000000", config.centerDotOutlineOpacity ?? 1)
-      : undefined
-    const centerDotStrokeWidth = centerDotOutlineEnabled
-      ? (config.centerDotOutlineThickness ?? 1)
-      : undefined
+  const classicArms = (paint: Paint): React.ReactElement => (
+    <>
+      {crosshairArms.map((arm) => {
+        const geometry = armGeometry(config, arm)
+        return geometry.enabled ? (
+          <rect key={arm} {...armRect(arm, center, center, geometry)} {...paint} />
+        ) : null
+      })}
+    </>
+  )
 
-    return config.centerDotShape === "square" ? (
-      <rect
-        x={center - dotSize / 2}
-        y={center - dotSize / 2}
-        width={dotSize}
-        height={dotSize}
-        fill={dotColor}
-        stroke={centerDotStroke}
-        strokeWidth={centerDotStrokeWidth}
-      />
-    ) : (
-      <circle
-        cx={center}
-        cy={center}
-        r={dotSize}
-        fill={dotColor}
-        stroke={centerDotStroke}
-        strokeWidth={centerDotStrokeWidth}
+  const renderCenterDot = (): React.ReactElement | null => {
+    if (!config.centerDot || layers) return null
+    const dotSize = config.centerDotSize ?? Math.max(1, config.thickness / 2)
+    const dot = (paint: Paint): React.ReactElement =>
+      config.centerDotShape === "square" ? (
+        <rect
+          x={center - dotSize / 2}
+          y={center - dotSize / 2}
+          width={dotSize}
+          height={dotSize}
+          {...paint}
+        />
+      ) : (
+        <circle cx={center} cy={center} r={dotSize} {...paint} />
+      )
+    return (
+      <Outlined
+        shape={dot}
+        color={config.centerDotColor ?? config.color}
+        opacity={config.centerDotOpacity ?? config.opacity}
+        outline={
+          config.centerDotOutline
+            ? {
+                ...styleOutline(config),
+                color: config.centerDotOutlineColor ?? "#000000",
+                thickness: config.centerDotOutlineThickness ?? 1,
+                opacity: config.centerDotOutlineOpacity ?? 1
+              }
+            : undefined
+        }
       />
     )
   }
@@ -123,110 +125,392 @@ export function Crosshair({
                 top: "50%",
                 transform: `translate(-50%, -50%) translate(${config.offsetX ?? 0}px, ${config.offsetY ?? 0}px)`
               }
-            : { position: "absolute", left: "50%", top: "50%", transform: "translate(-50%, -50%)" }
+            : {
+                position: "absolute",
+                left: "50%",
+                top: "50%",
+                transform: frame
+                  ? `translate(-50%, -50%) rotate(${frame.rotation}deg) scale(${frame.scale})`
+                  : "translate(-50%, -50%)",
+                opacity: frame?.opacity
+              }
         }
       >
-        {config.style === "classic" && (
-          <>
-            {renderRect(
-              center - config.gap - config.length,
-              center - config.thickness / 2,
-              config.length,
-              config.thickness
-            )}
-            {renderRect(
-              center + config.gap,
-              center - config.thickness / 2,
-              config.length,
-              config.thickness
-            )}
-            {renderRect(
-              center - config.thickness / 2,
-              center - config.gap - config.length,
-              config.thickness,
-              config.length
-            )}
-            {renderRect(
-              center - config.thickness / 2,
-              center + config.gap,
-              config.thickness,
-              config.length
-            )}
-          </>
+        {shape === "classic" && (
+          <Outlined
+            shape={classicArms}
+            color={config.color}
+            opacity={config.opacity}
+            outline={outline}
+          />
         )}
 
-        {config.style === "dot" && (
-          <circle
-            cx={center}
-            cy={center}
-            r={Math.max(1, config.thickness)}
-            fill={colorWithOpacity}
-            stroke={outlineWithOpacity}
-            strokeWidth={config.outlineThickness ?? 1}
+        {shape === "dot" && (
+          <Outlined
+            shape={(paint) => (
+              <circle cx={center} cy={center} r={Math.max(1, config.thickness)} {...paint} />
+            )}
+            color={config.color}
+            opacity={config.opacity}
+            outline={outline}
           />
         )}
 
-        {config.style === "circle" && (
-          <circle
-            cx={center}
-            cy={center}
-            r={config.gap + Math.max(2, config.length)}
-            stroke={colorWithOpacity}
+        {shape === "circle" && (
+          <Outlined
+            shape={(paint) => (
+              <circle
+                cx={center}
+                cy={center}
+                r={config.gap + Math.max(2, config.length)}
+                {...paint}
+              />
+            )}
+            color={config.color}
+            opacity={config.opacity}
+            outline={outline}
             strokeWidth={config.thickness}
-            fill="none"
           />
         )}
 
-        {config.style === "x" && (
-          <>
-            {renderRect(
-              center - config.thickness / 2,
-              center - config.length - config.gap,
-              config.thickness,
-              config.length,
-              45
-            )}
-            {renderRect(
-              center - config.thickness / 2,
-              center + config.gap,
-              config.thickness,
-              config.length,
-              45
-            )}
-            {renderRect(
-              center - config.thickness / 2,
-              center - config.length - config.gap,
-              config.thickness,
-              config.length,
-              -45
-            )}
-            {renderRect(
-              center - config.thickness / 2,
-              center + config.gap,
-              config.thickness,
-              config.length,
-              -45
-            )}
-          </>
+        {shape === "x" && (
+          <Outlined
+            shape={(paint) => diagonalArms(center, center, config, paint)}
+            color={config.color}
+            opacity={config.opacity}
+            outline={outline}
+          />
         )}
 
-        {config.style === "image" && config.imageUrl && (
-          <image
+        {shape === "image" && config.imageUrl && (
+          <OutlinedImage
             href={config.imageUrl}
             x={center - (config.imageSize ?? 32) / 2}
             y={center - (config.imageSize ?? 32) / 2}
-            width={config.imageSize ?? 32}
-            height={config.imageSize ?? 32}
+            size={config.imageSize ?? 32}
             opacity={config.opacity}
+            outline={outline}
           />
         )}
 
+        {shape === "path" && config.pathData && (
+          <PathShape config={config} center={center} outline={outline} />
+        )}
+
+        {layers?.map((layer) => (
+          <LayerShape key={layer.id} layer={layer} center={center} />
+        ))}
+
         {renderCenterDot()}
       </svg>
     </div>
   )
 }
 
+// How one drawing of a shape's geometry is painted
+type Paint = {
+  fill: string
+  fillRule?: "nonzero" | "evenodd"
+  stroke?: string
+  strokeWidth?: number
+  strokeLinejoin?: OutlineJoin
+  strokeLinecap?: "square" | "round"
+  vectorEffect?: "non-scaling-stroke"
+}
+
+type Outline = {
+  color: string
+  opacity: number
+  thickness: number
+  position: OutlinePosition
+  join: OutlineJoin
+}
+
+function styleOutline(config: CrosshairConfig): Outline {
+  return {
+    color: config.outlineColor ?? "#000000",
+    opacity: config.outlineOpacity ?? 1,
+    thickness: config.outlineThickness ?? 1,
+    position: config.outlinePosition ?? "outside",
+    join: config.outlineJoin ?? "miter"
+  }
+}
+
+function layerOutline(layer: CrosshairLayer): Outline | undefined {
+  if (!layer.outline) return undefined
+  return {
+    color: layer.outlineColor,
+    opacity: layer.outlineOpacity,
+    thickness: layer.outlineThickness,
+    position: layer.outlinePosition ?? "outside",
+    join: layer.outlineJoin ?? "miter"
+  }
+}
+
+// Every style and layer is drawn through here, so a shape and its outline
+// come from the same geometry and an outline looks the same on any shape.
+// The outline is a stroke along the shape's edges, outline thickness wider
+// than the shape's own stroke (0 for filled shapes). "outside" masks the
+// shape out of it; "center" draws it over the shape, masking out only the
+// middle of a stroke that is wider than the outline.
+function Outlined({
+  shape,
+  color,
+  opacity,
+  outline,
+  strokeWidth,
+  paint
+}: {
+  shape: (paint: Paint) => React.ReactElement
+  color: string
+  opacity: number
+  outline?: Outline
+  // set for shapes drawn by a stroke, like rings and arcs
+  strokeWidth?: number
+  // extra paint for every drawing, like a fill rule
+  paint?: Partial<Paint>
+}): React.ReactElement {
+  const maskId = `outline-${useId().replace(/[^\w-]/g, "")}`
+  // open ends are capped to match the corners, so the outline wraps them
+  const strokeLinecap = outline?.join === "round" ? "round" : "square"
+  const body = (fill: string, width = strokeWidth): React.ReactElement =>
+    width == null
+      ? shape({ ...paint, fill })
+      : shape({ ...paint, fill: "none", stroke: fill, strokeWidth: width, strokeLinecap })
+
+  if (!outline) return <g opacity={opacity}>{body(color)}</g>
+
+  const hole =
+    outline.position === "outside"
+      ? body("black")
+      : strokeWidth != null && strokeWidth > outline.thickness
+        ? body("black", strokeWidth - outline.thickness)
+        : null
+  const drawn = (
+    <g opacity={outline.opacity} mask={hole ? `url(#${maskId})` : undefined}>
+      {shape({
+        ...paint,
+        fill: "none",
+        stroke: outline.color,
+        strokeWidth: (strokeWidth ?? 0) + outline.thickness,
+        strokeLinejoin: outline.join,
+        strokeLinecap
+      })}
+    </g>
+  )
+  return (
+    <>
+      {hole && (
+        <mask id={maskId} maskUnits="userSpaceOnUse" x={-1e4} y={-1e4} width={2e4} height={2e4}>
+          <rect x={-1e4} y={-1e4} width={2e4} height={2e4} fill="white" />
+          {hole}
+        </mask>
+      )}
+      {outline.position === "outside" && drawn}
+      <g opacity={opacity}>{body(color)}</g>
+      {outline.position === "center" && drawn}
+    </>
+  )
+}
+
+// Images are outlined along their opaque pixels: the alpha channel grown
+// (and for "center" also shrunk) by half the outline thickness. The
+// corner style does not apply.
+function OutlinedImage({
+  href,
+  x,
+  y,
+  size,
+  opacity,
+  outline
+}: {
+  href: string
+  x: number
+  y: number
+  size: number
+  opacity: number
+  outline?: Outline
+}): React.ReactElement {
+  const filterId = `outline-${useId().replace(/[^\w-]/g, "")}`
+  if (!outline) {
+    return <image href={href} x={x} y={y} width={size} height={size} opacity={opacity} />
+  }
+  const radius = outline.thickness / 2
+  const center = outline.position === "center"
+  return (
+    <>
+      <filter id={filterId} x="-50%" y="-50%" width="200%" height="200%">
+        <feMorphology in="SourceAlpha" operator="dilate" radius={radius} result="grown" />
+        {center && (
+          <feMorphology in="SourceAlpha" operator="erode" radius={radius} result="shrunk" />
+        )}
+        <feComposite
+          in="grown"
+          in2={center ? "shrunk" : "SourceAlpha"}
+          operator="out"
+          result="edge"
+        />
+        <feFlood floodColor={outline.color} floodOpacity={outline.opacity} />
+        <feComposite in2="edge" operator="in" result="outline" />
+        <feComponentTransfer in="SourceGraphic" result="image">
+          <feFuncA type="linear" slope={opacity} />
+        </feComponentTransfer>
+        <feMerge>
+          <feMergeNode in={center ? "image" : "outline"} />
+          <feMergeNode in={center ? "outline" : "image"} />
+        </feMerge>
+      </filter>
+      <image href={href} x={x} y={y} width={size} height={size} filter={`url(#${filterId})`} />
+    </>
+  )
+}
+
+// An arm of a cross around (cx, cy)
+function armRect(
+  arm: CrosshairArm,
+  cx: number,
+  cy: number,
+  { length, thickness, gap }: { length: number; thickness: number; gap: number }
+): { x: number; y: number; width: number; height: number } {
+  switch (arm) {
+    case "top":
+      return { x: cx - thickness / 2, y: cy - gap - length, width: thickness, height: length }
+    case "right":
+      return { x: cx + gap, y: cy - thickness / 2, width: length, height: thickness }
+    case "bottom":
+      return { x: cx - thickness / 2, y: cy + gap, width: thickness, height: length }
+    case "left":
+      return { x: cx - gap - length, y: cy - thickness / 2, width: length, height: thickness }
+  }
+}
+
+// The four arms of the x style: the top and bottom arms turned both ways
+function diagonalArms(
+  cx: number,
+  cy: number,
+  geometry: { length: number; thickness: number; gap: number },
+  paint: Paint
+): React.ReactElement {
+  return (
+    <>
+      {[45, -45].map((angle) => (
+        <g key={angle} transform={`rotate(${angle} ${cx} ${cy})`}>
+          <rect {...armRect("top", cx, cy, geometry)} {...paint} />
+          <rect {...armRect("bottom", cx, cy, geometry)} {...paint} />
+        </g>
+      ))}
+    </>
+  )
+}
+
+// The path style: the view box centered, rotated and scaled. Strokes keep
+// their pixel width at any scale, like the other styles.
+function PathShape({
+  config,
+  center,
+  outline
+}: {
+  config: CrosshairConfig
+  center: number
+  outline?: Outline
+}): React.ReactElement {
+  const [minX, minY, width, height] = parseViewBox(config.pathViewBox) ?? [0, 0, 24, 24]
+  const scale = config.pathScale ?? 1
+  const transform = [
+    `translate(${center} ${center})`,
+    `rotate(${config.pathRotation ?? 0})`,
+    `scale(${scale})`,
+    `translate(${-(minX + width / 2)} ${-(minY + height / 2)})`
+  ].join(" ")
+
+  return (
+    <g transform={transform}>
+      <Outlined
+        shape={(paint) => <path d={config.pathData} {...paint} />}
+        color={config.color}
+        opacity={config.opacity}
+        outline={outline}
+        strokeWidth={config.pathStroke ? config.pathStroke * scale : undefined}
+        paint={{ fillRule: config.pathFillRule ?? "nonzero", vectorEffect: "non-scaling-stroke" }}
+      />
+    </g>
+  )
+}
+
+// One layer of a layered crosshair, drawn around the center moved by its offset
+function LayerShape({
+  layer,
+  center
+}: {
+  layer: CrosshairLayer
+  center: number
+}): React.ReactElement | null {
+  if (!layer.visible) return null
+  const { thickness, length, gap, size } = layer
+  const cx = center + layer.offsetX
+  const cy = center + layer.offsetY
+  const outlined = (
+    shape: (paint: Paint) => React.ReactElement,
+    stroked = false
+  ): React.ReactElement => (
+    <Outlined
+      shape={shape}
+      color={layer.color}
+      opacity={layer.opacity}
+      outline={layerOutline(layer)}
+      strokeWidth={stroked ? thickness : undefined}
+    />
+  )
+  const ring = (paint: Paint): React.ReactElement => <circle cx={cx} cy={cy} r={size} {...paint} />
+
+  switch (layer.primitive) {
+    case "lines":
+      return outlined((paint) => (
+        <>
+          {crosshairArms.map((arm) => (
+            <rect key={arm} {...armRect(arm, cx, cy, layer)} {...paint} />
+          ))}
+        </>
+      ))
+    case "x":
+      return outlined((paint) => diagonalArms(cx, cy, { length, thickness, gap }, paint))
+    case "dot":
+      return outlined((paint) =>
+        layer.dotShape === "square" ? (
+          <rect x={cx - size} y={cy - size} width={size * 2} height={size * 2} {...paint} />
+        ) : (
+          <circle cx={cx} cy={cy} r={size} {...paint} />
+        )
+      )
+    case "ring":
+      return outlined(ring, true)
+    case "arc": {
+      const start = layer.arcStart ?? 0
+      const sweep = Math.min(360, Math.max(0, layer.arcSweep ?? 90))
+      if (sweep === 0) return null
+      // an SVG arc cannot close on itself, so a full sweep is drawn as a ring
+      if (sweep === 360) return outlined(ring, true)
+      const point = (degrees: number): string => {
+        const radians = (degrees * Math.PI) / 180
+        return `${cx + size * Math.sin(radians)} ${cy - size * Math.cos(radians)}`
+      }
+      const d = `M ${point(start)} A ${size} ${size} 0 ${sweep > 180 ? 1 : 0} 1 ${point(start + sweep)}`
+      return outlined((paint) => <path d={d} {...paint} />, true)
+    }
+    case "image":
+      return layer.imageUrl ? (
+        <OutlinedImage
+          href={layer.imageUrl}
+          x={cx - size / 2}
+          y={cy - size / 2}
+          size={size}
+          opacity={layer.opacity}
+          outline={layerOutline(layer)}
+        />
+      ) : null
+  }
+}
+
 export function CrosshairPreview({
   config,
   size = 96
@@ -234,33 +518,13 @@ export function CrosshairPreview({
   config: CrosshairConfig
   size?: number
 }) {
-  // Reuse renderer but constrain SVG to preview size by scaling lengths to fit
-  const scale = Math.min(
-    1,
-    size / Math.max((config.length + config.gap) * 2 + config.thickness * 2, 64)
-  )
-  const scaled: CrosshairConfig = {
-    ...config,
-    length: Math.max(1, Math.round(config.length * scale)),
-    gap: Math.max(0, Math.round(config.gap * scale)),
-    thickness: Math.max(1, Math.round(config.thickness * scale))
-  }
+  const scaled = scaleConfigToFit(config, size)
   return (
     <div
       className="relative flex items-center justify-center"
       style={{ width: size, height: size }}
     >
-      <Crosshair mode="embed" config={{ ...scaled, enabled: true }} />
+      <Crosshair mode="embed" config={scaled} />
     </div>
   )
 }
-
-function hexToRgba(hex: string, alpha: number) {
-  const parsed = hex.replace("#", "")
-  if (parsed.length !== 6) return `rgba(0, 0, 0, ${alpha})`
-  const bigint = parseInt(parsed, 16)
-  const r = (bigint >> 16) & 255
-  const g = (bigint >> 8) & 255
-  const b = bigint & 255
-  return `rgba(${r}, ${g}, ${b}, ${alpha})`
-}
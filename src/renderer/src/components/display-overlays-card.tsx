@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react"
+import type React from "react"
+import { toast } from "sonner"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { CrosshairPreview } from "@/components/crosshair"
+import type { DisplayOverlay, OverlayDisplay } from "@/types/overlays"
+import { useCurrentConfig, useLibrary, useSettings } from "@/hooks/store"
+
+// Select value for drawing the current crosshair
+const CURRENT = "current"
+
+function DisplayOverlaysCard(): React.ReactElement {
+  const { displayOverlays } = useSettings()
+  const library = useLibrary()
+  const current = useCurrentConfig()
+  const [displays, setDisplays] = useState<OverlayDisplay[]>([])
+
+  // refreshed with the settings, so windows opened for them show up
+  useEffect(() => {
+    window.electron.ipcRenderer
+      .invoke("overlay:list")
+      .then((list: OverlayDisplay[]) => setDisplays(list))
+      .catch(() => {})
+  }, [displayOverlays])
+
+  const update = async (
+    displayId: number,
+    patch: Partial<Omit<DisplayOverlay, "displayId">>
+  ): Promise<void> => {
+    const ok = (await window.electron.ipcRenderer.invoke(
+      "overlay:set-overlay",
+      displayId,
+      patch
+    )) as boolean
+    if (!ok) toast.error("That display is no longer connected.")
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Other Displays</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Show a crosshair on more than one display at once, each with its own crosshair and offset.
+          Window attachment, ADS, adaptive contrast and dynamic spread only apply to the main
+          crosshair.
+        </p>
+        {displays.length < 2 && (
+          <p className="text-sm text-muted-foreground">Only one display is connected.</p>
+        )}
+        {displays.length >= 2 &&
+          displays.map((display) => {
+            const overlay = displayOverlays.find((o) => o.displayId === display.id)
+            const enabled = !!overlay?.enabled
+            const config =
+              library.find((item) => item.id === overlay?.libraryItemId)?.config ?? current
+            return (
+              <div key={display.id} className="space-y-3 rounded-md border p-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label>{display.label}</Label>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {display.bounds.width}×{display.bounds.height}
+                      {display.main ? " · the main crosshair is here" : ""}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={enabled}
+                    onCheckedChange={(v) => void update(display.id, { enabled: !!v })}
+                  />
+                </div>
+
+                {enabled && overlay && (
+                  <div className="flex items-center gap-4">
+                    <div className="rounded-md border bg-muted/40">
+                      <CrosshairPreview config={config} size={64} />
+                    </div>
+                    <div className="flex flex-1 flex-wrap items-end gap-3">
+                      <Select
+                        value={overlay.libraryItemId ?? CURRENT}
+                        onValueChange={(id) =>
+                          void update(display.id, { libraryItemId: id === CURRENT ? null : id })
+                        }
+                      >
+                        <SelectTrigger size="sm" className="w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={CURRENT}>Current crosshair</SelectItem>
+                          {library.map((item) => (
+                            <SelectItem key={item.id} value={item.id}>
+                              {item.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="space-y-1">
+                        <Label htmlFor={`offset-x-${display.id}`}>Offset X (px)</Label>
+                        <Input
+                          id={`offset-x-${display.id}`}
+                          type="number"
+                          className="w-24"
+                          value={overlay.offsetX}
+                          onChange={(e) =>
+                            void update(display.id, { offsetX: Number(e.target.value) })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor={`offset-y-${display.id}`}>Offset Y (px)</Label>
+                        <Input
+                          id={`offset-y-${display.id}`}
+                          type="number"
+                          className="w-24"
+                          value={overlay.offsetY}
+                          onChange={(e) =>
+                            void update(display.id, { offsetY: Number(e.target.value) })
+                          }
+                        />
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default DisplayOverlaysCard
@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react"
+import type React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { FileDown } from "lucide-react"
+import { toast } from "sonner"
+import {
+  weaponClasses,
+  type GsiHideWhen,
+  type GsiSettings,
+  type GsiStatus,
+  type WeaponClass
+} from "@/types/gsi"
+import { useLibrary, useSettings } from "@/hooks/store"
+import { updateSettings } from "@/lib/storage"
+
+const hideOptions: Record<keyof GsiHideWhen, string> = {
+  menu: "In menus",
+  dead: "While dead",
+  spectating: "While spectating",
+  sniper: "While holding a sniper rifle"
+}
+
+// Radix Select items cannot have an empty value
+const KEEP_CURRENT = "keep"
+
+function GsiCard(): React.ReactElement {
+  const { gsi } = useSettings()
+  const library = useLibrary()
+  const [status, setStatus] = useState<GsiStatus | null>(null)
+  const [port, setPort] = useState(String(gsi.port))
+
+  useEffect(() => {
+    window.electron.ipcRenderer
+      .invoke("gsi:status")
+      .then((next: GsiStatus) => setStatus(next))
+      .catch(() => {})
+    const onStatus = (_e: unknown, next: GsiStatus): void => setStatus(next)
+    window.electron.ipcRenderer.on("gsi:status", onStatus)
+    return () => {
+      window.electron.ipcRenderer.removeListener("gsi:status", onStatus)
+    }
+  }, [])
+
+  useEffect(() => setPort(String(gsi.port)), [gsi.port])
+
+  const update = (patch: Partial<GsiSettings>): void => {
+    updateSettings({ gsi: { ...gsi, ...patch } })
+  }
+
+  const commitPort = (): void => {
+    const next = Number(port)
+    if (!Number.isInteger(next) || next < 1024 || next > 65535) {
+      toast.error("Port must be between 1024 and 65535")
+      setPort(String(gsi.port))
+      return
+    }
+    if (next !== gsi.port) {
+      update({ port: next })
+      toast.info("Save the cfg file again so CS2 uses the new port")
+    }
+  }
+
+  const saveCfg = async (): Promise<void> => {
+    try {
+      const result = (await window.electron.ipcRenderer.invoke("gsi:save-cfg")) as
+        | { ok: true; path: string }
+        | { ok: false; error: string }
+        | null
+      if (!result) return
+      if (result.ok) toast.success("Saved. Restart CS2 to load it.")
+      else toast.error("Could not save the cfg file", { description: result.error })
+    } catch {
+      toast.error("Could not save the cfg file")
+    }
+  }
+
+  const statusText = (): string | null => {
+    if (!status) return null
+    if (status.error) return status.error
+    if (!status.running) return "Starting…"
+    if (!status.connected) return "Waiting for CS2. Save the cfg file and restart the game."
+    const weapon = status.weaponClass ? weaponClasses[status.weaponClass] : "Other weapon"
+    return `Connected — ${weapon}${status.hidden ? ", crosshair hidden" : ""}`
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>CS2 Game State Integration</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>React to CS2 game state</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Hides or swaps the crosshair based on what is happening in game.
+            </p>
+          </div>
+          <Switch checked={gsi.enabled} onCheckedChange={(v) => update({ enabled: !!v })} />
+        </div>
+
+        {gsi.enabled && (
+          <>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="gsi-port">Port</Label>
+              <Input
+                id="gsi-port"
+                className="w-28 font-mono"
+                inputMode="numeric"
+                value={port}
+                onChange={(e) => setPort(e.target.value)}
+                onBlur={commitPort}
+                onKeyDown={(e) => e.key === "Enter" && commitPort()}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label>Config file for CS2</Label>
+              <Button variant="outline" size="sm" onClick={() => void saveCfg()}>
+                <FileDown className="w-4 h-4 mr-2" /> Save .cfg
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Hide the crosshair</Label>
+              {(Object.keys(hideOptions) as (keyof GsiHideWhen)[]).map((key) => (
+                <div key={key} className="flex items-center justify-between">
+                  <Label className="text-sm font-normal">{hideOptions[key]}</Label>
+                  <Switch
+                    checked={gsi.hideWhen[key]}
+                    onCheckedChange={(v) => update({ hideWhen: { ...gsi.hideWhen, [key]: !!v } })}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Crosshair per weapon</Label>
+              {(Object.keys(weaponClasses) as WeaponClass[]).map((weapon) => (
+                <div key={weapon} className="flex items-center justify-between">
+                  <Label className="text-sm font-normal">{weaponClasses[weapon]}</Label>
+                  <Select
+                    value={gsi.weaponCrosshairs[weapon] ?? KEEP_CURRENT}
+                    onValueChange={(id) =>
+                      update({
+                        weaponCrosshairs: {
+                          ...gsi.weaponCrosshairs,
+                          [weapon]: id === KEEP_CURRENT ? null : id
+                        }
+                      })
+                    }
+                  >
+                    <SelectTrigger size="sm" className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={KEEP_CURRENT}>Keep current</SelectItem>
+                      {library.map((item) => (
+                        <SelectItem key={item.id} value={item.id}>
+                          {item.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-sm text-muted-foreground">{statusText()}</p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default GsiCard
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react"
+import type React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { cn } from "@/lib/utils"
+import { acceleratorFromKeyboardEvent } from "@/lib/accelerator"
+import {
+  defaultHotkeyBindings,
+  hotkeyActions,
+  type HotkeyAction,
+  type HotkeySetResult,
+  type HotkeyState
+} from "@/types/hotkeys"
+
+function HotkeysCard(): React.ReactElement {
+  const [state, setState] = useState<HotkeyState>({ bindings: defaultHotkeyBindings, failed: [] })
+  const [recording, setRecording] = useState<HotkeyAction | null>(null)
+  const [conflict, setConflict] = useState<HotkeyAction | null>(null)
+
+  useEffect(() => {
+    window.electron.ipcRenderer
+      .invoke("hotkeys:get")
+      .then((s: HotkeyState) => setState(s))
+      .catch(() => {})
+  }, [])
+
+  // Release the global shortcuts while recording so the pressed combination reaches us
+  useEffect(() => {
+    window.electron.ipcRenderer.invoke("hotkeys:suspend", recording != null).catch(() => {})
+  }, [recording])
+
+  useEffect(() => {
+    return () => {
+      window.electron.ipcRenderer.invoke("hotkeys:suspend", false).catch(() => {})
+    }
+  }, [])
+
+  const applyBinding = async (action: HotkeyAction, accelerator: string | null): Promise<void> => {
+    // Resume registration first so the main process can detect conflicts with other apps
+    await window.electron.ipcRenderer.invoke("hotkeys:suspend", false)
+    setRecording(null)
+    const res = (await window.electron.ipcRenderer.invoke(
+      "hotkeys:set",
+      action,
+      accelerator
+    )) as HotkeySetResult
+    if (res.ok) {
+      setState(res.state)
+      setConflict(null)
+    } else {
+      setConflict(res.conflictWith ?? action)
+      toast.error(res.error)
+    }
+  }
+
+  const onKeyDown = (action: HotkeyAction, e: React.KeyboardEvent<HTMLButtonElement>): void => {
+    if (recording !== action) return
+    e.preventDefault()
+    e.stopPropagation()
+    if (e.key === "Escape") {
+      setRecording(null)
+      return
+    }
+    if (e.key === "Backspace" && !e.ctrlKey && !e.altKey && !e.shiftKey && !e.metaKey) {
+      void applyBinding(action, null)
+      return
+    }
+    const accelerator = acceleratorFromKeyboardEvent(e)
+    if (accelerator) void applyBinding(action, accelerator)
+  }
+
+  const resetAll = async (): Promise<void> => {
+    const next = (await window.electron.ipcRenderer.invoke("hotkeys:reset")) as HotkeyState
+    setState(next)
+    setConflict(null)
+    toast.success("Hotkeys reset to defaults")
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Hotkeys</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Global shortcuts work while a game is focused. Click a binding and press the new
+          combination, Backspace to clear or Escape to cancel.
+        </p>
+        {hotkeyActions.map(({ action, label }) => {
+          const accelerator = state.bindings[action]
+          const failed = state.failed.includes(action)
+          const isRecording = recording === action
+          return (
+            <div key={action} className="flex items-center justify-between gap-3">
+              <Label>{label}</Label>
+              <div className="flex items-center gap-2">
+                {failed && <span className="text-xs text-destructive">Unavailable</span>}
+                <Button
+                  variant="outline"
+                  className={cn(
+                    "w-48 justify-center font-mono text-xs",
+                    (conflict === action || failed) && "border-destructive"
+                  )}
+                  onClick={() => setRecording(isRecording ? null : action)}
+                  onKeyDown={(e) => onKeyDown(action, e)}
+                  onBlur={() => isRecording && setRecording(null)}
+                >
+                  {isRecording ? "Press keys…" : (accelerator ?? "Not set")}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={!accelerator}
+                  onClick={() => void applyBinding(action, null)}
+                >
+                  Clear
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={() => void resetAll()}>
+            Reset to defaults
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default HotkeysCard
@@ -0,0 +1,527 @@
+import { useState } from "react"
+import type React from "react"
+import { ArrowDown, ArrowUp, Copy, Eye, EyeOff, Plus, Trash2 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import {
+  MAX_LAYERS,
+  layerConversionProblem,
+  layerPrimitives,
+  layersFromStyle,
+  makeLayer,
+  makeLayerId,
+  outlineJoins,
+  outlinePositions,
+  type CrosshairConfig,
+  type CrosshairLayer,
+  type LayerPrimitive,
+  type OutlineJoin,
+  type OutlinePosition
+} from "@/types/crosshair"
+
+function SliderRow({
+  label,
+  value,
+  onChange,
+  min,
+  max,
+  step = 1
+}: {
+  label: string
+  value: number
+  onChange: (value: number) => void
+  min: number
+  max: number
+  step?: number
+}): React.ReactElement {
+  return (
+    <div className="gap-3 flex flex-col">
+      <div className="flex justify-between">
+        <Label>{label}</Label>
+        <span className="text-sm text-muted-foreground">{step < 1 ? value.toFixed(2) : value}</span>
+      </div>
+      <Slider
+        value={[value]}
+        onValueChange={(val) => onChange(val[0])}
+        min={min}
+        max={max}
+        step={step}
+      />
+    </div>
+  )
+}
+
+function OptionRow<T extends string>({
+  label,
+  value,
+  options,
+  onChange
+}: {
+  label: string
+  value: T
+  options: Record<T, string>
+  onChange: (value: T) => void
+}): React.ReactElement {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={(v) => onChange(v as T)}>
+        <SelectTrigger size="sm" className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.entries(options) as [T, string][]).map(([option, optionLabel]) => (
+            <SelectItem key={option} value={option}>
+              {optionLabel}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+function ColorRow({
+  label,
+  value,
+  onChange
+}: {
+  label: string
+  value: string
+  onChange: (value: string) => void
+}): React.ReactElement {
+  return (
+    <div>
+      <Label>{label}</Label>
+      <Input
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-20 h-10 p-0 border-none cursor-pointer mt-1"
+      />
+    </div>
+  )
+}
+
+function LayerSettings({
+  layer,
+  update
+}: {
+  layer: CrosshairLayer
+  update: (patch: Partial<CrosshairLayer>) => void
+}): React.ReactElement {
+  const { primitive } = layer
+  const hasLines = primitive === "lines" || primitive === "x"
+  const hasStroke = hasLines || primitive === "ring" || primitive === "arc"
+
+  const uploadImage = (file: File | undefined): void => {
+    if (!file) return
+    const reader = new FileReader()
+    reader.onload = (event) => update({ imageUrl: event.target?.result as string })
+    reader.readAsDataURL(file)
+  }
+
+  return (
+    <div className="space-y-4">
+      {primitive === "image" ? (
+        <div>
+          <Label htmlFor="layer-image-url">Image URL</Label>
+          <div className="flex gap-2 mt-1">
+            <Input
+              id="layer-image-url"
+              value={layer.imageUrl ?? ""}
+              onChange={(e) => update({ imageUrl: e.target.value })}
+              placeholder="Enter image URL or upload"
+              className="flex-1"
+            />
+            <input
+              type="file"
+              id="layer-image-upload"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => uploadImage(e.target.files?.[0])}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => document.getElementById("layer-image-upload")?.click()}
+            >
+              Upload
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <ColorRow label="Color" value={layer.color} onChange={(color) => update({ color })} />
+      )}
+
+      <SliderRow
+        label="Opacity"
+        value={layer.opacity}
+        onChange={(opacity) => update({ opacity })}
+        min={0}
+        max={1}
+        step={0.01}
+      />
+
+      {hasStroke && (
+        <SliderRow
+          label="Thickness"
+          value={layer.thickness}
+          onChange={(thickness) => update({ thickness })}
+          min={1}
+          max={10}
+        />
+      )}
+      {hasLines && (
+        <>
+          <SliderRow
+            label="Length"
+            value={layer.length}
+            onChange={(length) => update({ length })}
+            min={1}
+            max={50}
+          />
+          <SliderRow
+            label="Gap"
+            value={layer.gap}
+            onChange={(gap) => update({ gap })}
+            min={0}
+            max={50}
+          />
+        </>
+      )}
+      {!hasLines && (
+        <SliderRow
+          label={primitive === "image" ? "Size" : "Radius"}
+          value={layer.size}
+          onChange={(size) => update({ size })}
+          min={1}
+          max={primitive === "image" ? 128 : 60}
+        />
+      )}
+
+      {primitive === "dot" && (
+        <div className="flex items-center justify-between">
+          <Label>Shape</Label>
+          <Select
+            value={layer.dotShape ?? "circle"}
+            onValueChange={(v) => update({ dotShape: v as "circle" | "square" })}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="circle">Circle</SelectItem>
+              <SelectItem value="square">Square</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {primitive === "arc" && (
+        <>
+          <SliderRow
+            label="Start angle"
+            value={layer.arcStart ?? 0}
+            onChange={(arcStart) => update({ arcStart })}
+            min={-180}
+            max={180}
+          />
+          <SliderRow
+            label="Sweep"
+            value={layer.arcSweep ?? 90}
+            onChange={(arcSweep) => update({ arcSweep })}
+            min={1}
+            max={360}
+          />
+        </>
+      )}
+
+      <SliderRow
+        label="Horizontal offset"
+        value={layer.offsetX}
+        onChange={(offsetX) => update({ offsetX })}
+        min={-50}
+        max={50}
+      />
+      <SliderRow
+        label="Vertical offset"
+        value={layer.offsetY}
+        onChange={(offsetY) => update({ offsetY })}
+        min={-50}
+        max={50}
+      />
+
+      <div className="flex items-center justify-between">
+        <Label>Outline</Label>
+        <Switch
+          checked={layer.outline}
+          onCheckedChange={(checked) => update({ outline: !!checked })}
+        />
+      </div>
+      {layer.outline && (
+        <>
+          <ColorRow
+            label="Outline Color"
+            value={layer.outlineColor}
+            onChange={(outlineColor) => update({ outlineColor })}
+          />
+          <SliderRow
+            label="Outline Thickness"
+            value={layer.outlineThickness}
+            onChange={(outlineThickness) => update({ outlineThickness })}
+            min={1}
+            max={10}
+          />
+          <SliderRow
+            label="Outline Opacity"
+            value={layer.outlineOpacity}
+            onChange={(outlineOpacity) => update({ outlineOpacity })}
+            min={0}
+            max={1}
+            step={0.01}
+          />
+          <OptionRow<OutlinePosition>
+            label="Outline Position"
+            value={layer.outlinePosition ?? "outside"}
+            options={outlinePositions}
+            onChange={(outlinePosition) => update({ outlinePosition })}
+          />
+          {primitive !== "image" && (
+            <OptionRow<OutlineJoin>
+              label="Outline Corners"
+              value={layer.outlineJoin ?? "miter"}
+              options={outlineJoins}
+              onChange={(outlineJoin) => update({ outlineJoin })}
+            />
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+function LayersCard({
+  config,
+  setConfig
+}: {
+  config: CrosshairConfig
+  setConfig: (update: (c: CrosshairConfig) => CrosshairConfig) => void
+}): React.ReactElement {
+  const layers = config.layers ?? []
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [newPrimitive, setNewPrimitive] = useState<LayerPrimitive>("ring")
+  // the top layer until one is picked
+  const selected = layers.find((l) => l.id === selectedId) ?? layers[layers.length - 1]
+
+  const setLayers = (update: (layers: CrosshairLayer[]) => CrosshairLayer[]): void => {
+    setConfig((c) => ({ ...c, layers: update(c.layers ?? []) }))
+  }
+
+  const updateLayer = (id: string, patch: Partial<CrosshairLayer>): void => {
+    setLayers((all) => all.map((l) => (l.id === id ? { ...l, ...patch } : l)))
+  }
+
+  // direction 1 moves a layer up, drawing it above the next one
+  const moveLayer = (id: string, direction: 1 | -1): void => {
+    setLayers((all) => {
+      const index = all.findIndex((l) => l.id === id)
+      const target = index + direction
+      if (index === -1 || target < 0 || target >= all.length) return all
+      const next = [...all]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const duplicateLayer = (layer: CrosshairLayer): void => {
+    const copy = { ...layer, id: makeLayerId() }
+    setLayers((all) => {
+      const index = all.findIndex((l) => l.id === layer.id)
+      return [...all.slice(0, index + 1), copy, ...all.slice(index + 1)]
+    })
+    setSelectedId(copy.id)
+  }
+
+  const addLayer = (): void => {
+    const layer = makeLayer(newPrimitive, { color: config.color })
+    setLayers((all) => [...all, layer])
+    setSelectedId(layer.id)
+  }
+
+  if (layers.length === 0) {
+    const problem = layerConversionProblem(config)
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Layers</CardTitle>
+        </CardHeader>
+        <CardContent className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {problem ??
+              "Stack shapes to build crosshairs like a cross inside a ring or a dot inside a circle."}
+          </p>
+          <Button
+            variant="outline"
+            disabled={!!problem}
+            onClick={() => setConfig((c) => ({ ...c, layers: layersFromStyle(c) }))}
+          >
+            Convert to layers
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Layers</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          {/* listed top first, the order they are stacked in */}
+          {[...layers].reverse().map((layer, i) => {
+            const index = layers.length - 1 - i
+            return (
+              <div
+                key={layer.id}
+                className={cn(
+                  "flex items-center gap-1 rounded-md border px-2 py-1 cursor-pointer",
+                  layer.id === selected?.id && "bg-accent"
+                )}
+                onClick={() => setSelectedId(layer.id)}
+              >
+                <span
+                  className="h-3 w-3 rounded-full border"
+                  style={{ background: layer.primitive === "image" ? undefined : layer.color }}
+                />
+                <span
+                  className={cn("flex-1 text-sm ml-1", !layer.visible && "text-muted-foreground")}
+                >
+                  {layerPrimitives[layer.primitive]}
+                </span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  title={layer.visible ? "Hide" : "Show"}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    updateLayer(layer.id, { visible: !layer.visible })
+                  }}
+                >
+                  {layer.visible ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  title="Move up"
+                  disabled={index === layers.length - 1}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    moveLayer(layer.id, 1)
+                  }}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  title="Move down"
+                  disabled={index === 0}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    moveLayer(layer.id, -1)
+                  }}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  title="Duplicate"
+                  disabled={layers.length >= MAX_LAYERS}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    duplicateLayer(layer)
+                  }}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  title="Delete"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    setLayers((all) => all.filter((l) => l.id !== layer.id))
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={newPrimitive} onValueChange={(v) => setNewPrimitive(v as LayerPrimitive)}>
+            <SelectTrigger size="sm" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(layerPrimitives) as LayerPrimitive[]).map((primitive) => (
+                <SelectItem key={primitive} value={primitive}>
+                  {layerPrimitives[primitive]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={addLayer}
+            disabled={layers.length >= MAX_LAYERS}
+          >
+            <Plus className="w-4 h-4 mr-1" /> Add layer
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="ml-auto"
+            onClick={() => setConfig((c) => ({ ...c, layers: undefined }))}
+          >
+            Back to a single style
+          </Button>
+        </div>
+
+        {selected && (
+          <LayerSettings
+            key={selected.id}
+            layer={selected}
+            update={(patch) => updateLayer(selected.id, patch)}
+          />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default LayersCard
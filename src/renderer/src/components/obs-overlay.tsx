@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react"
+import type React from "react"
+import type { ObsState } from "@/types/obs"
+import { Crosshair } from "./crosshair"
+
+// The crosshair alone, for an OBS browser source (see main/obs-server.ts).
+// It runs in a plain browser without the preload bridge, so the state comes
+// from the server's event stream instead of the store.
+function ObsOverlay(): React.ReactElement | null {
+  const [state, setState] = useState<ObsState | null>(null)
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const events = new EventSource(params.get("events") ?? "/events")
+    events.onmessage = (e) => {
+      try {
+        setState(JSON.parse(e.data) as ObsState)
+      } catch {
+        // keep showing the last state
+      }
+    }
+    return () => events.close()
+  }, [])
+
+  if (!state?.visible) return null
+  return <Crosshair config={state.config} />
+}
+
+export default ObsOverlay
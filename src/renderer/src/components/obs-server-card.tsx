@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react"
+import type React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Button } from "@/components/ui/button"
+import { Copy } from "lucide-react"
+import { toast } from "sonner"
+import type { ObsServerStatus } from "@/types/obs"
+import { useSettings } from "@/hooks/store"
+import { updateSettings } from "@/lib/storage"
+
+function ObsServerCard(): React.ReactElement {
+  const { obsServer } = useSettings()
+  const [status, setStatus] = useState<ObsServerStatus | null>(null)
+  const [port, setPort] = useState(String(obsServer.port))
+
+  useEffect(() => {
+    window.electron.ipcRenderer
+      .invoke("obs:status")
+      .then((next: ObsServerStatus) => setStatus(next))
+      .catch(() => {})
+    const onStatus = (_e: unknown, next: ObsServerStatus): void => setStatus(next)
+    window.electron.ipcRenderer.on("obs:status", onStatus)
+    return () => {
+      window.electron.ipcRenderer.removeListener("obs:status", onStatus)
+    }
+  }, [])
+
+  useEffect(() => setPort(String(obsServer.port)), [obsServer.port])
+
+  const commitPort = (): void => {
+    const next = Number(port)
+    if (!Number.isInteger(next) || next < 1024 || next > 65535) {
+      toast.error("Port must be between 1024 and 65535")
+      setPort(String(obsServer.port))
+      return
+    }
+    if (next !== obsServer.port) {
+      updateSettings({ obsServer: { ...obsServer, port: next } })
+    }
+  }
+
+  const copyUrl = async (url: string): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(url)
+      toast.success("URL copied")
+    } catch {
+      toast.error("Could not copy the URL")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>OBS Browser Source</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Serve crosshair for OBS</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Add the URL as a browser source with the same size as your game capture.
+            </p>
+          </div>
+          <Switch
+            checked={obsServer.enabled}
+            onCheckedChange={(v) => updateSettings({ obsServer: { ...obsServer, enabled: !!v } })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="obs-port">Port</Label>
+          <Input
+            id="obs-port"
+            className="w-28 font-mono"
+            inputMode="numeric"
+            value={port}
+            onChange={(e) => setPort(e.target.value)}
+            onBlur={commitPort}
+            onKeyDown={(e) => e.key === "Enter" && commitPort()}
+          />
+        </div>
+
+        {obsServer.enabled && status?.url && (
+          <div className="flex items-center gap-2">
+            <Input readOnly className="font-mono text-xs" value={status.url} />
+            <Button
+              variant="outline"
+              size="icon"
+              title="Copy URL"
+              onClick={() => void copyUrl(status.url!)}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+
+        {obsServer.enabled && status?.error && (
+          <p className="text-sm text-destructive">{status.error}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ObsServerCard
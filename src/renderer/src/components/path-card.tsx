@@ -0,0 +1,207 @@
+import { useState } from "react"
+import type React from "react"
+import { toast } from "sonner"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { parseSvgFile } from "@/lib/svg-path"
+import {
+  MAX_PATH_DATA_LENGTH,
+  PATH_DATA_PATTERN,
+  parseViewBox,
+  type CrosshairConfig
+} from "@/types/crosshair"
+
+function PathCard({
+  config,
+  setConfig
+}: {
+  config: CrosshairConfig
+  setConfig: (update: (c: CrosshairConfig) => CrosshairConfig) => void
+}): React.ReactElement {
+  // text that does not parse yet stays local until it does
+  const [pathDraft, setPathDraft] = useState<string | null>(null)
+  const [viewBoxDraft, setViewBoxDraft] = useState<string | null>(null)
+
+  const update = (patch: Partial<CrosshairConfig>): void => {
+    setConfig((c) => ({ ...c, ...patch }))
+  }
+
+  const editPath = (text: string): void => {
+    if (PATH_DATA_PATTERN.test(text) && text.length <= MAX_PATH_DATA_LENGTH) {
+      setPathDraft(null)
+      update({ pathData: text })
+    } else {
+      setPathDraft(text)
+    }
+  }
+
+  const editViewBox = (text: string): void => {
+    if (parseViewBox(text)) {
+      setViewBoxDraft(null)
+      update({ pathViewBox: text })
+    } else {
+      setViewBoxDraft(text)
+    }
+  }
+
+  const importSvg = async (file: File | undefined): Promise<void> => {
+    if (!file) return
+    const result = parseSvgFile(await file.text())
+    if (!result.ok) {
+      toast.error(result.error)
+      return
+    }
+    setPathDraft(null)
+    setViewBoxDraft(null)
+    update({
+      pathData: result.pathData,
+      pathViewBox: result.viewBox,
+      pathFillRule: result.fillRule,
+      pathStroke: result.stroke
+    })
+    if (result.warnings.length > 0) {
+      toast.warning("Parts of the SVG were left out", {
+        description: result.warnings.join("\n"),
+        classNames: { description: "whitespace-pre-line" }
+      })
+    }
+  }
+
+  const stroke = config.pathStroke
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Path Settings</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="path-data">Path data</Label>
+            <input
+              type="file"
+              id="path-upload"
+              accept=".svg,image/svg+xml"
+              className="hidden"
+              onChange={(e) => {
+                void importSvg(e.target.files?.[0])
+                e.target.value = ""
+              }}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => document.getElementById("path-upload")?.click()}
+            >
+              Import .svg
+            </Button>
+          </div>
+          <textarea
+            id="path-data"
+            value={pathDraft ?? config.pathData ?? ""}
+            onChange={(e) => editPath(e.target.value)}
+            placeholder="M11 2h2v8h-2zM11 14h2v8h-2zM2 11h8v2H2zM14 11h8v2h-8z"
+            rows={4}
+            aria-invalid={pathDraft !== null}
+            className={cn(
+              "placeholder:text-muted-foreground dark:bg-input/30 border-input w-full rounded-md border bg-transparent px-3 py-2 font-mono text-xs shadow-xs outline-none resize-none",
+              "focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]",
+              "aria-invalid:border-destructive"
+            )}
+          />
+          {pathDraft !== null && (
+            <p className="text-xs text-destructive">
+              Only path commands (M, L, H, V, C, S, Q, T, A, Z) and numbers are allowed.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <Label htmlFor="path-view-box">View box</Label>
+          <Input
+            id="path-view-box"
+            value={viewBoxDraft ?? config.pathViewBox ?? "0 0 24 24"}
+            onChange={(e) => editViewBox(e.target.value)}
+            placeholder="0 0 24 24"
+            aria-invalid={viewBoxDraft !== null}
+            className="mt-1 font-mono"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            The area of the path centered on the screen: x, y, width and height.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label>Fill overlapping shapes as holes</Label>
+          <Switch
+            checked={config.pathFillRule === "evenodd"}
+            disabled={!!stroke}
+            onCheckedChange={(v) => update({ pathFillRule: v ? "evenodd" : "nonzero" })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label>Draw as lines</Label>
+          <Switch
+            checked={!!stroke}
+            onCheckedChange={(v) => update({ pathStroke: v ? 1 : undefined })}
+          />
+        </div>
+
+        {!!stroke && (
+          <div className="gap-3 flex flex-col">
+            <div className="flex justify-between">
+              <Label>Line width</Label>
+              <span className="text-sm text-muted-foreground">{stroke}</span>
+            </div>
+            <Slider
+              value={[stroke]}
+              onValueChange={(val) => update({ pathStroke: val[0] })}
+              min={0.25}
+              max={10}
+              step={0.25}
+            />
+          </div>
+        )}
+
+        <div className="gap-3 flex flex-col">
+          <div className="flex justify-between">
+            <Label>Scale</Label>
+            <span className="text-sm text-muted-foreground">
+              {(config.pathScale ?? 1).toFixed(2)}
+            </span>
+          </div>
+          <Slider
+            value={[config.pathScale ?? 1]}
+            onValueChange={(val) => update({ pathScale: val[0] })}
+            min={0.1}
+            max={10}
+            step={0.05}
+          />
+        </div>
+
+        <div className="gap-3 flex flex-col">
+          <div className="flex justify-between">
+            <Label>Rotation</Label>
+            <span className="text-sm text-muted-foreground">{config.pathRotation ?? 0}°</span>
+          </div>
+          <Slider
+            value={[config.pathRotation ?? 0]}
+            onValueChange={(val) => update({ pathRotation: val[0] })}
+            min={-180}
+            max={180}
+            step={1}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default PathCard
@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react"
+import type React from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { toast } from "sonner"
+import type { CrosshairLibraryItem } from "@/types/crosshair"
+import type { WindowRef } from "@/types/windowAttach"
+import type { ProfileSettings, ProfileStatus } from "@/types/profiles"
+
+function ProfileAssignDialog({
+  item,
+  onOpenChange
+}: {
+  item: CrosshairLibraryItem | null
+  onOpenChange: (open: boolean) => void
+}): React.ReactElement {
+  const [windows, setWindows] = useState<WindowRef[]>([])
+  const [wmClass, setWmClass] = useState("")
+  const [titlePattern, setTitlePattern] = useState("")
+
+  useEffect(() => {
+    if (!item) return
+    setWmClass("")
+    setTitlePattern("")
+    window.electron.ipcRenderer
+      .invoke("windowAttach.list")
+      .then((list: WindowRef[]) => setWindows(list))
+      .catch(() => setWindows([]))
+  }, [item])
+
+  const assign = async (): Promise<void> => {
+    if (!item) return
+    if (!wmClass.trim() && !titlePattern.trim()) {
+      toast.error("Enter a window class or a title pattern")
+      return
+    }
+    const { settings } = (await window.electron.ipcRenderer.invoke("profiles:get")) as {
+      settings: ProfileSettings
+      status: ProfileStatus
+    }
+    const next: ProfileSettings = {
+      ...settings,
+      profiles: [
+        ...settings.profiles,
+        {
+          id: Math.random().toString(36).slice(2, 10),
+          name: item.name,
+          libraryItemId: item.id,
+          config: item.config,
+          rules: [{ wmClass: wmClass.trim(), titlePattern: titlePattern.trim() }]
+        }
+      ]
+    }
+    const res = (await window.electron.ipcRenderer.invoke("profiles:save", next)) as
+      | { ok: true }
+      | { ok: false; error: string }
+    if (!res.ok) {
+      toast.error(res.error)
+      return
+    }
+    toast.success(
+      settings.enabled
+        ? `"${item.name}" will be used for matching windows`
+        : `Profile created. Enable game profiles in Settings to switch automatically`
+    )
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Use for a game</DialogTitle>
+          <DialogDescription>
+            Switch to &quot;{item?.name}&quot; whenever a matching window is focused.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {windows.length > 0 && (
+            <Select
+              value=""
+              onValueChange={(id) => {
+                const win = windows.find((w) => String(w.id) === id)
+                if (win) setWmClass(win.wmClass)
+              }}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Pick an open window" />
+              </SelectTrigger>
+              <SelectContent>
+                {windows.map((w) => (
+                  <SelectItem key={w.id} value={String(w.id)}>
+                    {w.wmClass} — {w.title.length > 50 ? w.title.slice(0, 47) + "…" : w.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="profile-wmclass">Window class (exact)</Label>
+            <Input
+              id="profile-wmclass"
+              value={wmClass}
+              onChange={(e) => setWmClass(e.target.value)}
+              placeholder="steam_app_730"
+              className="font-mono text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="profile-title">Title pattern (regex)</Label>
+            <Input
+              id="profile-title"
+              value={titlePattern}
+              onChange={(e) => setTitlePattern(e.target.value)}
+              placeholder="^Counter-Strike"
+              className="font-mono text-xs"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => void assign()}>Create profile</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ProfileAssignDialog
@@ -0,0 +1,265 @@
+import { useEffect, useState } from "react"
+import type React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { Plus, Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+import type { WindowRef } from "@/types/windowAttach"
+import { useLibrary } from "@/hooks/store"
+import {
+  defaultProfileSettings,
+  type CrosshairProfile,
+  type ProfileRule,
+  type ProfileSettings,
+  type ProfileStatus
+} from "@/types/profiles"
+
+function makeId(): string {
+  return Math.random().toString(36).slice(2, 10)
+}
+
+function ProfilesCard(): React.ReactElement {
+  const [settings, setSettings] = useState<ProfileSettings>(defaultProfileSettings)
+  const [status, setStatus] = useState<ProfileStatus | null>(null)
+  const library = useLibrary()
+  const [windows, setWindows] = useState<WindowRef[]>([])
+  const [dirty, setDirty] = useState(false)
+
+  useEffect(() => {
+    window.electron.ipcRenderer
+      .invoke("profiles:get")
+      .then((res: { settings: ProfileSettings; status: ProfileStatus }) => {
+        setSettings(res.settings)
+        setStatus(res.status)
+      })
+      .catch(() => {})
+    window.electron.ipcRenderer
+      .invoke("windowAttach.list")
+      .then((list: WindowRef[]) => setWindows(list))
+      .catch(() => setWindows([]))
+
+    const onStatus = (_e: unknown, next: ProfileStatus): void => setStatus(next)
+    window.electron.ipcRenderer.on("profiles:status", onStatus)
+    return () => {
+      window.electron.ipcRenderer.removeListener("profiles:status", onStatus)
+    }
+  }, [])
+
+  const update = (next: ProfileSettings): void => {
+    setSettings(next)
+    setDirty(true)
+  }
+
+  const updateProfile = (id: string, patch: Partial<CrosshairProfile>): void => {
+    update({
+      ...settings,
+      profiles: settings.profiles.map((p) => (p.id === id ? { ...p, ...patch } : p))
+    })
+  }
+
+  const updateRule = (profile: CrosshairProfile, index: number, patch: ProfileRule): void => {
+    updateProfile(profile.id, {
+      rules: profile.rules.map((r, i) => (i === index ? { ...r, ...patch } : r))
+    })
+  }
+
+  const addProfile = (): void => {
+    const item = library[0]
+    if (!item) {
+      toast.error("Save a crosshair to your library first")
+      return
+    }
+    const profile: CrosshairProfile = {
+      id: makeId(),
+      name: `Profile ${settings.profiles.length + 1}`,
+      libraryItemId: item.id,
+      config: item.config,
+      rules: [{ wmClass: "" }]
+    }
+    update({ ...settings, profiles: [...settings.profiles, profile] })
+  }
+
+  const removeProfile = (id: string): void => {
+    update({
+      ...settings,
+      defaultProfileId: settings.defaultProfileId === id ? null : settings.defaultProfileId,
+      profiles: settings.profiles.filter((p) => p.id !== id)
+    })
+  }
+
+  const save = async (next: ProfileSettings = settings): Promise<void> => {
+    const res = (await window.electron.ipcRenderer.invoke("profiles:save", next)) as
+      | { ok: true; settings: ProfileSettings }
+      | { ok: false; error: string }
+    if (res.ok) {
+      setSettings(res.settings)
+      setDirty(false)
+      toast.success("Profiles saved")
+    } else {
+      toast.error(res.error)
+    }
+  }
+
+  const activeName = settings.profiles.find((p) => p.id === status?.activeProfileId)?.name
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Game profiles</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status && !status.supported ? (
+          <p className="text-sm text-muted-foreground">
+            Switching profiles by focused window requires Linux with X11, Sway, Hyprland or KDE
+            Plasma.
+          </p>
+        ) : (
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Switch crosshair by focused window</Label>
+              {settings.enabled && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Active: {activeName ?? "none"}
+                  {status?.focusedWindow
+                    ? ` — focused: ${status.focusedWindow.wmClass || status.focusedWindow.title}`
+                    : ""}
+                </p>
+              )}
+            </div>
+            <Switch
+              checked={settings.enabled}
+              onCheckedChange={(v) => void save({ ...settings, enabled: !!v })}
+            />
+          </div>
+        )}
+
+        {settings.profiles.map((profile) => (
+          <div key={profile.id} className="rounded-md border p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={profile.name}
+                onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                placeholder="Profile name"
+              />
+              <Select
+                value={profile.libraryItemId ?? undefined}
+                onValueChange={(id) => {
+                  const item = library.find((i) => i.id === id)
+                  if (item)
+                    updateProfile(profile.id, { libraryItemId: item.id, config: item.config })
+                }}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Choose a crosshair" />
+                </SelectTrigger>
+                <SelectContent>
+                  {library.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="sm" onClick={() => removeProfile(profile.id)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">Use when no other profile matches</Label>
+              <Switch
+                checked={settings.defaultProfileId === profile.id}
+                onCheckedChange={(v) =>
+                  update({ ...settings, defaultProfileId: v ? profile.id : null })
+                }
+              />
+            </div>
+
+            {profile.rules.map((rule, idx) => (
+              <div key={idx} className="flex items-center gap-2">
+                <Input
+                  value={rule.wmClass ?? ""}
+                  onChange={(e) => updateRule(profile, idx, { wmClass: e.target.value })}
+                  placeholder="WM class (exact)"
+                  className="font-mono text-xs"
+                />
+                <Input
+                  value={rule.titlePattern ?? ""}
+                  onChange={(e) => updateRule(profile, idx, { titlePattern: e.target.value })}
+                  placeholder="Title regex"
+                  className="font-mono text-xs"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    updateProfile(profile.id, {
+                      rules: profile.rules.filter((_, i) => i !== idx)
+                    })
+                  }
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateProfile(profile.id, { rules: [...profile.rules, {}] })}
+              >
+                <Plus className="w-4 h-4 mr-1" /> Add rule
+              </Button>
+              {windows.length > 0 && (
+                <Select
+                  value=""
+                  onValueChange={(id) => {
+                    const win = windows.find((w) => String(w.id) === id)
+                    if (win) {
+                      updateProfile(profile.id, {
+                        rules: [...profile.rules, { wmClass: win.wmClass }]
+                      })
+                    }
+                  }}
+                >
+                  <SelectTrigger size="sm" className="w-56">
+                    <SelectValue placeholder="Add rule from open window" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {windows.map((w) => (
+                      <SelectItem key={w.id} value={String(w.id)}>
+                        {w.wmClass} — {w.title.length > 40 ? w.title.slice(0, 37) + "…" : w.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={addProfile}>
+            <Plus className="w-4 h-4 mr-2" /> Add profile
+          </Button>
+          <Button onClick={() => void save()} disabled={!dirty}>
+            Save profiles
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ProfilesCard
@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react"
+import type React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import {
+  SPREAD_MAX_GAP,
+  SPREAD_RATE,
+  SPREAD_RECOVERY,
+  spreadCurves,
+  type SpreadCurve,
+  type SpreadSettings,
+  type SpreadStatus
+} from "@/types/spread"
+import { useSettings } from "@/hooks/store"
+import { updateSettings } from "@/lib/storage"
+
+function SpreadCard(): React.ReactElement {
+  const { spread } = useSettings()
+  const [status, setStatus] = useState<SpreadStatus | null>(null)
+
+  useEffect(() => {
+    window.electron.ipcRenderer
+      .invoke("spread:status")
+      .then((next: SpreadStatus) => setStatus(next))
+      .catch(() => {})
+    const onStatus = (_e: unknown, next: SpreadStatus): void => setStatus(next)
+    window.electron.ipcRenderer.on("spread:status", onStatus)
+    return () => {
+      window.electron.ipcRenderer.removeListener("spread:status", onStatus)
+    }
+  }, [])
+
+  const update = (patch: Partial<SpreadSettings>): void => {
+    updateSettings({ spread: { ...spread, ...patch } })
+  }
+
+  const supported = status?.supported ?? true
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Dynamic Spread</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Open the crosshair while moving and firing</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              {supported
+                ? "Widens the gap with your input, like the bloom of a game's own crosshair."
+                : "Needs an X11 session on Linux to watch keys and the mouse."}
+            </p>
+          </div>
+          <Switch
+            checked={spread.enabled}
+            disabled={!supported}
+            onCheckedChange={(v) => update({ enabled: !!v })}
+          />
+        </div>
+
+        {spread.enabled && (
+          <>
+            <div className="flex items-center justify-between">
+              <Label>Moving (W, A, S, D)</Label>
+              <Switch
+                checked={spread.movement}
+                onCheckedChange={(v) => update({ movement: !!v })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Firing (left mouse button)</Label>
+              <Switch checked={spread.firing} onCheckedChange={(v) => update({ firing: !!v })} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Turning with the mouse</Label>
+              <Switch checked={spread.mouse} onCheckedChange={(v) => update({ mouse: !!v })} />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label>Opens</Label>
+              <Select
+                value={spread.curve}
+                onValueChange={(curve) => update({ curve: curve as SpreadCurve })}
+              >
+                <SelectTrigger size="sm" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(spreadCurves).map(([id, label]) => (
+                    <SelectItem key={id} value={id}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="gap-3 flex flex-col">
+              <div className="flex justify-between">
+                <Label>Widest gap</Label>
+                <span className="text-sm text-muted-foreground">+{spread.maxGap} px</span>
+              </div>
+              <Slider
+                value={[spread.maxGap]}
+                onValueChange={(val) => update({ maxGap: val[0] })}
+                min={SPREAD_MAX_GAP.min}
+                max={SPREAD_MAX_GAP.max}
+                step={1}
+              />
+            </div>
+
+            <div className="gap-3 flex flex-col">
+              <div className="flex justify-between">
+                <Label>Recovery time</Label>
+                <span className="text-sm text-muted-foreground">{spread.recoveryMs} ms</span>
+              </div>
+              <Slider
+                value={[spread.recoveryMs]}
+                onValueChange={(val) => update({ recoveryMs: val[0] })}
+                min={SPREAD_RECOVERY.min}
+                max={SPREAD_RECOVERY.max}
+                step={50}
+              />
+            </div>
+
+            <div className="gap-3 flex flex-col">
+              <div className="flex justify-between">
+                <Label>Updates per second</Label>
+                <span className="text-sm text-muted-foreground">{spread.rate}</span>
+              </div>
+              <Slider
+                value={[spread.rate]}
+                onValueChange={(val) => update({ rate: val[0] })}
+                min={SPREAD_RATE.min}
+                max={SPREAD_RATE.max}
+                step={5}
+              />
+            </div>
+
+            {status?.error && <p className="text-sm text-destructive">{status.error}</p>}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default SpreadCard
@@ -4,10 +4,11 @@ import { Sun, Moon, X, Square, Minus } from "lucide-react"
 import dotlineImage from "../../../../resources/dotline.png"
 import data from "../../../../package.json"
 import { Switch } from "@/components/ui/switch"
-import { useOverlayVisibility } from "@/hooks/overlay"
+import { useStore } from "@/hooks/store"
+import { updateSettings } from "@/lib/storage"
 function Titlebar() {
   const { theme, setTheme } = useTheme()
-  const { enabled, setEnabled } = useOverlayVisibility()
+  const enabled = useStore((s) => s.settings.overlayEnabled)
 
   const handleWindowControl = (action: "minimize" | "maximize" | "close") => {
     // @ts-ignore
@@ -38,7 +39,10 @@ function Titlebar() {
       <div className="flex items-center gap-3" style={{ WebkitAppRegion: "no-drag" }}>
         <div className="flex items-center gap-2 mr-2">
           <span className="text-xs text-muted-foreground">Crosshair</span>
-          <Switch checked={enabled} onCheckedChange={(v) => setEnabled(!!v)} />
+          <Switch
+            checked={enabled}
+            onCheckedChange={(v) => updateSettings({ overlayEnabled: !!v })}
+          />
         </div>
         <Button
           variant="ghost"
@@ -0,0 +1,30 @@
+import { useEffect, useRef, useState } from "react"
+
+// Seconds of animation played so far, advanced on animation frames at most
+// `fps` times a second while active. A stopped clock holds its time and
+// picks up from there.
+export function useAnimationClock(active: boolean, fps: number): number {
+  const [seconds, setSeconds] = useState(0)
+  const elapsed = useRef(0)
+
+  useEffect(() => {
+    if (!active) return
+    const interval = 1000 / fps
+    const start = performance.now() - elapsed.current * 1000
+    let last = -Infinity
+    let frame = 0
+    const tick = (now: number): void => {
+      frame = requestAnimationFrame(tick)
+      // a millisecond of slack keeps a cap equal to the refresh rate from
+      // skipping every other frame
+      if (now - last < interval - 1) return
+      last = now
+      elapsed.current = (now - start) / 1000
+      setSeconds(elapsed.current)
+    }
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [active, fps])
+
+  return seconds
+}
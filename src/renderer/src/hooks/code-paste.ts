@@ -0,0 +1,32 @@
+import { useEffect, useRef } from "react"
+import { toast } from "sonner"
+import { showFieldErrors } from "@/lib/codes"
+import type { CodeDecodeResult } from "@/types/codes"
+
+type DecodedCode = Extract<CodeDecodeResult, { ok: true }>
+
+// Imports crosshair codes pasted anywhere on the page outside of text fields
+export function useCodePaste(onDecoded: (result: DecodedCode) => void): void {
+  const callback = useRef(onDecoded)
+  callback.current = onDecoded
+
+  useEffect(() => {
+    const onPaste = async (e: ClipboardEvent): Promise<void> => {
+      const target = e.target as HTMLElement | null
+      if (target?.closest("input, textarea, [contenteditable=true]")) return
+      const text = e.clipboardData?.getData("text/plain")?.trim()
+      if (!text) return
+      const result = (await window.electron.ipcRenderer.invoke(
+        "config:decode-code",
+        text
+      )) as CodeDecodeResult
+      if (result.ok) callback.current(result)
+      // only complain about text that looked like a code
+      else if (result.errors) showFieldErrors("Code has invalid settings", result.errors)
+      else if (result.format) toast.error(result.error)
+    }
+    const listener = (e: ClipboardEvent): void => void onPaste(e)
+    document.addEventListener("paste", listener)
+    return () => document.removeEventListener("paste", listener)
+  }, [])
+}
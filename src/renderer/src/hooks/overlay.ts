@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react"
+
+// Whether this overlay window is on screen, for pausing work while it is not
+export function useOverlayShown(): boolean {
+  const [shown, setShown] = useState(true)
+
+  useEffect(() => {
+    const onShown = (_e: unknown, next: boolean): void => setShown(next)
+    window.electron.ipcRenderer.on("overlay:shown", onShown)
+    window.electron.ipcRenderer
+      .invoke("overlay:shown")
+      .then((next: boolean) => setShown(next))
+      .catch(() => {})
+    return () => {
+      window.electron.ipcRenderer.removeListener("overlay:shown", onShown)
+    }
+  }, [])
+
+  return shown
+}
+
+// Tells the main process how large a square this overlay window's
+// crosshairs need, for the compact overlay window
+export function useOverlaySize(size: number): void {
+  useEffect(() => {
+    window.electron.ipcRenderer.send("overlay:set-size", size)
+  }, [size])
+}
@@ -0,0 +1,23 @@
+import { useSyncExternalStore } from "react"
+import type { CrosshairConfig, CrosshairLibraryItem } from "@/types/crosshair"
+import type { AppSettings, StoreSnapshot } from "@/types/store"
+import { getSnapshot, subscribe } from "@/lib/storage"
+
+// Re-renders when the selected part of the main-process state changes,
+// whichever window changed it. Selectors must return stored values, not new
+// objects, or every update re-renders.
+export function useStore<T>(selector: (snapshot: StoreSnapshot) => T): T {
+  return useSyncExternalStore(subscribe, () => selector(getSnapshot()))
+}
+
+export function useSettings(): AppSettings {
+  return useStore((s) => s.settings)
+}
+
+export function useCurrentConfig(): CrosshairConfig {
+  return useStore((s) => s.settings.currentConfig)
+}
+
+export function useLibrary(): CrosshairLibraryItem[] {
+  return useStore((s) => s.library)
+}
@@ -0,0 +1,63 @@
+import type { KeyboardEvent as ReactKeyboardEvent } from "react"
+
+// Converts browser keyboard events to Electron accelerator strings
+// see https://www.electronjs.org/docs/latest/api/accelerator
+
+const MODIFIER_KEYS = new Set(["Control", "Shift", "Alt", "Meta", "AltGraph", "OS"])
+
+const CODE_MAP: Record<string, string> = {
+  Space: "Space",
+  Enter: "Enter",
+  NumpadEnter: "Enter",
+  Tab: "Tab",
+  Backspace: "Backspace",
+  Delete: "Delete",
+  Insert: "Insert",
+  Home: "Home",
+  End: "End",
+  PageUp: "PageUp",
+  PageDown: "PageDown",
+  ArrowUp: "Up",
+  ArrowDown: "Down",
+  ArrowLeft: "Left",
+  ArrowRight: "Right",
+  Escape: "Escape",
+  Minus: "-",
+  Equal: "=",
+  BracketLeft: "[",
+  BracketRight: "]",
+  Backslash: "\\",
+  Semicolon: ";",
+  Quote: "'",
+  Comma: ",",
+  Period: ".",
+  Slash: "/",
+  Backquote: "`",
+  NumpadAdd: "numadd",
+  NumpadSubtract: "numsub",
+  NumpadMultiply: "nummult",
+  NumpadDivide: "numdiv",
+  NumpadDecimal: "numdec",
+  PrintScreen: "PrintScreen"
+}
+
+function keyFromCode(code: string): string | null {
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3)
+  if (/^Digit\d$/.test(code)) return code.slice(5)
+  if (/^Numpad\d$/.test(code)) return `num${code.slice(6)}`
+  if (/^F([1-9]|1\d|2[0-4])$/.test(code)) return code
+  return CODE_MAP[code] ?? null
+}
+
+export function acceleratorFromKeyboardEvent(e: KeyboardEvent | ReactKeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null
+  const key = keyFromCode(e.code)
+  if (!key) return null
+  const parts: string[] = []
+  if (e.ctrlKey) parts.push("Ctrl")
+  if (e.altKey) parts.push("Alt")
+  if (e.shiftKey) parts.push("Shift")
+  if (e.metaKey) parts.push("Super")
+  parts.push(key)
+  return parts.join("+")
+}
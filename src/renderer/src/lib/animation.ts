@@ -0,0 +1,95 @@
+import { widenGap, type CrosshairConfig } from "@/types/crosshair"
+
+// Values used while an animation's companion fields are unset
+export const ANIMATION_DEFAULTS = {
+  pulseOpacity: 0.4,
+  pulseScale: 1,
+  breatheGap: 4,
+  blinkDuty: 0.5,
+  animationFps: 30
+} satisfies Partial<CrosshairConfig>
+
+// One moment of an animated crosshair: the config with its gap and colors
+// moved along, and how the whole crosshair is faded, scaled and turned
+export type AnimationFrame = {
+  config: CrosshairConfig
+  opacity: number
+  scale: number
+  rotation: number
+}
+
+export function animationFrame(config: CrosshairConfig, seconds: number): AnimationFrame {
+  const pulse = wave(config.pulseRate, seconds)
+  const breath =
+    wave(config.breatheRate, seconds) * (config.breatheGap ?? ANIMATION_DEFAULTS.breatheGap)
+  const hue = ((config.hueCycleRate ?? 0) * seconds * 360) % 360
+  const blinkedOff =
+    !!config.blinkRate &&
+    (config.blinkRate * seconds) % 1 >= (config.blinkDuty ?? ANIMATION_DEFAULTS.blinkDuty)
+
+  let next = config
+  if (breath > 0) next = widenGap(next, breath)
+  if (hue !== 0) next = shiftHue(next, hue)
+  const lowest = config.pulseOpacity ?? ANIMATION_DEFAULTS.pulseOpacity
+  const largest = config.pulseScale ?? ANIMATION_DEFAULTS.pulseScale
+  return {
+    config: next,
+    opacity: blinkedOff ? 0 : 1 - pulse * (1 - lowest),
+    scale: 1 + pulse * (largest - 1),
+    rotation: ((config.spinSpeed ?? 0) * seconds) % 360
+  }
+}
+
+// 0 at the start of each cycle and 1 halfway through, easing both ways
+function wave(rate: number | undefined, seconds: number): number {
+  return rate ? (1 - Math.cos(2 * Math.PI * rate * seconds)) / 2 : 0
+}
+
+// Outlines keep their colors so the crosshair stays readable
+function shiftHue(config: CrosshairConfig, degrees: number): CrosshairConfig {
+  return {
+    ...config,
+    color: rotateHue(config.color, degrees),
+    centerDotColor: config.centerDotColor && rotateHue(config.centerDotColor, degrees),
+    layers: config.layers?.map((layer) => ({ ...layer, color: rotateHue(layer.color, degrees) }))
+  }
+}
+
+function rotateHue(hex: string, degrees: number): string {
+  const match = /^#([0-9a-f]{6})$/i.exec(hex)
+  if (!match) return hex
+  const value = parseInt(match[1], 16)
+  const [r, g, b] = [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((v) => v / 255)
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const lightness = (max + min) / 2
+  const delta = max - min
+  // grays have no hue to turn
+  if (delta === 0) return hex
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1))
+  const hue =
+    max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4
+  return hslToHex((hue * 60 + degrees + 720) % 360, saturation, lightness)
+}
+
+function hslToHex(hue: number, saturation: number, lightness: number): string {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1))
+  const m = lightness - chroma / 2
+  const sector = Math.floor(hue / 60)
+  const [r, g, b] = [
+    [chroma, x, 0],
+    [x, chroma, 0],
+    [0, chroma, x],
+    [0, x, chroma],
+    [x, 0, chroma],
+    [chroma, 0, x]
+  ][sector % 6]
+  return `#${[r, g, b]
+    .map((v) =>
+      Math.round((v + m) * 255)
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("")}`.toUpperCase()
+}
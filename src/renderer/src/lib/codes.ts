@@ -0,0 +1,18 @@
+import { toast } from "sonner"
+import { describeFieldErrors, type FieldError } from "@/types/crosshairSchema"
+
+// Lists settings that were dropped while converting to or from another game's code
+export function warnUnmapped(unmapped: string[]): void {
+  if (unmapped.length === 0) return
+  toast.warning("Some settings could not be converted", {
+    description: unmapped.join(", ")
+  })
+}
+
+// Lists the fields that failed validation in an imported config or code
+export function showFieldErrors(title: string, errors: FieldError[]): void {
+  toast.error(title, {
+    description: describeFieldErrors(errors),
+    classNames: { description: "whitespace-pre-line" }
+  })
+}
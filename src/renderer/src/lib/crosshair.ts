@@ -0,0 +1,109 @@
+import {
+  armGeometry,
+  armKeys,
+  crosshairArms,
+  parseViewBox,
+  widenGap,
+  type CrosshairConfig,
+  type CrosshairLayer
+} from "@/types/crosshair"
+import { ANIMATION_DEFAULTS } from "@/lib/animation"
+
+// How far a layer reaches from the center, outline included
+function layerReach(layer: CrosshairLayer): number {
+  const outline = layer.outline ? layer.outlineThickness : 0
+  const offset = Math.max(Math.abs(layer.offsetX), Math.abs(layer.offsetY))
+  switch (layer.primitive) {
+    case "lines":
+    case "x":
+      return offset + layer.length + layer.gap + layer.thickness + outline
+    case "dot":
+      return offset + layer.size + outline
+    case "ring":
+    case "arc":
+      return offset + layer.size + (layer.thickness + outline) / 2
+    case "image":
+      return offset + layer.size / 2
+  }
+}
+
+// How far a path reaches from the center at any rotation, outline included
+function pathReach(config: CrosshairConfig): number {
+  const [, , width, height] = parseViewBox(config.pathViewBox) ?? [0, 0, 24, 24]
+  const scale = config.pathScale ?? 1
+  const outline = config.outline ? (config.outlineThickness ?? 1) : 0
+  return (Math.hypot(width, height) / 2 + (config.pathStroke ?? 0) / 2) * scale + outline
+}
+
+// Side of the square SVG the crosshair fits in. Only classic arms can differ.
+export function crosshairSize(config: CrosshairConfig): number {
+  if (config.layers?.length) {
+    const reach = Math.max(...config.layers.map(layerReach))
+    return Math.max(Math.ceil(reach * 2) + 2, 64)
+  }
+  if (config.style === "path") {
+    return Math.max(Math.ceil(pathReach(config) * 2) + 2, 64)
+  }
+  const arms =
+    config.style === "classic" ? crosshairArms.map((arm) => armGeometry(config, arm)) : [config]
+  const reach = Math.max(...arms.map((a) => a.length + a.gap))
+  const thickness = Math.max(...arms.map((a) => a.thickness))
+  return Math.max(reach * 2 + thickness * 2, 64)
+}
+
+// Side of the square an overlay window needs to show the crosshair whole,
+// outlines included, while it animates or opens up by `spread` pixels
+export function overlayExtent(config: CrosshairConfig, spread = 0): number {
+  const breath = config.breatheRate ? (config.breatheGap ?? ANIMATION_DEFAULTS.breatheGap) : 0
+  const opened = spread + breath > 0 ? widenGap(config, spread + breath) : config
+  const outline = Math.max(
+    config.outline ? (config.outlineThickness ?? 1) : 0,
+    config.centerDotOutline ? (config.centerDotOutlineThickness ?? 1) : 0
+  )
+  let size = crosshairSize(opened) + outline * 2
+  if (config.pulseRate) {
+    size *= Math.max(1, config.pulseScale ?? ANIMATION_DEFAULTS.pulseScale)
+  }
+  // a turning square needs room for its diagonal
+  if (config.spinSpeed) size *= Math.SQRT2
+  return Math.ceil(size)
+}
+
+// Shrinks a config to fit a preview of `size` pixels, arms included
+export function scaleConfigToFit(config: CrosshairConfig, size: number): CrosshairConfig {
+  const scale = Math.min(1, size / crosshairSize(config))
+  const length = (v: number): number => Math.max(1, Math.round(v * scale))
+  const gap = (v: number): number => Math.max(0, Math.round(v * scale))
+  const thickness = (v: number): number => Math.max(1, Math.round(v * scale))
+  const scaled: CrosshairConfig = {
+    ...config,
+    enabled: true,
+    length: length(config.length),
+    gap: gap(config.gap),
+    thickness: thickness(config.thickness)
+  }
+  for (const arm of crosshairArms) {
+    const keys = armKeys[arm]
+    const armLength = config[keys.length]
+    const armGap = config[keys.gap]
+    const armThickness = config[keys.thickness]
+    if (armLength != null) scaled[keys.length] = length(armLength)
+    if (armGap != null) scaled[keys.gap] = gap(armGap)
+    if (armThickness != null) scaled[keys.thickness] = thickness(armThickness)
+  }
+  if (config.pathScale != null || config.style === "path") {
+    scaled.pathScale = (config.pathScale ?? 1) * scale
+  }
+  if (config.layers) {
+    scaled.layers = config.layers.map((layer) => ({
+      ...layer,
+      length: length(layer.length),
+      gap: gap(layer.gap),
+      thickness: thickness(layer.thickness),
+      size: Math.max(1, Math.round(layer.size * scale)),
+      offsetX: Math.round(layer.offsetX * scale),
+      offsetY: Math.round(layer.offsetY * scale)
+    }))
+  }
+  return scaled
+}
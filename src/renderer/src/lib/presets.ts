@@ -21,7 +21,7 @@ export const presets: { name: string; config: CrosshairConfig }[] = [
       color: "#ffffff",
       creator: "Parcoil",
       outline: true,
-      outlineColor: "#000",
+      outlineColor: "#000000",
       outlineThickness: 1.5,
       outlineOpacity: 1
     }
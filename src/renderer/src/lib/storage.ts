@@ -0,0 +1,72 @@
+import type { CrosshairConfig, CrosshairLibraryItem } from "@/types/crosshair"
+import {
+  defaultAppSettings,
+  legacyStorageKeys,
+  type AppSettings,
+  type LegacyStorage,
+  type StoreSnapshot
+} from "@/types/store"
+
+// Settings and the library are owned by the main process (see main/store.ts),
+// which broadcasts every change to all windows. This keeps the latest copy,
+// loaded before the first render so reads stay synchronous. Writes update the
+// copy right away and are saved in the background.
+let snapshot: StoreSnapshot = { settings: defaultAppSettings, library: [] }
+const listeners = new Set<() => void>()
+
+function setSnapshot(next: StoreSnapshot): void {
+  snapshot = next
+  for (const listener of listeners) listener()
+}
+
+// Only the settings window migrates; the overlay shares its localStorage
+export async function initStore({ migrate }: { migrate: boolean }): Promise<void> {
+  window.electron.ipcRenderer.on("store:changed", (_e, next: StoreSnapshot) => setSnapshot(next))
+  setSnapshot((await window.electron.ipcRenderer.invoke("store:get")) as StoreSnapshot)
+  if (!migrate || snapshot.settings.localStorageMigrated) return
+
+  const legacy: LegacyStorage = {}
+  for (const key of legacyStorageKeys) legacy[key] = localStorage.getItem(key)
+  setSnapshot(
+    (await window.electron.ipcRenderer.invoke(
+      "store:migrate-local-storage",
+      legacy
+    )) as StoreSnapshot
+  )
+  for (const key of legacyStorageKeys) localStorage.removeItem(key)
+}
+
+export function getSnapshot(): StoreSnapshot {
+  return snapshot
+}
+
+export function subscribe(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+export function getSettings(): AppSettings {
+  return snapshot.settings
+}
+
+export function updateSettings(patch: Partial<AppSettings>): void {
+  setSnapshot({ ...snapshot, settings: { ...snapshot.settings, ...patch } })
+  window.electron.ipcRenderer.invoke("store:update-settings", patch).catch(() => {})
+}
+
+export function loadCurrentConfig(): CrosshairConfig {
+  return snapshot.settings.currentConfig
+}
+
+export function saveCurrentConfig(config: CrosshairConfig): void {
+  updateSettings({ currentConfig: config })
+}
+
+export function loadLibrary(): CrosshairLibraryItem[] {
+  return snapshot.library
+}
+
+export function saveLibrary(items: CrosshairLibraryItem[]): void {
+  setSnapshot({ ...snapshot, library: items })
+  window.electron.ipcRenderer.invoke("store:set-library", items).catch(() => {})
+}
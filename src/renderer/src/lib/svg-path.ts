@@ -0,0 +1,148 @@
+import { MAX_PATH_DATA_LENGTH, PATH_DATA_PATTERN, parseViewBox } from "@/types/crosshair"
+
+export type SvgPathImport =
+  | {
+      ok: true
+      pathData: string
+      viewBox: string
+      fillRule: "nonzero" | "evenodd"
+      // stroke width in path units when the shapes are outlines, not fills
+      stroke?: number
+      warnings: string[]
+    }
+  | { ok: false; error: string }
+
+// Containers whose children are drawn in place
+const GROUPS = new Set(["svg", "g", "a", "switch"])
+
+// Only plain geometry is kept. Everything else (scripts, styles, <use> and
+// other references, foreignObject, text, images, filters...) is dropped.
+const SHAPES = new Set(["path", "rect", "circle", "ellipse", "line", "polyline", "polygon"])
+
+// Reads the drawable shapes of an .svg file into a single path
+export function parseSvgFile(text: string): SvgPathImport {
+  const doc = new DOMParser().parseFromString(text, "image/svg+xml")
+  const root = doc.documentElement
+  if (doc.querySelector("parsererror") || root.localName !== "svg") {
+    return { ok: false, error: "The file is not a valid SVG" }
+  }
+
+  const viewBox = readViewBox(root)
+  if (!viewBox) return { ok: false, error: "The SVG has no viewBox or size" }
+
+  const warnings = new Set<string>()
+  const shapes: Element[] = []
+  const walk = (el: Element): void => {
+    for (const child of Array.from(el.children)) {
+      if (style(child, "display") === "none") continue
+      if (GROUPS.has(child.localName)) walk(child)
+      else if (SHAPES.has(child.localName)) shapes.push(child)
+      else if (child.localName !== "title" && child.localName !== "desc") {
+        warnings.add(`<${child.localName}> elements were skipped`)
+      }
+      if (child.hasAttribute("transform")) warnings.add("Transforms were ignored")
+    }
+  }
+  walk(root)
+
+  const parts: string[] = []
+  for (const shape of shapes) {
+    const d = shapeToPath(shape)
+    if (d === null) {
+      warnings.add(`A <${shape.localName}> with invalid geometry was skipped`)
+      continue
+    }
+    if (d) parts.push(d)
+  }
+  if (parts.length === 0) return { ok: false, error: "The SVG has no shapes to draw" }
+
+  const pathData = parts.join(" ")
+  if (pathData.length > MAX_PATH_DATA_LENGTH) {
+    return { ok: false, error: "The SVG is too detailed to use as a crosshair" }
+  }
+
+  // shapes with no fill are drawn by their stroke, lines always are
+  const stroked = shapes.filter(
+    (s) => style(s, "fill") === "none" || s.localName === "line" || s.localName === "polyline"
+  )
+  if (stroked.length > 0 && stroked.length < shapes.length) {
+    warnings.add("Filled and outlined shapes were mixed; all are drawn filled")
+  }
+  const strokeWidth =
+    stroked.length === shapes.length ? parseFloat(style(shapes[0], "stroke-width") ?? "1") : NaN
+  const evenodd = shapes.some((s) => style(s, "fill-rule") === "evenodd")
+
+  return {
+    ok: true,
+    pathData,
+    viewBox: viewBox.join(" "),
+    fillRule: evenodd ? "evenodd" : "nonzero",
+    stroke: Number.isFinite(strokeWidth) && strokeWidth > 0 ? strokeWidth : undefined,
+    warnings: [...warnings]
+  }
+}
+
+function readViewBox(root: Element): [number, number, number, number] | null {
+  const viewBox = parseViewBox(root.getAttribute("viewBox") ?? undefined)
+  if (viewBox) return viewBox
+  const width = parseFloat(root.getAttribute("width") ?? "")
+  const height = parseFloat(root.getAttribute("height") ?? "")
+  return width > 0 && height > 0 ? [0, 0, width, height] : null
+}
+
+// A presentation property from the style attribute or the attribute itself,
+// inherited from the nearest ancestor that sets it
+function style(el: Element | null, name: string): string | undefined {
+  for (; el; el = el.parentElement) {
+    const inline = el
+      .getAttribute("style")
+      ?.split(";")
+      .map((rule) => rule.split(":").map((s) => s.trim()))
+      .find(([key]) => key === name)
+    if (inline?.[1]) return inline[1]
+    const attr = el.getAttribute(name)
+    if (attr) return attr.trim()
+  }
+  return undefined
+}
+
+// Path data for one shape, "" when it draws nothing, null when it is invalid
+function shapeToPath(el: Element): string | null {
+  const num = (name: string): number => parseFloat(el.getAttribute(name) ?? "0") || 0
+  switch (el.localName) {
+    case "path": {
+      const d = (el.getAttribute("d") ?? "").trim()
+      return PATH_DATA_PATTERN.test(d) ? d : null
+    }
+    case "rect": {
+      const [x, y, w, h] = [num("x"), num("y"), num("width"), num("height")]
+      if (w <= 0 || h <= 0) return ""
+      return `M${x} ${y}h${w}v${h}h${-w}Z`
+    }
+    case "circle":
+      return ellipse(num("cx"), num("cy"), num("r"), num("r"))
+    case "ellipse":
+      return ellipse(num("cx"), num("cy"), num("rx"), num("ry"))
+    case "line":
+      return `M${num("x1")} ${num("y1")}L${num("x2")} ${num("y2")}`
+    case "polyline":
+    case "polygon": {
+      const points = (el.getAttribute("points") ?? "")
+        .trim()
+        .split(/[\s,]+/)
+        .map(Number)
+      if (points.length < 4 || points.some((n) => !Number.isFinite(n))) return null
+      const pairs: string[] = []
+      for (let i = 0; i + 1 < points.length; i += 2) pairs.push(`${points[i]} ${points[i + 1]}`)
+      return `M${pairs.join("L")}${el.localName === "polygon" ? "Z" : ""}`
+    }
+    default:
+      return ""
+  }
+}
+
+// Two half arcs, since one arc cannot end where it starts
+function ellipse(cx: number, cy: number, rx: number, ry: number): string {
+  if (rx <= 0 || ry <= 0) return ""
+  return `M${cx - rx} ${cy}a${rx} ${ry} 0 1 0 ${rx * 2} 0a${rx} ${ry} 0 1 0 ${-rx * 2} 0Z`
+}
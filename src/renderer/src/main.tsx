@@ -5,6 +5,8 @@ import { createRoot } from "react-dom/client"
 import App from "./App"
 import { HashRouter as Router } from "react-router"
 import { PostHogProvider } from "posthog-js/react"
+import { initStore } from "./lib/storage"
+import ObsOverlay from "./components/obs-overlay"
 
 const options = {
   api_host: "https://us.i.posthog.com",
@@ -13,23 +15,33 @@ const options = {
 
 const params = new URLSearchParams(window.location.search)
 const isOverlay = params.get("overlay") === "1"
+// served to OBS by main/obs-server.ts, outside Electron
+const isObs = params.get("obs") === "1"
 
-if (isOverlay) {
+if (isOverlay || isObs) {
   document.body.style.background = "transparent"
 }
 
-createRoot(document.getElementById("root")!).render(
-  <StrictMode>
-    <ThemeProvider defaultTheme="system">
-      <Router>
-        <PostHogProvider
-          apiKey={"phc_yrKFrR0A214eflXwdPzDQ1Esf7qtw7USy0Zg8TdbqCT"}
-          //@ts-ignore
-          options={options}
-        >
-          <App />
-        </PostHogProvider>
-      </Router>
-    </ThemeProvider>
-  </StrictMode>
-)
+function render(): void {
+  createRoot(document.getElementById("root")!).render(
+    <StrictMode>
+      <ThemeProvider defaultTheme="system">
+        <Router>
+          <PostHogProvider
+            apiKey={"phc_yrKFrR0A214eflXwdPzDQ1Esf7qtw7USy0Zg8TdbqCT"}
+            //@ts-ignore
+            options={options}
+          >
+            <App />
+          </PostHogProvider>
+        </Router>
+      </ThemeProvider>
+    </StrictMode>
+  )
+}
+
+if (isObs) {
+  createRoot(document.getElementById("root")!).render(<ObsOverlay />)
+} else {
+  void initStore({ migrate: !isOverlay }).finally(render)
+}
@@ -1,13 +1,25 @@
-import { useEffect, useState } from "react"
+import { useState } from "react"
 import { useNavigate } from "react-router"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Crosshair } from "@/components/crosshair"
-import { CrosshairConfig, CrosshairLibraryItem, defaultConfig } from "@/types/crosshair"
+import { scaleConfigToFit } from "@/lib/crosshair"
+import { CrosshairConfig, CrosshairLibraryItem } from "@/types/crosshair"
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
 import { presets } from "@/lib/presets"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Home, Paintbrush, Import, Save, Trash2, Pencil, Download } from "lucide-react"
+import {
+  Home,
+  Paintbrush,
+  Import,
+  Save,
+  Trash2,
+  Pencil,
+  Download,
+  Gamepad2,
+  ClipboardPaste,
+  Share2
+} from "lucide-react"
 import { toast } from "sonner"
 import {
   AlertDialog,
@@ -18,21 +30,14 @@ import {
   AlertDialogTitle
 } from "@/components/ui/alert-dialog"
 import { Input } from "@/components/ui/input"
-
-const LS_KEY = "crosshairLibrary"
-
-function loadLibrary(): CrosshairLibraryItem[] {
-  try {
-    const raw = localStorage.getItem(LS_KEY)
-    return raw ? JSON.parse(raw) : []
-  } catch {
-    return []
-  }
-}
-
-function saveLibrary(items: CrosshairLibraryItem[]) {
-  localStorage.setItem(LS_KEY, JSON.stringify(items))
-}
+import ProfileAssignDialog from "@/components/profile-assign-dialog"
+import CodeImportDialog from "@/components/code-import-dialog"
+import { useCodePaste } from "@/hooks/code-paste"
+import { showFieldErrors, warnUnmapped } from "@/lib/codes"
+import { saveCurrentConfig, saveLibrary, updateSettings } from "@/lib/storage"
+import { useCurrentConfig, useLibrary } from "@/hooks/store"
+import type { ConfigValidationResult } from "@/types/crosshairSchema"
+import { codeFormats, type CodeDecodeResult, type CodeEncodeResult } from "@/types/codes"
 
 function makeId() {
   return Math.random().toString(36).slice(2, 10)
@@ -40,22 +45,13 @@ function makeId() {
 
 function Discover() {
   const navigate = useNavigate()
-  const [library, setLibrary] = useState<CrosshairLibraryItem[]>([])
-  const [current, setCurrent] = useState<CrosshairConfig>(defaultConfig)
+  const library = useLibrary()
+  const current = useCurrentConfig()
   const [query, setQuery] = useState("")
   const [confirmOpen, setConfirmOpen] = useState(false)
   const [pendingDelete, setPendingDelete] = useState<null | { id: string; name: string }>(null)
-
-  useEffect(() => {
-    setLibrary(loadLibrary())
-    const savedRaw = localStorage.getItem("currentConfig")
-    if (savedRaw) {
-      try {
-        const saved = JSON.parse(savedRaw)
-        setCurrent({ ...defaultConfig, ...saved })
-      } catch {}
-    }
-  }, [])
+  const [assigning, setAssigning] = useState<CrosshairLibraryItem | null>(null)
+  const [codeImportOpen, setCodeImportOpen] = useState(false)
 
   const addPresetToLibrary = (cfg: CrosshairConfig, name?: string) => {
     const item: CrosshairLibraryItem = {
@@ -64,30 +60,34 @@ function Discover() {
       createdAt: Date.now(),
       config: cfg
     }
-    const next = [item, ...library]
-    setLibrary(next)
-    saveLibrary(next)
+    saveLibrary([item, ...library])
     toast.success(`Preset "${item.name}" added to library`)
   }
 
-  const applyConfig = async (cfg: CrosshairConfig) => {
-    localStorage.setItem("currentConfig", JSON.stringify(cfg))
-    setCurrent(cfg)
-    await window.electron.ipcRenderer.invoke("overlay:update-config", cfg)
+  const applyConfig = (cfg: CrosshairConfig) => {
+    saveCurrentConfig(cfg)
     toast.success("Crosshair applied")
   }
 
   const importPresetFile = async () => {
     const imported = (await window.electron.ipcRenderer.invoke(
       "config:import"
-    )) as CrosshairConfig | null
-    if (imported) {
-      addPresetToLibrary({ ...defaultConfig, ...imported }, "Imported")
+    )) as ConfigValidationResult | null
+    if (!imported) return
+    if (imported.ok) {
+      addPresetToLibrary(imported.config, "Imported")
       toast.success("Preset imported successfully")
     } else {
-      toast.error("Failed to import preset")
+      showFieldErrors("Failed to import preset", imported.errors)
     }
   }
+  const importCode = (result: Extract<CodeDecodeResult, { ok: true }>): void => {
+    addPresetToLibrary(result.config, result.name || codeFormats[result.format])
+    warnUnmapped(result.unmapped)
+  }
+
+  useCodePaste(importCode)
+
   const exportItem = async (item: CrosshairLibraryItem) => {
     try {
       await window.electron.ipcRenderer.invoke("config:export", item.config)
@@ -96,10 +96,23 @@ function Discover() {
       toast.error("Failed to export preset")
     }
   }
+  const copyShareCode = async (item: CrosshairLibraryItem): Promise<void> => {
+    const result = (await window.electron.ipcRenderer.invoke(
+      "config:encode-code",
+      item.config,
+      "dotline",
+      item.name
+    )) as CodeEncodeResult
+    if (!result.ok) {
+      toast.error(result.error)
+      return
+    }
+    await navigator.clipboard.writeText(result.code)
+    toast.success(`Copied share code for "${item.name}"`)
+    warnUnmapped(result.unmapped)
+  }
   const deleteItem = (id: string) => {
-    const next = library.filter((i) => i.id !== id)
-    setLibrary(next)
-    saveLibrary(next)
+    saveLibrary(library.filter((i) => i.id !== id))
     toast.success("Preset deleted")
   }
 
@@ -114,18 +127,6 @@ function Discover() {
     })
   }
 
-  const scaleConfigForPreview = (cfg: CrosshairConfig, size: number): CrosshairConfig => {
-    const base = Math.max((cfg.length + cfg.gap) * 2 + cfg.thickness * 2, 64)
-    const scale = Math.min(1, size / base)
-    return {
-      ...cfg,
-      enabled: true,
-      length: Math.max(1, Math.round(cfg.length * scale)),
-      gap: Math.max(0, Math.round(cfg.gap * scale)),
-      thickness: Math.max(1, Math.round(cfg.thickness * scale))
-    }
-  }
-
   const CrosshairCard = ({
     name,
     config,
@@ -147,12 +148,12 @@ function Discover() {
           className="rounded-md border bg-foreground/40 dark:bg-background relative flex items-center justify-center shadow-sm transition-shadow group-hover:shadow-md"
           style={{ width: previewSize, height: previewSize }}
         >
-          <Crosshair mode="embed" config={scaleConfigForPreview(config, previewSize)} />
+          <Crosshair mode="embed" config={scaleConfigToFit(config, previewSize)} />
         </div>
         <p className="text-sm font-medium truncate w-full text-center">{name}</p>
         {creator && <p className="text-xs text-muted-foreground text-center">By {creator}</p>}
         {style && <p className="text-xs text-muted-foreground text-center">Type: {style}</p>}
-        <div className="flex gap-2 mt-2">{actions}</div>
+        <div className="flex flex-wrap justify-center gap-2 mt-2">{actions}</div>
       </CardContent>
     </Card>
   )
@@ -198,6 +199,9 @@ function Discover() {
           <Button variant="outline" onClick={importPresetFile}>
             <Import className="w-4 h-4 mr-2" /> Import Preset
           </Button>
+          <Button variant="outline" onClick={() => setCodeImportOpen(true)}>
+            <ClipboardPaste className="w-4 h-4 mr-2" /> Import Code
+          </Button>
           <Button onClick={saveCurrentToLibrary}>
             <Save className="w-4 h-4 mr-2" /> Save Current
           </Button>
@@ -251,7 +255,13 @@ function Discover() {
                   config={item.config}
                   actions={
                     <>
-                      <Button size="sm" onClick={() => applyConfig(item.config)}>
+                      <Button
+                        size="sm"
+                        onClick={() => {
+                          updateSettings({ currentLibraryItemId: item.id })
+                          applyConfig(item.config)
+                        }}
+                      >
                         Apply
                       </Button>
                       <TooltipButton label="Edit this crosshair">
@@ -259,6 +269,20 @@ function Discover() {
                           <Pencil className="w-4 h-4" />
                         </Button>
                       </TooltipButton>
+                      <TooltipButton label="Use this crosshair for a game">
+                        <Button size="sm" variant="secondary" onClick={() => setAssigning(item)}>
+                          <Gamepad2 className="w-4 h-4" />
+                        </Button>
+                      </TooltipButton>
+                      <TooltipButton label="Copy a share code for this crosshair">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => void copyShareCode(item)}
+                        >
+                          <Share2 className="w-4 h-4" />
+                        </Button>
+                      </TooltipButton>
                       <TooltipButton label="Export this crosshair configuration">
                         <Button size="sm" variant="outline" onClick={() => exportItem(item)}>
                           <Download className="w-4 h-4" />
@@ -314,6 +338,17 @@ function Discover() {
           </div>
         </TabsContent>
       </Tabs>
+      <ProfileAssignDialog
+        item={assigning}
+        onOpenChange={(open) => {
+          if (!open) setAssigning(null)
+        }}
+      />
+      <CodeImportDialog
+        open={codeImportOpen}
+        onOpenChange={setCodeImportOpen}
+        onImport={importCode}
+      />
       <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
         <AlertDialogContent forceMount>
           <AlertDialogHeader>
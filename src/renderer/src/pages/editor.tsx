@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react"
+import { useState } from "react"
 import { CrosshairConfig } from "../../../types/crosshair"
 import type { CrosshairLibraryItem } from "../../../types/crosshair"
 import { Label } from "../components/ui/label"
@@ -6,7 +6,8 @@ import { Input } from "../components/ui/input"
 import { Slider } from "../components/ui/slider"
 import { Button } from "../components/ui/button"
 import { Card, CardHeader, CardTitle, CardContent } from "../components/ui/card"
-import { defaultConfig } from "../../../types/crosshair"
+import { defaultConfig, outlineJoins, outlinePositions } from "../../../types/crosshair"
+import type { OutlineJoin, OutlinePosition } from "../../../types/crosshair"
 import { Switch } from "@/components/ui/switch"
 import {
   Select,
@@ -16,8 +17,25 @@ import {
   SelectValue
 } from "@/components/ui/select"
 import { Crosshair } from "@/components/crosshair"
+import { scaleConfigToFit } from "@/lib/crosshair"
 import { useLocation } from "react-router"
 import { toast } from "sonner"
+import CodeImportDialog from "@/components/code-import-dialog"
+import ArmsCard from "@/components/arms-card"
+import LayersCard from "@/components/layers-card"
+import PathCard from "@/components/path-card"
+import AnimationCard from "@/components/animation-card"
+import { useCodePaste } from "@/hooks/code-paste"
+import { showFieldErrors, warnUnmapped } from "@/lib/codes"
+import { loadLibrary, saveCurrentConfig, saveLibrary } from "@/lib/storage"
+import { useCurrentConfig } from "@/hooks/store"
+import type { ConfigValidationResult } from "@/types/crosshairSchema"
+import {
+  codeFormats,
+  type CodeDecodeResult,
+  type CodeEncodeResult,
+  type CodeFormat
+} from "@/types/codes"
 
 function Editor() {
   const location = useLocation()
@@ -27,21 +45,18 @@ function Editor() {
   const editingItemId = state.itemId
   const editingItemName = state.itemName
   const editingExisting = !!editingItemId
-  const [config, setConfig] = useState<CrosshairConfig>(navInitial ?? defaultConfig)
+  const current = useCurrentConfig()
+  // Unsaved edits. Without any the editor follows the applied config, which
+  // hotkeys, profiles or other pages may change while it is open.
+  const [draft, setDraft] = useState<CrosshairConfig | null>(navInitial ?? null)
+  const config = draft ?? current
+  const setConfig = (next: CrosshairConfig | ((c: CrosshairConfig) => CrosshairConfig)): void =>
+    setDraft((d) => (typeof next === "function" ? next(d ?? current) : next))
   const [saveName, setSaveName] = useState<string>("")
-
-  useEffect(() => {
-    if (!navInitial) {
-      const savedRaw = localStorage.getItem("currentConfig")
-      if (savedRaw) {
-        try {
-          const saved = JSON.parse(savedRaw) as Partial<CrosshairConfig>
-          const merged = { ...defaultConfig, ...saved }
-          setConfig(merged)
-        } catch {}
-      }
-    }
-  }, [])
+  const [codeImportOpen, setCodeImportOpen] = useState(false)
+  const [codeFormat, setCodeFormat] = useState<CodeFormat>("dotline")
+  // layers replace the style, appearance and arm settings
+  const layered = !!config.layers?.length
 
   const handleChange = <K extends keyof CrosshairConfig>(
     key: K,
@@ -50,20 +65,24 @@ function Editor() {
     setConfig((c) => ({ ...c, [key]: value }))
   }
 
-  const save = async (): Promise<void> => {
-    localStorage.setItem("currentConfig", JSON.stringify(config))
-    await window.electron.ipcRenderer.invoke("overlay:update-config", config)
+  const applyConfig = (next: CrosshairConfig): void => {
+    saveCurrentConfig(next)
+    // a library item being edited stays in the editor
+    setDraft(editingExisting ? next : null)
+  }
+
+  const save = (): void => {
+    applyConfig(config)
     toast.success("Applied current config")
   }
 
   const saveOverwriteOrNew = (): void => {
     if (editingExisting && editingItemId) {
       const library = loadLibrary()
-      const idx = library.findIndex((i) => i.id === editingItemId)
-      if (idx !== -1) {
-        library[idx] = { ...library[idx], config }
-        saveLibrary(library)
-        toast.success(`Saved to "${editingItemName || library[idx].name}"`)
+      const existing = library.find((i) => i.id === editingItemId)
+      if (existing) {
+        saveLibrary(library.map((i) => (i.id === existing.id ? { ...i, config } : i)))
+        toast.success(`Saved to "${editingItemName || existing.name}"`)
         return
       }
     }
@@ -90,32 +109,48 @@ function Editor() {
   }
 
   const handleImport = async (): Promise<void> => {
-    const imported = await window.electron.ipcRenderer.invoke("config:import")
-    if (imported) {
-      setConfig(imported as CrosshairConfig)
-      localStorage.setItem("currentConfig", JSON.stringify(imported))
-      await window.electron.ipcRenderer.invoke("overlay:update-config", imported as CrosshairConfig)
+    const imported = (await window.electron.ipcRenderer.invoke(
+      "config:import"
+    )) as ConfigValidationResult | null
+    if (!imported) return
+    if (imported.ok) {
+      applyConfig(imported.config)
       toast.success("Imported config successfully")
     } else {
-      toast.error("Import cancelled or failed")
+      showFieldErrors("Import failed", imported.errors)
     }
   }
 
-  const LS_KEY = "crosshairLibrary"
-  function loadLibrary(): CrosshairLibraryItem[] {
-    try {
-      const raw = localStorage.getItem(LS_KEY)
-      if (!raw) return []
-      const parsed = JSON.parse(raw)
-      if (!Array.isArray(parsed)) return []
-      return parsed
-    } catch {
-      return []
+  const importCode = (result: Extract<CodeDecodeResult, { ok: true }>): void => {
+    // codes only describe the crosshair; keep the current display and position
+    const imported: CrosshairConfig = {
+      ...result.config,
+      overlayDisplayId: config.overlayDisplayId,
+      offsetX: config.offsetX,
+      offsetY: config.offsetY
     }
+    applyConfig(imported)
+    toast.success(`Imported ${codeFormats[result.format]}`)
+    warnUnmapped(result.unmapped)
   }
-  function saveLibrary(items: CrosshairLibraryItem[]): void {
-    localStorage.setItem(LS_KEY, JSON.stringify(items))
+
+  useCodePaste(importCode)
+
+  const copyCode = async (): Promise<void> => {
+    const result = (await window.electron.ipcRenderer.invoke(
+      "config:encode-code",
+      config,
+      codeFormat
+    )) as CodeEncodeResult
+    if (!result.ok) {
+      toast.error(result.error)
+      return
+    }
+    await navigator.clipboard.writeText(result.code)
+    toast.success(`Copied ${codeFormats[result.format]}`)
+    warnUnmapped(result.unmapped)
   }
+
   function makeId(): string {
     return Math.random().toString(36).slice(2, 10)
   }
@@ -133,18 +168,6 @@ function Editor() {
     toast.success(`Saved "${item.name}" to library`)
   }
 
-  const scaleConfigForPreview = (cfg: CrosshairConfig, size: number): CrosshairConfig => {
-    const base = Math.max((cfg.length + cfg.gap) * 2 + cfg.thickness * 2, 64)
-    const scale = Math.min(1, size / base)
-    return {
-      ...cfg,
-      enabled: true,
-      length: Math.max(1, Math.round(cfg.length * scale)),
-      gap: Math.max(0, Math.round(cfg.gap * scale)),
-      thickness: Math.max(1, Math.round(cfg.thickness * scale))
-    }
-  }
-
   return (
     <div className="max-w-7xl mx-auto space-y-4">
       <header className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
@@ -179,7 +202,7 @@ function Editor() {
                   className="rounded-md border bg-white relative flex items-center justify-center"
                   style={{ width: 320, height: 320 }}
                 >
-                  <Crosshair mode="embed" config={scaleConfigForPreview(config, 300)} />
+                  <Crosshair mode="embed" config={scaleConfigToFit(config, 300)} />
                 </div>
               </div>
             </CardContent>
@@ -192,6 +215,26 @@ function Editor() {
             <Button onClick={handleExport} variant="outline" size="sm">
               Export
             </Button>
+            <Button onClick={() => setCodeImportOpen(true)} variant="outline" size="sm">
+              Import code
+            </Button>
+          </div>
+          <div className="mt-2 flex gap-2 justify-center items-center">
+            <Select value={codeFormat} onValueChange={(v) => setCodeFormat(v as CodeFormat)}>
+              <SelectTrigger size="sm" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(codeFormats) as CodeFormat[]).map((format) => (
+                  <SelectItem key={format} value={format}>
+                    {codeFormats[format]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={copyCode} variant="outline" size="sm">
+              Copy code
+            </Button>
             <Button onClick={save} size="sm">
               Apply to Current
             </Button>
@@ -213,6 +256,8 @@ function Editor() {
         </div>
         
         <div className="lg:col-span-7 space-y-4 overflow-y-auto max-h-screen pr-2">
+      {!layered && (
+      <>
       <Card>
         <CardHeader>
           <CardTitle>General</CardTitle>
@@ -230,6 +275,7 @@ function Editor() {
                 <SelectItem value="circle">Circle</SelectItem>
                 <SelectItem value="x">X</SelectItem>
                 <SelectItem value="image">Image</SelectItem>
+                <SelectItem value="path">Path</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -307,6 +353,8 @@ function Editor() {
         </Card>
       )}
 
+      {config.style === "path" && <PathCard config={config} setConfig={setConfig} />}
+
       <Card>
         <CardHeader>
           <CardTitle>Appearance</CardTitle>
@@ -431,6 +479,48 @@ function Editor() {
             </>
           )}
 
+          {(config.outline || config.centerDotOutline) && (
+            <>
+              <div className="flex items-center justify-between gap-4">
+                <Label>Outline Position</Label>
+                <Select
+                  value={config.outlinePosition ?? "outside"}
+                  onValueChange={(v) => handleChange("outlinePosition", v as OutlinePosition)}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(outlinePositions).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <Label>Outline Corners</Label>
+                <Select
+                  value={config.outlineJoin ?? "miter"}
+                  onValueChange={(v) => handleChange("outlineJoin", v as OutlineJoin)}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(outlineJoins).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
           <div className="flex items-center justify-between">
             <Label>Center Dot</Label>
             <Switch
@@ -567,8 +657,21 @@ function Editor() {
         </CardContent>
       </Card>
 
+      {config.style === "classic" && <ArmsCard config={config} setConfig={setConfig} />}
+      </>
+      )}
+
+      <LayersCard config={config} setConfig={setConfig} />
+
+      <AnimationCard config={config} setConfig={setConfig} />
+
         </div>
       </div>
+      <CodeImportDialog
+        open={codeImportOpen}
+        onOpenChange={setCodeImportOpen}
+        onImport={importCode}
+      />
     </div>
   )
 }
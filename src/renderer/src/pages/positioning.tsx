@@ -1,5 +1,5 @@
 import type React from "react"
-import { useEffect, useMemo, useState } from "react"
+import { useCallback, useEffect, useMemo, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
@@ -7,7 +7,11 @@ import { Button } from "@/components/ui/button"
 import type { CrosshairConfig } from "@/types/crosshair"
 import { defaultConfig } from "@/types/crosshair"
 import { Crosshair } from "@/components/crosshair"
+import { loadCurrentConfig, saveCurrentConfig, updateSettings } from "@/lib/storage"
+import { useCurrentConfig, useSettings } from "@/hooks/store"
 import { toast } from "sonner"
+import { overlayWindowModes, type DisplayInfo, type OverlayWindowMode } from "@/types/overlays"
+import DisplayOverlaysCard from "@/components/display-overlays-card"
 import {
   Select,
   SelectContent,
@@ -16,23 +20,17 @@ import {
   SelectValue
 } from "@/components/ui/select"
 
-type DisplayInfo = {
-  id: number
-  label: string
-  bounds: { x: number; y: number; width: number; height: number }
-  scaleFactor: number
-}
-
 function Positioning(): React.ReactElement {
-  const [config, setConfig] = useState<CrosshairConfig>(() => {
-    const raw = localStorage.getItem("currentConfig")
-    if (!raw) return defaultConfig
-    try {
-      return { ...defaultConfig, ...JSON.parse(raw) }
-    } catch {
-      return defaultConfig
-    }
-  })
+  const current = useCurrentConfig()
+  const { overlayWindow } = useSettings()
+  // unsaved changes; without any the page follows the applied config (nudge hotkeys)
+  const [draft, setDraft] = useState<CrosshairConfig | null>(null)
+  const config = draft ?? current
+  const setConfig = useCallback(
+    (next: CrosshairConfig | ((c: CrosshairConfig) => CrosshairConfig)): void =>
+      setDraft((d) => (typeof next === "function" ? next(d ?? current) : next)),
+    [current]
+  )
 
   const [displays, setDisplays] = useState<DisplayInfo[]>([])
 
@@ -45,11 +43,11 @@ function Positioning(): React.ReactElement {
       const currentId = (await window.electron.ipcRenderer.invoke("overlay:get-display")) as
         | number
         | null
-      if (currentId) {
+      if (currentId && currentId !== loadCurrentConfig().overlayDisplayId) {
         setConfig((c) => ({ ...c, overlayDisplayId: currentId }))
       }
     })()
-  }, [])
+  }, [setConfig])
 
   const handleChange = <K extends keyof CrosshairConfig>(
     key: K,
@@ -60,8 +58,8 @@ function Positioning(): React.ReactElement {
 
   const saveAndApply = async (): Promise<void> => {
     try {
-      localStorage.setItem("currentConfig", JSON.stringify(config))
-      await window.electron.ipcRenderer.invoke("overlay:update-config", config)
+      saveCurrentConfig(config)
+      setDraft(null)
       if (config.overlayDisplayId) {
         await window.electron.ipcRenderer.invoke("overlay:set-display", config.overlayDisplayId)
       }
@@ -134,6 +132,30 @@ function Positioning(): React.ReactElement {
               {currentDisplay.scaleFactor}
             </p>
           )}
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label>Overlay Window</Label>
+              <p className="text-xs text-muted-foreground mt-1">
+                Try &quot;Crosshair only&quot; if the crosshair disappears or the game stutters
+                while it is shown.
+              </p>
+            </div>
+            <Select
+              value={overlayWindow}
+              onValueChange={(v) => updateSettings({ overlayWindow: v as OverlayWindowMode })}
+            >
+              <SelectTrigger className="w-60">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(overlayWindowModes).map(([mode, label]) => (
+                  <SelectItem key={mode} value={mode}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </CardContent>
       </Card>
 
@@ -165,6 +187,8 @@ function Positioning(): React.ReactElement {
         </CardContent>
       </Card>
 
+      <DisplayOverlaysCard />
+
       <Card>
         <CardHeader>
           <CardTitle>Overlay Preview</CardTitle>
@@ -6,9 +6,18 @@ import { Button } from "@/components/ui/button"
 import { toast } from "sonner"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import type { WindowRef } from "@/types/windowAttach"
+import HotkeysCard from "@/components/hotkeys-card"
+import ProfilesCard from "@/components/profiles-card"
+import ControlServerCard from "@/components/control-server-card"
+import ObsServerCard from "@/components/obs-server-card"
+import GsiCard from "@/components/gsi-card"
+import AdsCard from "@/components/ads-card"
+import ContrastCard from "@/components/contrast-card"
+import SpreadCard from "@/components/spread-card"
+import { getSettings, updateSettings } from "@/lib/storage"
 
 function Settings() {
-  const [rpcEnabled, setRpcEnabled] = useState<boolean>(true)
+  const [rpcEnabled, setRpcEnabled] = useState<boolean>(() => getSettings().discordRpcEnabled)
   const [checking, setChecking] = useState(false)
   // Window attachment state
   const [unsupported, setUnsupported] = useState<boolean>(false)
@@ -16,18 +25,12 @@ function Settings() {
   const [selectedId, setSelectedId] = useState<number | null>(null)
   const [followFocused, setFollowFocused] = useState<boolean>(false)
 
-  useEffect(() => {
-    const disabled = localStorage.getItem("discordRpcDisabled")
-    setRpcEnabled(!(disabled === "true"))
-  }, [])
-
   const handleToggleRpc = async (checked: boolean) => {
     setRpcEnabled(checked)
+    updateSettings({ discordRpcEnabled: checked })
     if (checked) {
-      localStorage.removeItem("discordRpcDisabled")
       await window.electron.ipcRenderer.invoke("start-discord-rpc")
     } else {
-      localStorage.setItem("discordRpcDisabled", "true")
       await window.electron.ipcRenderer.invoke("stop-discord-rpc")
     }
   }
@@ -52,22 +55,13 @@ function Settings() {
 
   // --- Window Attachment Logic ---
   const loadPersisted = () => {
-    try {
-      const rawId = localStorage.getItem("windowAttachment.targetId")
-      const rawFollow = localStorage.getItem("windowAttachment.followFocused")
-      const id = rawId ? Number.parseInt(rawId, 10) : null
-      const follow = rawFollow === "true"
-      setSelectedId(Number.isFinite(id as number) ? (id as number) : null)
-      setFollowFocused(!!follow)
-    } catch {}
+    const { targetId, followFocused } = getSettings().windowAttachment
+    setSelectedId(targetId)
+    setFollowFocused(followFocused)
   }
 
   const persist = (id: number | null, follow: boolean) => {
-    try {
-      if (id == null) localStorage.removeItem("windowAttachment.targetId")
-      else localStorage.setItem("windowAttachment.targetId", String(id))
-      localStorage.setItem("windowAttachment.followFocused", follow ? "true" : "false")
-    } catch {}
+    updateSettings({ windowAttachment: { targetId: id, followFocused: follow } })
   }
 
   const fetchWindows = async () => {
@@ -86,23 +80,6 @@ function Settings() {
     void fetchWindows()
   }, [])
 
-  useEffect(() => {
-    // Apply persisted behavior on start
-    const apply = async () => {
-      try {
-        if (unsupported) return
-        if (followFocused) {
-          await window.electron.ipcRenderer.invoke("windowAttach.followFocused", true)
-        } else if (selectedId != null) {
-          await window.electron.ipcRenderer.invoke("windowAttach.attach", selectedId)
-        } else {
-          await window.electron.ipcRenderer.invoke("windowAttach.detach")
-        }
-      } catch {}
-    }
-    void apply()
-  }, [unsupported])
-
   const windowLabel = useMemo(() => {
     return (w: WindowRef) => {
       const cls = w.wmClass?.split(".")?.pop() || w.wmClass || ""
@@ -156,8 +133,8 @@ function Settings() {
         <CardContent className="space-y-3">
           {unsupported ? (
             <p className="text-sm text-muted-foreground">
-              Window attachment requires an X11 session on Linux. On Wayland, this feature is
-              disabled.
+              Window attachment is available on Linux with X11, Sway, Hyprland or KDE Plasma. It is
+              disabled on this desktop.
             </p>
           ) : (
             <>
@@ -195,6 +172,22 @@ function Settings() {
         </CardContent>
       </Card>
 
+      <ProfilesCard />
+
+      <HotkeysCard />
+
+      <AdsCard />
+
+      <ContrastCard />
+
+      <SpreadCard />
+
+      <GsiCard />
+
+      <ControlServerCard />
+
+      <ObsServerCard />
+
       <Card>
         <CardHeader>
           <CardTitle>Discord Rich Presence</CardTitle>
@@ -0,0 +1,49 @@
+import { defaultConfig, type CrosshairConfig } from "./crosshair"
+
+// Alternate crosshair shown while aiming down sights, i.e. while the binding
+// is held (see main/ads.ts).
+
+const letters = Object.fromEntries(
+  Array.from({ length: 26 }, (_, i) => String.fromCharCode(65 + i)).map((k) => [k, k])
+)
+
+// binding id -> label
+export const adsBindings: Record<string, string> = {
+  MouseRight: "Right mouse button",
+  MouseMiddle: "Middle mouse button",
+  Mouse4: "Mouse button 4 (back)",
+  Mouse5: "Mouse button 5 (forward)",
+  Shift: "Shift",
+  Control: "Ctrl",
+  Alt: "Alt",
+  CapsLock: "Caps Lock",
+  Space: "Space",
+  Tab: "Tab",
+  ...letters
+}
+
+export type AdsSettings = {
+  enabled: boolean
+  binding: string
+  // show no crosshair at all while aiming
+  hide: boolean
+  // library item the ADS config was picked from, for display only
+  libraryItemId: string | null
+  // position comes from the hipfire config, so offsets here are ignored
+  config: CrosshairConfig
+}
+
+export const defaultAdsSettings: AdsSettings = {
+  enabled: false,
+  binding: "MouseRight",
+  hide: false,
+  libraryItemId: null,
+  config: { ...defaultConfig, style: "dot", thickness: 3 }
+}
+
+export type AdsStatus = {
+  // false where there is no global input hook (only X11 has one)
+  supported: boolean
+  running: boolean
+  error: string | null
+}
@@ -0,0 +1,25 @@
+import type { CrosshairConfig } from "./crosshair"
+import type { FieldError } from "./crosshairSchema"
+
+// Text codes that can be converted to and from a CrosshairConfig: Dotline's
+// own share codes and crosshair codes from other games
+export type CodeFormat = "dotline" | "valorant" | "cs2" | "cs2-commands"
+
+export const codeFormats: Record<CodeFormat, string> = {
+  dotline: "Dotline share code",
+  valorant: "Valorant code",
+  cs2: "CS2 share code",
+  "cs2-commands": "CS2 console commands"
+}
+
+// `unmapped` lists settings that have no Dotline equivalent and were dropped.
+// `name` is the library item name carried by Dotline share codes.
+export type CodeDecodeResult =
+  | { ok: true; format: CodeFormat; config: CrosshairConfig; unmapped: string[]; name?: string }
+  // format is null when the text is not recognized as any known code.
+  // `errors` is set when the code decoded but holds out of range values.
+  | { ok: false; format: CodeFormat | null; error: string; errors?: FieldError[] }
+
+export type CodeEncodeResult =
+  | { ok: true; format: CodeFormat; code: string; unmapped: string[] }
+  | { ok: false; format: CodeFormat; error: string }
@@ -0,0 +1,77 @@
+import type { CrosshairConfig } from "./crosshair"
+
+// Adaptive contrast: the main process samples the screen around the
+// crosshair and recolors it with the palette color that stands out most
+// against what is behind it (see main/contrast.ts).
+
+export type ContrastTarget = "color" | "outline"
+
+export const contrastTargets: Record<ContrastTarget, string> = {
+  color: "Crosshair color",
+  outline: "Outline color"
+}
+
+export type ContrastSettings = {
+  enabled: boolean
+  target: ContrastTarget
+  // samples per second
+  rate: number
+  // side in pixels of the square sampled around the crosshair center
+  regionSize: number
+  // "#RRGGBB" colors to pick from
+  palette: string[]
+}
+
+export const CONTRAST_RATE = { min: 1, max: 20 }
+export const CONTRAST_REGION = { min: 8, max: 256 }
+export const MAX_CONTRAST_PALETTE = 8
+
+export const defaultContrastSettings: ContrastSettings = {
+  enabled: false,
+  target: "color",
+  rate: 4,
+  regionSize: 48,
+  palette: ["#00FF00", "#FF00FF", "#00FFFF", "#FFFF00", "#FFFFFF", "#000000"]
+}
+
+// What the overlay applies over the current crosshair while enabled
+export type ContrastAdjustment = { color: string } | { outlineColor: string }
+
+// The crosshair recolored by an adjustment. Layers are recolored too, since
+// a layered crosshair draws none of the top level colors. Outline colors
+// turn the outline on, or they would have nothing to show.
+export function applyContrast(
+  config: CrosshairConfig,
+  adjustment: ContrastAdjustment | null
+): CrosshairConfig {
+  if (!adjustment) return config
+  if ("color" in adjustment) {
+    const { color } = adjustment
+    return {
+      ...config,
+      color,
+      centerDotColor: color,
+      layers: config.layers?.map((layer) => ({ ...layer, color }))
+    }
+  }
+  const { outlineColor } = adjustment
+  return {
+    ...config,
+    outline: true,
+    outlineColor,
+    centerDotOutlineColor: outlineColor,
+    layers: config.layers?.map((layer) => ({ ...layer, outline: true, outlineColor }))
+  }
+}
+
+export type ContrastStatus = {
+  // false where captures need a permission prompt each time (Wayland)
+  supported: boolean
+  running: boolean
+  // sampling stops while the overlay is hidden
+  paused: boolean
+  error: string | null
+  // average "#RRGGBB" of the last sample and the palette color picked for it
+  background: string | null
+  picked: string | null
+}
@@ -0,0 +1,49 @@
+import type { CrosshairConfig } from "./crosshair"
+import type { AttachMode } from "./windowAttach"
+
+// Local control API for Stream Deck and scripts. See README for the endpoints.
+
+export type ControlServerSettings = {
+  enabled: boolean
+  port: number
+  // generated by the main process when the server is first enabled
+  token: string
+}
+
+export const defaultControlServerSettings: ControlServerSettings = {
+  enabled: false,
+  port: 47800,
+  token: ""
+}
+
+export type ControlStatus = {
+  running: boolean
+  port: number | null
+  error: string | null
+}
+
+export type ControlState = {
+  overlayEnabled: boolean
+  crosshairEnabled: boolean
+  libraryItem: { id: string; name: string } | null
+  displayId: number | null
+  offset: { x: number; y: number }
+  attachment: { mode: AttachMode; targetId: number | null }
+  config: CrosshairConfig
+}
+
+export type ControlCommand =
+  | { command: "toggle" }
+  | { command: "show" }
+  | { command: "hide" }
+  // library item id, or its name (case-insensitive)
+  | { command: "apply"; item: string }
+  // profile name (case-insensitive)
+  | { command: "profile"; name: string }
+  | { command: "offset"; x: number; y: number; relative?: boolean }
+  | { command: "display"; id: number }
+  | { command: "attach"; windowId: number }
+  | { command: "follow" }
+  | { command: "detach" }
+
+export type ControlResult = { ok: true; state: ControlState } | { ok: false; error: string }
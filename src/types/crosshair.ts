@@ -1,6 +1,70 @@
-export type CrosshairStyle = "classic" | "dot" | "circle" | "x" | "image"
+export type CrosshairStyle = "classic" | "dot" | "circle" | "x" | "image" | "path"
+
+export type CrosshairArm = "top" | "right" | "bottom" | "left"
+export const crosshairArms: CrosshairArm[] = ["top", "right", "bottom", "left"]
+
+// How outlines sit on a shape's edges. outlineThickness is the width the
+// outline adds across a shape, so each edge gets half of it either outside
+// the shape or straddling the edge.
+export type OutlinePosition = "outside" | "center"
+export const outlinePositions: Record<OutlinePosition, string> = {
+  outside: "Outside",
+  center: "On the edge"
+}
+
+export type OutlineJoin = "miter" | "round" | "bevel"
+export const outlineJoins: Record<OutlineJoin, string> = {
+  miter: "Sharp",
+  round: "Round",
+  bevel: "Beveled"
+}
+
+export type LayerPrimitive = "lines" | "dot" | "ring" | "x" | "image" | "arc"
+export const layerPrimitives: Record<LayerPrimitive, string> = {
+  lines: "Lines",
+  dot: "Dot",
+  ring: "Ring",
+  x: "X",
+  image: "Image",
+  arc: "Arc"
+}
+
+// One shape of a layered crosshair, drawn around the center moved by its offset.
+// lines and x use length, gap and thickness; dot, ring and arc use size as
+// their radius (with thickness as the ring's stroke); image uses size as its width.
+export type CrosshairLayer = {
+  id: string
+  primitive: LayerPrimitive
+  visible: boolean
+  color: string
+  opacity: number
+  thickness: number
+  length: number
+  gap: number
+  size: number
+  outline: boolean
+  outlineColor: string
+  outlineThickness: number
+  outlineOpacity: number
+  outlinePosition?: OutlinePosition
+  outlineJoin?: OutlineJoin
+  offsetX: number
+  offsetY: number
+  imageUrl?: string
+  dotShape?: "circle" | "square"
+  // degrees clockwise from straight up
+  arcStart?: number
+  arcSweep?: number
+}
+
+export const MAX_LAYERS = 16
+
+// Bump when a stored or exported config needs rewriting to load correctly,
+// and add the step to the migrations in crosshairSchema.ts
+export const CURRENT_SCHEMA_VERSION = 1
 
 export type CrosshairConfig = {
+  schemaVersion?: number
   enabled: boolean
   style: CrosshairStyle
   color: string
@@ -8,6 +72,24 @@ export type CrosshairConfig = {
   thickness: number
   length: number
   gap: number
+  // Per-arm overrides for the classic style. Unset values use the shared
+  // thickness, length and gap; a disabled arm is not drawn (T-style)
+  armTopEnabled?: boolean
+  armTopLength?: number
+  armTopThickness?: number
+  armTopGap?: number
+  armRightEnabled?: boolean
+  armRightLength?: number
+  armRightThickness?: number
+  armRightGap?: number
+  armBottomEnabled?: boolean
+  armBottomLength?: number
+  armBottomThickness?: number
+  armBottomGap?: number
+  armLeftEnabled?: boolean
+  armLeftLength?: number
+  armLeftThickness?: number
+  armLeftGap?: number
   centerDot?: boolean
   centerDotSize?: number
   centerDotOpacity?: number
@@ -22,12 +104,263 @@ export type CrosshairConfig = {
   outlineColor?: string
   outlineThickness?: number
   outlineOpacity?: number
+  // Shared by the outline and the center dot outline
+  outlinePosition?: OutlinePosition
+  outlineJoin?: OutlineJoin
   creator?: string
   overlayDisplayId?: number
   offsetX?: number
   offsetY?: number
   imageUrl?: string
   imageSize?: number
+  // The path style: SVG path data drawn in color, centered on the middle of
+  // pathViewBox ("minX minY width height") at pathScale pixels per unit.
+  // With pathStroke set the path is stroked that wide (in path units) instead
+  // of filled.
+  pathData?: string
+  pathViewBox?: string
+  pathFillRule?: "nonzero" | "evenodd"
+  pathStroke?: number
+  pathScale?: number
+  pathRotation?: number
+  // Animations, drawn by the overlay only. Each is off while its rate (in
+  // cycles per second) is 0 or unset.
+  // pulse: fades down to pulseOpacity and grows up to pulseScale times the size
+  pulseRate?: number
+  pulseOpacity?: number
+  pulseScale?: number
+  // degrees per second, negative turns counterclockwise
+  spinSpeed?: number
+  // trips around the color wheel, keeping each color's saturation and lightness
+  hueCycleRate?: number
+  // widens the gap by up to breatheGap pixels
+  breatheRate?: number
+  breatheGap?: number
+  // shown for blinkDuty (0 to 1) of each blink
+  blinkRate?: number
+  blinkDuty?: number
+  // redraws per second while animating, at most
+  animationFps?: number
+  // When not empty the layers are drawn bottom to top in place of the style
+  // and center dot above
+  layers?: CrosshairLayer[]
+}
+
+export type ArmGeometry = {
+  enabled: boolean
+  length: number
+  thickness: number
+  gap: number
+}
+
+export const armKeys = {
+  top: {
+    enabled: "armTopEnabled",
+    length: "armTopLength",
+    thickness: "armTopThickness",
+    gap: "armTopGap"
+  },
+  right: {
+    enabled: "armRightEnabled",
+    length: "armRightLength",
+    thickness: "armRightThickness",
+    gap: "armRightGap"
+  },
+  bottom: {
+    enabled: "armBottomEnabled",
+    length: "armBottomLength",
+    thickness: "armBottomThickness",
+    gap: "armBottomGap"
+  },
+  left: {
+    enabled: "armLeftEnabled",
+    length: "armLeftLength",
+    thickness: "armLeftThickness",
+    gap: "armLeftGap"
+  }
+} as const satisfies Record<CrosshairArm, Record<keyof ArmGeometry, keyof CrosshairConfig>>
+
+export function armGeometry(config: CrosshairConfig, arm: CrosshairArm): ArmGeometry {
+  const keys = armKeys[arm]
+  return {
+    enabled: config[keys.enabled] ?? true,
+    length: config[keys.length] ?? config.length,
+    thickness: config[keys.thickness] ?? config.thickness,
+    gap: config[keys.gap] ?? config.gap
+  }
+}
+
+// True when any arm has its own length, thickness or gap
+export function hasArmOverrides(config: CrosshairConfig): boolean {
+  return crosshairArms.some((arm) => {
+    const keys = armKeys[arm]
+    return config[keys.length] != null || config[keys.thickness] != null || config[keys.gap] != null
+  })
+}
+
+export function makeLayerId(): string {
+  return Math.random().toString(36).slice(2, 10)
+}
+
+const defaultLayerSize: Record<LayerPrimitive, number> = {
+  lines: 0,
+  dot: 2,
+  ring: 10,
+  x: 0,
+  image: 32,
+  arc: 10
+}
+
+export function makeLayer(
+  primitive: LayerPrimitive,
+  patch: Partial<CrosshairLayer> = {}
+): CrosshairLayer {
+  return {
+    id: makeLayerId(),
+    primitive,
+    visible: true,
+    color: defaultConfig.color,
+    opacity: 1,
+    thickness: 2,
+    length: 5,
+    gap: 3,
+    size: defaultLayerSize[primitive],
+    outline: false,
+    outlineColor: "#000000",
+    outlineThickness: 1,
+    outlineOpacity: 1,
+    offsetX: 0,
+    offsetY: 0,
+    ...(primitive === "image" ? { imageUrl: "" } : {}),
+    ...(primitive === "dot" ? { dotShape: "circle" as const } : {}),
+    ...(primitive === "arc" ? { arcStart: -45, arcSweep: 90 } : {}),
+    ...patch
+  }
+}
+
+// Why converting a config to layers would change its look, or null when it
+// would not: lines layers draw four equal arms and no layer draws a path
+export function layerConversionProblem(config: CrosshairConfig): string | null {
+  if (config.style === "path") {
+    return "Path crosshairs cannot be layered. Pick another style to stack shapes."
+  }
+  const armsDiffer =
+    hasArmOverrides(config) || crosshairArms.some((arm) => !armGeometry(config, arm).enabled)
+  if (config.style === "classic" && armsDiffer) {
+    return "Layers draw all four arms alike. Reset the per-arm settings to convert this crosshair."
+  }
+  return null
+}
+
+// The layers that draw what a single-style config shows, so converting a
+// crosshair to layers keeps its look (see layerConversionProblem)
+export function layersFromStyle(config: CrosshairConfig): CrosshairLayer[] {
+  const shared = {
+    color: config.color,
+    opacity: config.opacity,
+    thickness: config.thickness,
+    length: config.length,
+    gap: config.gap,
+    outline: !!config.outline,
+    outlineColor: config.outlineColor ?? "#000000",
+    outlineThickness: config.outlineThickness ?? 1,
+    outlineOpacity: config.outlineOpacity ?? 1,
+    outlinePosition: config.outlinePosition,
+    outlineJoin: config.outlineJoin
+  }
+  const layers: CrosshairLayer[] = []
+  switch (config.style) {
+    case "classic":
+    case "x":
+      layers.push(makeLayer(config.style === "x" ? "x" : "lines", shared))
+      break
+    case "dot":
+      layers.push(makeLayer("dot", { ...shared, size: Math.max(1, config.thickness) }))
+      break
+    case "circle":
+      layers.push(
+        makeLayer("ring", {
+          ...shared,
+          outline: false,
+          size: config.gap + Math.max(2, config.length)
+        })
+      )
+      break
+    case "image":
+      layers.push(
+        makeLayer("image", {
+          opacity: config.opacity,
+          imageUrl: config.imageUrl ?? "",
+          size: config.imageSize ?? 32
+        })
+      )
+      break
+    case "path":
+      // no layer draws a path
+      break
+  }
+  if (config.centerDot) {
+    const size = config.centerDotSize ?? Math.max(1, config.thickness / 2)
+    // a square center dot is size wide, a round one size in radius
+    const square = config.centerDotShape === "square"
+    layers.push(
+      makeLayer("dot", {
+        color: config.centerDotColor ?? config.color,
+        opacity: config.centerDotOpacity ?? config.opacity,
+        size: square ? size / 2 : size,
+        dotShape: config.centerDotShape ?? "circle",
+        outline: !!config.centerDotOutline,
+        outlineColor: config.centerDotOutlineColor ?? "#000000",
+        outlineThickness: config.centerDotOutlineThickness ?? 1,
+        outlineOpacity: config.centerDotOutlineOpacity ?? 1,
+        outlinePosition: config.outlinePosition,
+        outlineJoin: config.outlineJoin
+      })
+    )
+  }
+  return layers
+}
+
+// The crosshair opened up by `extra` pixels, per-arm gaps and the gaps of
+// line layers included
+export function widenGap(config: CrosshairConfig, extra: number): CrosshairConfig {
+  const next: CrosshairConfig = { ...config, gap: config.gap + extra }
+  for (const arm of crosshairArms) {
+    const armGap = config[armKeys[arm].gap]
+    if (armGap != null) next[armKeys[arm].gap] = armGap + extra
+  }
+  next.layers = config.layers?.map((layer) =>
+    layer.primitive === "lines" || layer.primitive === "x"
+      ? { ...layer, gap: layer.gap + extra }
+      : layer
+  )
+  return next
+}
+
+// True when the overlay has something to animate
+export function isAnimated(config: CrosshairConfig): boolean {
+  return [
+    config.pulseRate,
+    config.spinSpeed,
+    config.hueCycleRate,
+    config.breatheRate,
+    config.blinkRate
+  ].some((v) => !!v)
+}
+
+// Path data holds only commands and numbers, so it cannot carry markup,
+// scripts or references to other documents
+export const PATH_DATA_PATTERN = /^[MmLlHhVvCcSsQqTtAaZzEe\d\s,.+-]*$/
+export const MAX_PATH_DATA_LENGTH = 64 * 1024
+
+export function parseViewBox(viewBox: string | undefined): [number, number, number, number] | null {
+  const parts = (viewBox ?? "")
+    .trim()
+    .split(/[\s,]+/)
+    .map(Number)
+  if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) return null
+  if (parts[2] <= 0 || parts[3] <= 0) return null
+  return parts as [number, number, number, number]
 }
 
 export type CrosshairLibraryItem = {
@@ -37,6 +370,7 @@ export type CrosshairLibraryItem = {
   config: CrosshairConfig
 }
 export const defaultConfig: CrosshairConfig = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   enabled: true,
   style: "classic",
   color: "#22C55E",
@@ -0,0 +1,390 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  MAX_LAYERS,
+  MAX_PATH_DATA_LENGTH,
+  PATH_DATA_PATTERN,
+  armKeys,
+  crosshairArms,
+  defaultConfig,
+  layerPrimitives,
+  makeLayer,
+  makeLayerId,
+  outlineJoins,
+  outlinePositions,
+  parseViewBox,
+  type CrosshairConfig,
+  type CrosshairLayer,
+  type CrosshairLibraryItem,
+  type CrosshairStyle,
+  type LayerPrimitive
+} from "./crosshair"
+
+// `field` is a CrosshairConfig key, or "config" for problems with the whole
+// input; those messages are full sentences
+export type FieldError = { field: string; message: string }
+
+export type ConfigValidationResult =
+  | { ok: true; config: CrosshairConfig }
+  | { ok: false; errors: FieldError[] }
+
+type Rule =
+  | { kind: "boolean" }
+  | { kind: "number"; min: number; max: number }
+  | { kind: "color" }
+  | { kind: "enum"; values: readonly string[] }
+  | { kind: "string"; maxLength: number }
+  | { kind: "image" }
+  | { kind: "layers" }
+  | { kind: "pathData" }
+  | { kind: "viewBox" }
+
+const opacity: Rule = { kind: "number", min: 0, max: 1 }
+const color: Rule = { kind: "color" }
+const thickness: Rule = { kind: "number", min: 0, max: 50 }
+const length: Rule = { kind: "number", min: 0, max: 250 }
+const gap: Rule = { kind: "number", min: 0, max: 200 }
+// cycles per second of an animation
+const rate: Rule = { kind: "number", min: 0, max: 20 }
+const outlinePosition: Rule = { kind: "enum", values: Object.keys(outlinePositions) }
+const outlineJoin: Rule = { kind: "enum", values: Object.keys(outlineJoins) }
+const STYLES: readonly CrosshairStyle[] = ["classic", "dot", "circle", "x", "image", "path"]
+const PRIMITIVES = Object.keys(layerPrimitives) as LayerPrimitive[]
+
+// Inlined images are data URLs; a few MB is already far bigger than any crosshair
+const MAX_IMAGE_URL_LENGTH = 5 * 1024 * 1024
+
+// Ranges are looser than the editor sliders so codes from other games that
+// go past them still import
+const rules: Record<keyof CrosshairConfig, Rule> = {
+  schemaVersion: { kind: "number", min: 0, max: CURRENT_SCHEMA_VERSION },
+  enabled: { kind: "boolean" },
+  style: { kind: "enum", values: STYLES },
+  color,
+  opacity,
+  thickness,
+  length,
+  gap,
+  armTopEnabled: { kind: "boolean" },
+  armTopLength: length,
+  armTopThickness: thickness,
+  armTopGap: gap,
+  armRightEnabled: { kind: "boolean" },
+  armRightLength: length,
+  armRightThickness: thickness,
+  armRightGap: gap,
+  armBottomEnabled: { kind: "boolean" },
+  armBottomLength: length,
+  armBottomThickness: thickness,
+  armBottomGap: gap,
+  armLeftEnabled: { kind: "boolean" },
+  armLeftLength: length,
+  armLeftThickness: thickness,
+  armLeftGap: gap,
+  centerDot: { kind: "boolean" },
+  centerDotSize: { kind: "number", min: 0, max: 50 },
+  centerDotOpacity: opacity,
+  centerDotThickness: { kind: "number", min: 0, max: 50 },
+  centerDotColor: color,
+  centerDotShape: { kind: "enum", values: ["circle", "square"] },
+  centerDotOutline: { kind: "boolean" },
+  centerDotOutlineColor: color,
+  centerDotOutlineThickness: { kind: "number", min: 0, max: 20 },
+  centerDotOutlineOpacity: opacity,
+  outline: { kind: "boolean" },
+  outlineColor: color,
+  outlineThickness: { kind: "number", min: 0, max: 20 },
+  outlineOpacity: opacity,
+  outlinePosition,
+  outlineJoin,
+  creator: { kind: "string", maxLength: 100 },
+  overlayDisplayId: { kind: "number", min: -(2 ** 53), max: 2 ** 53 },
+  offsetX: { kind: "number", min: -10000, max: 10000 },
+  offsetY: { kind: "number", min: -10000, max: 10000 },
+  imageUrl: { kind: "image" },
+  imageSize: { kind: "number", min: 1, max: 512 },
+  pathData: { kind: "pathData" },
+  pathViewBox: { kind: "viewBox" },
+  pathFillRule: { kind: "enum", values: ["nonzero", "evenodd"] },
+  pathStroke: { kind: "number", min: 0, max: 1000 },
+  pathScale: { kind: "number", min: 0.01, max: 100 },
+  pathRotation: { kind: "number", min: -360, max: 360 },
+  pulseRate: rate,
+  pulseOpacity: opacity,
+  pulseScale: { kind: "number", min: 0.1, max: 4 },
+  spinSpeed: { kind: "number", min: -3600, max: 3600 },
+  hueCycleRate: rate,
+  breatheRate: rate,
+  breatheGap: gap,
+  blinkRate: rate,
+  blinkDuty: opacity,
+  animationFps: { kind: "number", min: 1, max: 240 },
+  layers: { kind: "layers" }
+}
+
+const layerRules: Record<keyof CrosshairLayer, Rule> = {
+  id: { kind: "string", maxLength: 64 },
+  primitive: { kind: "enum", values: PRIMITIVES },
+  visible: { kind: "boolean" },
+  color,
+  opacity,
+  thickness,
+  length,
+  gap,
+  size: { kind: "number", min: 0, max: 512 },
+  outline: { kind: "boolean" },
+  outlineColor: color,
+  outlineThickness: { kind: "number", min: 0, max: 20 },
+  outlineOpacity: opacity,
+  outlinePosition,
+  outlineJoin,
+  offsetX: { kind: "number", min: -1000, max: 1000 },
+  offsetY: { kind: "number", min: -1000, max: 1000 },
+  imageUrl: { kind: "image" },
+  dotShape: { kind: "enum", values: ["circle", "square"] },
+  arcStart: { kind: "number", min: -360, max: 360 },
+  arcSweep: { kind: "number", min: 0, max: 360 }
+}
+
+type RawConfig = Record<string, unknown>
+
+// migrations[n] upgrades a version n config to n + 1. Configs saved before
+// versioning have no schemaVersion and count as version 0.
+const migrations: ((raw: RawConfig) => RawConfig)[] = [
+  // v0 -> v1: old exports were hand-edited and may hold "#0f0" colors or
+  // numbers as strings; the overlay only renders six digit hex colors
+  (raw) => {
+    const next: RawConfig = { ...raw }
+    for (const [key, rule] of Object.entries(rules)) {
+      const value = next[key]
+      if (rule.kind === "color" && typeof value === "string") {
+        const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(value.trim())
+        if (short) next[key] = `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`
+      } else if (rule.kind === "number" && typeof value === "string" && value.trim() !== "") {
+        const n = Number(value)
+        if (Number.isFinite(n)) next[key] = n
+      }
+    }
+    return next
+  }
+]
+
+// Layer fields share their labels with the config fields of the same name
+const LABELS: Partial<Record<keyof CrosshairConfig | keyof CrosshairLayer, string>> = {
+  // "Top arm length", "Left arm shown", ...
+  ...Object.fromEntries(
+    crosshairArms.flatMap((arm) => {
+      const name = `${arm.charAt(0).toUpperCase()}${arm.slice(1)} arm`
+      const keys = armKeys[arm]
+      return [
+        [keys.enabled, `${name} shown`],
+        [keys.length, `${name} length`],
+        [keys.thickness, `${name} thickness`],
+        [keys.gap, `${name} gap`]
+      ]
+    })
+  ),
+  imageUrl: "Image",
+  imageSize: "Image size",
+  centerDotSize: "Center dot size",
+  centerDotThickness: "Center dot thickness",
+  centerDotOpacity: "Center dot opacity",
+  centerDotColor: "Center dot color",
+  centerDotShape: "Center dot shape",
+  centerDotOutlineColor: "Center dot outline color",
+  centerDotOutlineThickness: "Center dot outline thickness",
+  centerDotOutlineOpacity: "Center dot outline opacity",
+  outlineColor: "Outline color",
+  outlineThickness: "Outline thickness",
+  outlineOpacity: "Outline opacity",
+  outlinePosition: "Outline position",
+  outlineJoin: "Outline corners",
+  overlayDisplayId: "Display",
+  offsetX: "Horizontal offset",
+  offsetY: "Vertical offset",
+  schemaVersion: "Schema version",
+  dotShape: "Dot shape",
+  arcStart: "Arc start",
+  arcSweep: "Arc sweep",
+  pathData: "Path data",
+  pathViewBox: "Path view box",
+  pathFillRule: "Path fill rule",
+  pathStroke: "Path stroke width",
+  pathScale: "Path scale",
+  pathRotation: "Path rotation",
+  pulseRate: "Pulse speed",
+  pulseOpacity: "Pulse opacity",
+  pulseScale: "Pulse size",
+  spinSpeed: "Spin speed",
+  hueCycleRate: "Color cycle speed",
+  breatheRate: "Breathing speed",
+  breatheGap: "Breathing gap",
+  blinkRate: "Blink speed",
+  blinkDuty: "Blink on time",
+  animationFps: "Animation frame rate"
+}
+
+export function fieldLabel(field: string): string {
+  const label = LABELS[field as keyof typeof LABELS]
+  return label ?? field.charAt(0).toUpperCase() + field.slice(1)
+}
+
+function checkField(rule: Rule, value: unknown): string | null {
+  switch (rule.kind) {
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be true or false"
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return "must be a number"
+      if (value < rule.min || value > rule.max) {
+        return `must be between ${rule.min} and ${rule.max}`
+      }
+      return null
+    case "color":
+      return typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value)
+        ? null
+        : "must be a hex color like #22C55E"
+    case "enum":
+      return typeof value === "string" && rule.values.includes(value)
+        ? null
+        : `must be one of ${rule.values.join(", ")}`
+    case "string":
+      if (typeof value !== "string") return "must be text"
+      return value.length <= rule.maxLength ? null : `must be at most ${rule.maxLength} characters`
+    case "image":
+      if (typeof value !== "string") return "must be an image URL"
+      if (value.length > MAX_IMAGE_URL_LENGTH) return "is too large"
+      return value === "" || /^(data:image\/|https?:\/\/)/i.test(value)
+        ? null
+        : "must be an http(s) or data:image URL"
+    case "layers":
+      return checkLayers(value)
+    case "pathData":
+      if (typeof value !== "string") return "must be SVG path data"
+      if (value.length > MAX_PATH_DATA_LENGTH) return "is too large"
+      return PATH_DATA_PATTERN.test(value) ? null : "must only hold SVG path commands and numbers"
+    case "viewBox":
+      return typeof value === "string" && parseViewBox(value)
+        ? null
+        : "must be four numbers like 0 0 24 24"
+  }
+}
+
+function checkLayers(value: unknown): string | null {
+  if (!Array.isArray(value)) return "must be a list of layers"
+  if (value.length > MAX_LAYERS) return `must have at most ${MAX_LAYERS} layers`
+  for (const [index, layer] of value.entries()) {
+    if (!layer || typeof layer !== "object" || Array.isArray(layer)) {
+      return `has an invalid layer ${index + 1}`
+    }
+    for (const [field, rule] of Object.entries(layerRules)) {
+      const fieldValue = (layer as Record<string, unknown>)[field]
+      // missing fields take the defaults of the layer's primitive
+      if (fieldValue === undefined && field !== "primitive") continue
+      const message = checkField(rule, fieldValue)
+      if (message) return `layer ${index + 1}: ${fieldLabel(field)} ${message}`
+    }
+  }
+  return null
+}
+
+// Fills in missing layer fields and drops unknown ones. Invalid fields fall
+// back to the primitive's defaults; layers without a known primitive are dropped.
+function sanitizeLayers(value: unknown): CrosshairLayer[] {
+  if (!Array.isArray(value)) return []
+  const layers: CrosshairLayer[] = []
+  for (const raw of value.slice(0, MAX_LAYERS)) {
+    if (!raw || typeof raw !== "object" || !PRIMITIVES.includes(raw.primitive)) continue
+    const layer: Record<string, unknown> = makeLayer(raw.primitive as LayerPrimitive)
+    for (const [field, rule] of Object.entries(layerRules)) {
+      const fieldValue = raw[field]
+      if (fieldValue !== undefined && !checkField(rule, fieldValue)) layer[field] = fieldValue
+    }
+    if (!layer.id) layer.id = makeLayerId()
+    layers.push(layer as CrosshairLayer)
+  }
+  return layers
+}
+
+function migrate(raw: RawConfig): { config: RawConfig } | { error: FieldError } {
+  const version = raw.schemaVersion ?? 0
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    return { error: { field: "schemaVersion", message: "must be a whole number" } }
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    return {
+      error: {
+        field: "schemaVersion",
+        message: "is from a newer version of Dotline. Update Dotline to import it"
+      }
+    }
+  }
+  let config = raw
+  for (let v = version; v < CURRENT_SCHEMA_VERSION; v++) config = migrations[v](config)
+  return { config: { ...config, schemaVersion: CURRENT_SCHEMA_VERSION } }
+}
+
+// Migrates and checks a config from outside the app (an imported file or
+// code). Unknown keys are dropped and missing optional fields are filled from
+// defaultConfig. Every invalid field is reported, not just the first.
+export function validateConfig(raw: unknown): ConfigValidationResult {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { ok: false, errors: [{ field: "config", message: "Not a crosshair config" }] }
+  }
+  const migrated = migrate(raw as RawConfig)
+  if ("error" in migrated) return { ok: false, errors: [migrated.error] }
+
+  const source = { ...defaultConfig, ...migrated.config } as RawConfig
+  const config: RawConfig = {}
+  const errors: FieldError[] = []
+  for (const [field, rule] of Object.entries(rules)) {
+    const value = source[field]
+    if (value === undefined) continue
+    const message = checkField(rule, value)
+    if (message) errors.push({ field, message })
+    else config[field] = rule.kind === "layers" ? sanitizeLayers(value) : value
+  }
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, config: config as CrosshairConfig }
+}
+
+// For configs the app stored itself: never fails, invalid fields fall back to
+// their defaults (or are dropped) so one bad value cannot break the overlay
+export function sanitizeConfig(raw: unknown): CrosshairConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { ...defaultConfig }
+  }
+  const migrated = migrate(raw as RawConfig)
+  const source = {
+    ...defaultConfig,
+    ...("config" in migrated ? migrated.config : raw)
+  } as RawConfig
+  const config: RawConfig = { schemaVersion: CURRENT_SCHEMA_VERSION }
+  for (const [field, rule] of Object.entries(rules)) {
+    if (field === "schemaVersion") continue
+    const value = source[field]
+    if (value === undefined) continue
+    if (rule.kind === "layers") config[field] = sanitizeLayers(value)
+    else if (!checkField(rule, value)) config[field] = value
+    else if (field in defaultConfig) config[field] = defaultConfig[field]
+  }
+  return config as CrosshairConfig
+}
+
+export function sanitizeLibrary(raw: unknown): CrosshairLibraryItem[] {
+  if (!Array.isArray(raw)) return []
+  const items: CrosshairLibraryItem[] = []
+  for (const item of raw) {
+    if (!item || typeof item !== "object" || typeof item.id !== "string" || !item.id) continue
+    items.push({
+      id: item.id,
+      name: typeof item.name === "string" ? item.name : "Crosshair",
+      createdAt: typeof item.createdAt === "number" ? item.createdAt : 0,
+      config: sanitizeConfig(item.config)
+    })
+  }
+  return items
+}
+
+export function describeFieldErrors(errors: FieldError[]): string {
+  return errors
+    .map((e) => (e.field === "config" ? e.message : `${fieldLabel(e.field)} ${e.message}`))
+    .join("\n")
+}
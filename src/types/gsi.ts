@@ -0,0 +1,46 @@
+// CS2 Game State Integration: the game POSTs its state to a local endpoint
+// listed in a gamestate_integration_*.cfg file (see main/gsi.ts).
+
+export type WeaponClass = "sniper" | "rifle" | "pistol" | "knife"
+
+export const weaponClasses: Record<WeaponClass, string> = {
+  sniper: "Sniper rifles",
+  rifle: "Rifles",
+  pistol: "Pistols",
+  knife: "Knife"
+}
+
+export type GsiHideWhen = {
+  // GSI does not report scoping, so this hides while a sniper rifle is held
+  sniper: boolean
+  dead: boolean
+  spectating: boolean
+  menu: boolean
+}
+
+export type GsiSettings = {
+  enabled: boolean
+  port: number
+  // sent back by the game in every payload; generated on first enable
+  token: string
+  hideWhen: GsiHideWhen
+  // library item to switch to per weapon class; null keeps the current crosshair
+  weaponCrosshairs: Record<WeaponClass, string | null>
+}
+
+export const defaultGsiSettings: GsiSettings = {
+  enabled: false,
+  port: 47802,
+  token: "",
+  hideWhen: { sniper: false, dead: true, spectating: true, menu: true },
+  weaponCrosshairs: { sniper: null, rifle: null, pistol: null, knife: null }
+}
+
+export type GsiStatus = {
+  running: boolean
+  error: string | null
+  // a payload arrived recently, i.e. CS2 is running with the cfg installed
+  connected: boolean
+  weaponClass: WeaponClass | null
+  hidden: boolean
+}
@@ -0,0 +1,43 @@
+export type HotkeyAction =
+  | "toggleOverlay"
+  | "hideWhileHeld"
+  | "nextCrosshair"
+  | "previousCrosshair"
+  | "nudgeUp"
+  | "nudgeDown"
+  | "nudgeLeft"
+  | "nudgeRight"
+
+export type HotkeyBindings = Record<HotkeyAction, string | null>
+
+export type HotkeyState = {
+  bindings: HotkeyBindings
+  // actions whose accelerator could not be registered (usually taken by another app)
+  failed: HotkeyAction[]
+}
+
+export type HotkeySetResult =
+  | { ok: true; state: HotkeyState }
+  | { ok: false; error: string; conflictWith?: HotkeyAction }
+
+export const hotkeyActions: { action: HotkeyAction; label: string }[] = [
+  { action: "toggleOverlay", label: "Toggle crosshair" },
+  { action: "hideWhileHeld", label: "Hide while held" },
+  { action: "nextCrosshair", label: "Next library crosshair" },
+  { action: "previousCrosshair", label: "Previous library crosshair" },
+  { action: "nudgeUp", label: "Nudge up" },
+  { action: "nudgeDown", label: "Nudge down" },
+  { action: "nudgeLeft", label: "Nudge left" },
+  { action: "nudgeRight", label: "Nudge right" }
+]
+
+export const defaultHotkeyBindings: HotkeyBindings = {
+  toggleOverlay: "Alt+Shift+C",
+  hideWhileHeld: null,
+  nextCrosshair: "Alt+Shift+N",
+  previousCrosshair: "Alt+Shift+P",
+  nudgeUp: null,
+  nudgeDown: null,
+  nudgeLeft: null,
+  nudgeRight: null
+}
@@ -0,0 +1,28 @@
+import type { CrosshairConfig } from "./crosshair"
+
+// Local page that shows the crosshair as an OBS browser source, since window
+// and display capture do not pick up the transparent overlay window.
+
+export type ObsServerSettings = {
+  enabled: boolean
+  port: number
+}
+
+export const defaultObsServerSettings: ObsServerSettings = {
+  enabled: false,
+  port: 47801
+}
+
+export type ObsServerStatus = {
+  running: boolean
+  // address to paste into OBS while running
+  url: string | null
+  error: string | null
+}
+
+// Pushed to the page as a server-sent event on every change
+export type ObsState = {
+  // false while the overlay is hidden
+  visible: boolean
+  config: CrosshairConfig
+}
@@ -0,0 +1,46 @@
+// Crosshairs on more displays than the main overlay's, e.g. one game per
+// screen or a reference marker on a second monitor (see main/overlays.ts).
+// Each gets its own overlay window; the main overlay keeps drawing the
+// current crosshair, attaching to windows and reacting to ADS and the like.
+
+// How much an overlay window covers: its whole display (or attached window),
+// or just the crosshair, for games and compositors that treat a transparent
+// display-sized window as covering the game
+export type OverlayWindowMode = "display" | "compact"
+
+export const overlayWindowModes: Record<OverlayWindowMode, string> = {
+  display: "Whole display",
+  compact: "Crosshair only"
+}
+
+export type DisplayOverlay = {
+  displayId: number
+  enabled: boolean
+  // library crosshair drawn there; null draws the current crosshair
+  libraryItemId: string | null
+  // from the center of the display, in place of the crosshair's own offset
+  offsetX: number
+  offsetY: number
+}
+
+export const MAX_DISPLAY_OVERLAYS = 8
+
+export function makeDisplayOverlay(displayId: number): DisplayOverlay {
+  return { displayId, enabled: true, libraryItemId: null, offsetX: 0, offsetY: 0 }
+}
+
+export type DisplayInfo = {
+  id: number
+  label: string
+  bounds: { x: number; y: number; width: number; height: number }
+  scaleFactor: number
+}
+
+// A connected display as the positioning page lists it
+export type OverlayDisplay = DisplayInfo & {
+  // the main overlay is on this display
+  main: boolean
+  overlay: DisplayOverlay | null
+  // an overlay window of its own is open there
+  open: boolean
+}
@@ -0,0 +1,72 @@
+import type { CrosshairConfig } from "./crosshair"
+import type { WindowRef } from "./windowAttach"
+
+// A rule matches when every field it sets matches the focused window
+export type ProfileRule = {
+  // exact WM_CLASS, either the full "instance.Class" string or one of its parts
+  wmClass?: string
+  // JavaScript regular expression tested against the window title
+  titlePattern?: string
+}
+
+export type CrosshairProfile = {
+  id: string
+  name: string
+  libraryItemId: string | null
+  // snapshot of the library item so the profile still works if the item is deleted
+  config: CrosshairConfig
+  rules: ProfileRule[]
+}
+
+export type ProfileSettings = {
+  enabled: boolean
+  defaultProfileId: string | null
+  profiles: CrosshairProfile[]
+}
+
+export type ProfileStatus = {
+  supported: boolean
+  activeProfileId: string | null
+  focusedWindow: WindowRef | null
+}
+
+export type ProfileActivation = {
+  profile: CrosshairProfile
+  window: WindowRef | null
+}
+
+export const defaultProfileSettings: ProfileSettings = {
+  enabled: false,
+  defaultProfileId: null,
+  profiles: []
+}
+
+export function ruleMatches(rule: ProfileRule, win: WindowRef): boolean {
+  const wmClass = rule.wmClass?.trim()
+  const titlePattern = rule.titlePattern?.trim()
+  if (!wmClass && !titlePattern) return false
+  if (wmClass) {
+    const parts = win.wmClass.split(".")
+    if (win.wmClass !== wmClass && !parts.includes(wmClass)) return false
+  }
+  if (titlePattern) {
+    try {
+      if (!new RegExp(titlePattern).test(win.title)) return false
+    } catch {
+      return false
+    }
+  }
+  return true
+}
+
+export function findMatchingProfile(
+  settings: ProfileSettings,
+  win: WindowRef | null
+): CrosshairProfile | null {
+  if (win) {
+    const match = settings.profiles.find((p) => p.rules.some((r) => ruleMatches(r, win)))
+    if (match) return match
+  }
+  if (!settings.defaultProfileId) return null
+  return settings.profiles.find((p) => p.id === settings.defaultProfileId) ?? null
+}
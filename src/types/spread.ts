@@ -0,0 +1,61 @@
+// Dynamic spread: the main process watches global input and widens the
+// crosshair's gap while the player moves, fires or turns, like the bloom of
+// a game's own crosshair (see main/spread.ts).
+
+// How the gap follows the spread as it builds up
+export type SpreadCurve = "linear" | "easeOut" | "easeIn"
+
+export const spreadCurves: Record<SpreadCurve, string> = {
+  linear: "Evenly",
+  easeOut: "Quickly at first",
+  easeIn: "Slowly at first"
+}
+
+export type SpreadSettings = {
+  enabled: boolean
+  // what opens the crosshair: W, A, S or D held, the left mouse button held,
+  // and turning with the mouse (faster turns open it wider)
+  movement: boolean
+  firing: boolean
+  mouse: boolean
+  curve: SpreadCurve
+  // pixels added to the gap at full spread
+  maxGap: number
+  // milliseconds the gap takes to close from full spread once input stops
+  recoveryMs: number
+  // gap updates sent to the overlay per second, at most
+  rate: number
+}
+
+export const SPREAD_MAX_GAP = { min: 1, max: 100 }
+export const SPREAD_RECOVERY = { min: 50, max: 3000 }
+export const SPREAD_RATE = { min: 5, max: 60 }
+
+export const defaultSpreadSettings: SpreadSettings = {
+  enabled: false,
+  movement: true,
+  firing: true,
+  mouse: false,
+  curve: "easeOut",
+  maxGap: 12,
+  recoveryMs: 400,
+  rate: 30
+}
+
+export function spreadAmount(curve: SpreadCurve, spread: number): number {
+  switch (curve) {
+    case "linear":
+      return spread
+    case "easeOut":
+      return 1 - (1 - spread) ** 2
+    case "easeIn":
+      return spread ** 2
+  }
+}
+
+export type SpreadStatus = {
+  // false where there is no global input hook (only X11 has one)
+  supported: boolean
+  running: boolean
+  error: string | null
+}
@@ -0,0 +1,208 @@
+import { defaultConfig, type CrosshairConfig, type CrosshairLibraryItem } from "./crosshair"
+import { sanitizeConfig } from "./crosshairSchema"
+import { defaultControlServerSettings, type ControlServerSettings } from "./control"
+import { defaultObsServerSettings, type ObsServerSettings } from "./obs"
+import { adsBindings, defaultAdsSettings, type AdsSettings } from "./ads"
+import { defaultGsiSettings, weaponClasses, type GsiSettings, type WeaponClass } from "./gsi"
+import {
+  CONTRAST_RATE,
+  CONTRAST_REGION,
+  MAX_CONTRAST_PALETTE,
+  contrastTargets,
+  defaultContrastSettings,
+  type ContrastSettings
+} from "./contrast"
+import {
+  SPREAD_MAX_GAP,
+  SPREAD_RATE,
+  SPREAD_RECOVERY,
+  defaultSpreadSettings,
+  spreadCurves,
+  type SpreadSettings
+} from "./spread"
+import {
+  MAX_DISPLAY_OVERLAYS,
+  overlayWindowModes,
+  type DisplayOverlay,
+  type OverlayWindowMode
+} from "./overlays"
+
+// App state persisted by the main process in settings.json. The crosshair
+// library is kept separately in library.json.
+export type AppSettings = {
+  currentConfig: CrosshairConfig
+  // library item the current config was picked from, used for cycling
+  currentLibraryItemId: string | null
+  overlayEnabled: boolean
+  overlayWindow: OverlayWindowMode
+  discordRpcEnabled: boolean
+  onboardingSeen: boolean
+  windowAttachment: { targetId: number | null; followFocused: boolean }
+  controlServer: ControlServerSettings
+  obsServer: ObsServerSettings
+  gsi: GsiSettings
+  ads: AdsSettings
+  contrast: ContrastSettings
+  spread: SpreadSettings
+  // crosshairs on other displays, at most one per display
+  displayOverlays: DisplayOverlay[]
+  // set once the settings the renderer used to keep in localStorage were imported
+  localStorageMigrated: boolean
+}
+
+export const defaultAppSettings: AppSettings = {
+  currentConfig: defaultConfig,
+  currentLibraryItemId: null,
+  overlayEnabled: true,
+  overlayWindow: "display",
+  discordRpcEnabled: true,
+  onboardingSeen: false,
+  windowAttachment: { targetId: null, followFocused: false },
+  controlServer: defaultControlServerSettings,
+  obsServer: defaultObsServerSettings,
+  gsi: defaultGsiSettings,
+  ads: defaultAdsSettings,
+  contrast: defaultContrastSettings,
+  spread: defaultSpreadSettings,
+  displayOverlays: [],
+  localStorageMigrated: false
+}
+
+export type StoreSnapshot = { settings: AppSettings; library: CrosshairLibraryItem[] }
+
+// localStorage keys read by the one-time migration, with their raw values
+export const legacyStorageKeys = [
+  "currentConfig",
+  "crosshairLibrary",
+  "currentLibraryItemId",
+  "overlayEnabled",
+  "discordRpcDisabled",
+  "onboardingSeen",
+  "windowAttachment.targetId",
+  "windowAttachment.followFocused"
+] as const
+
+export type LegacyStorage = Partial<Record<(typeof legacyStorageKeys)[number], string | null>>
+
+const isPort = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) > 0 && (value as number) < 65536
+
+// own keys only, so "constructor" and the like are not taken for a choice
+const isChoice = <K extends string>(labels: Record<K, string>, value: unknown): value is K =>
+  typeof value === "string" && Object.hasOwn(labels, value)
+
+const inRange = (value: unknown, range: { min: number; max: number }): value is number =>
+  typeof value === "number" && value >= range.min && value <= range.max
+
+export function sanitizeAppSettings(raw: unknown): AppSettings {
+  if (!raw || typeof raw !== "object") return { ...defaultAppSettings }
+  const r = raw as Record<string, unknown>
+  const record = (value: unknown): Record<string, unknown> =>
+    value && typeof value === "object" ? (value as Record<string, unknown>) : {}
+  const attach = record(r.windowAttachment)
+  const control = record(r.controlServer)
+  const obs = record(r.obsServer)
+  const gsi = record(r.gsi)
+  const hideWhen = record(gsi.hideWhen)
+  const weaponCrosshairs = record(gsi.weaponCrosshairs)
+  const ads = record(r.ads)
+  const contrast = record(r.contrast)
+  const spread = record(r.spread)
+  const palette = Array.isArray(contrast.palette)
+    ? contrast.palette
+        .filter((c): c is string => typeof c === "string" && /^#[0-9a-f]{6}$/i.test(c))
+        .slice(0, MAX_CONTRAST_PALETTE)
+    : []
+  const bool = (value: unknown, fallback: boolean): boolean =>
+    typeof value === "boolean" ? value : fallback
+  const offset = (value: unknown): number =>
+    typeof value === "number" && Math.abs(value) <= 10000 ? value : 0
+  const displayOverlays: DisplayOverlay[] = []
+  for (const raw of Array.isArray(r.displayOverlays) ? r.displayOverlays : []) {
+    const overlay = record(raw)
+    const displayId = overlay.displayId
+    if (typeof displayId !== "number" || !Number.isInteger(displayId)) continue
+    if (displayOverlays.some((o) => o.displayId === displayId)) continue
+    displayOverlays.push({
+      displayId,
+      enabled: bool(overlay.enabled, true),
+      libraryItemId: typeof overlay.libraryItemId === "string" ? overlay.libraryItemId : null,
+      offsetX: offset(overlay.offsetX),
+      offsetY: offset(overlay.offsetY)
+    })
+  }
+  return {
+    currentConfig: sanitizeConfig(r.currentConfig),
+    currentLibraryItemId:
+      typeof r.currentLibraryItemId === "string" ? r.currentLibraryItemId : null,
+    overlayEnabled: bool(r.overlayEnabled, defaultAppSettings.overlayEnabled),
+    overlayWindow: isChoice(overlayWindowModes, r.overlayWindow)
+      ? r.overlayWindow
+      : defaultAppSettings.overlayWindow,
+    discordRpcEnabled: bool(r.discordRpcEnabled, defaultAppSettings.discordRpcEnabled),
+    onboardingSeen: bool(r.onboardingSeen, defaultAppSettings.onboardingSeen),
+    windowAttachment: {
+      targetId: Number.isInteger(attach.targetId) ? (attach.targetId as number) : null,
+      followFocused: bool(attach.followFocused, false)
+    },
+    controlServer: {
+      enabled: bool(control.enabled, false),
+      port: isPort(control.port) ? control.port : defaultControlServerSettings.port,
+      token: typeof control.token === "string" ? control.token : ""
+    },
+    obsServer: {
+      enabled: bool(obs.enabled, false),
+      port: isPort(obs.port) ? obs.port : defaultObsServerSettings.port
+    },
+    gsi: {
+      enabled: bool(gsi.enabled, false),
+      port: isPort(gsi.port) ? gsi.port : defaultGsiSettings.port,
+      token: typeof gsi.token === "string" ? gsi.token : "",
+      hideWhen: {
+        sniper: bool(hideWhen.sniper, defaultGsiSettings.hideWhen.sniper),
+        dead: bool(hideWhen.dead, defaultGsiSettings.hideWhen.dead),
+        spectating: bool(hideWhen.spectating, defaultGsiSettings.hideWhen.spectating),
+        menu: bool(hideWhen.menu, defaultGsiSettings.hideWhen.menu)
+      },
+      weaponCrosshairs: Object.fromEntries(
+        (Object.keys(weaponClasses) as WeaponClass[]).map((c) => [
+          c,
+          typeof weaponCrosshairs[c] === "string" ? weaponCrosshairs[c] : null
+        ])
+      ) as Record<WeaponClass, string | null>
+    },
+    ads: {
+      enabled: bool(ads.enabled, false),
+      binding: isChoice(adsBindings, ads.binding) ? ads.binding : defaultAdsSettings.binding,
+      hide: bool(ads.hide, false),
+      libraryItemId: typeof ads.libraryItemId === "string" ? ads.libraryItemId : null,
+      config: ads.config ? sanitizeConfig(ads.config) : defaultAdsSettings.config
+    },
+    contrast: {
+      enabled: bool(contrast.enabled, false),
+      target: isChoice(contrastTargets, contrast.target)
+        ? contrast.target
+        : defaultContrastSettings.target,
+      rate: inRange(contrast.rate, CONTRAST_RATE) ? contrast.rate : defaultContrastSettings.rate,
+      regionSize: inRange(contrast.regionSize, CONTRAST_REGION)
+        ? contrast.regionSize
+        : defaultContrastSettings.regionSize,
+      // two colors at least, or there is nothing to choose between
+      palette: palette.length >= 2 ? palette : defaultContrastSettings.palette
+    },
+    spread: {
+      enabled: bool(spread.enabled, false),
+      movement: bool(spread.movement, defaultSpreadSettings.movement),
+      firing: bool(spread.firing, defaultSpreadSettings.firing),
+      mouse: bool(spread.mouse, defaultSpreadSettings.mouse),
+      curve: isChoice(spreadCurves, spread.curve) ? spread.curve : defaultSpreadSettings.curve,
+      maxGap: inRange(spread.maxGap, SPREAD_MAX_GAP) ? spread.maxGap : defaultSpreadSettings.maxGap,
+      recoveryMs: inRange(spread.recoveryMs, SPREAD_RECOVERY)
+        ? spread.recoveryMs
+        : defaultSpreadSettings.recoveryMs,
+      rate: inRange(spread.rate, SPREAD_RATE) ? spread.rate : defaultSpreadSettings.rate
+    },
+    displayOverlays: displayOverlays.slice(0, MAX_DISPLAY_OVERLAYS),
+    localStorageMigrated: bool(r.localStorageMigrated, false)
+  }
+}
@@ -2,6 +2,8 @@ export type WindowRef = {
   id: number
   title: string
   wmClass: string
+  // owning process, reported by Wayland compositors
+  pid?: number
 }
 
 export type Geometry = {